@@ -0,0 +1,430 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowDownIcon, ArrowUpIcon, MinusIcon } from "lucide-react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import Header from "../../header";
+import { ratingDimensions, serviceTypeLabel, serviceTypeOptions } from "@/lib/service-feedback-fields";
+import type {
+  DimensionStats,
+  NpsBreakdown,
+  NpsStats,
+  SegmentAverages,
+  ServiceFeedbackAnalytics,
+} from "@/lib/service-feedback-analytics";
+
+interface AnalyticsFilters {
+  serviceType: string;
+  month: string;
+  weeks: string;
+}
+
+const formatAverage = (value: number | null) => (value == null ? "—" : value.toFixed(2));
+
+const formatWeek = (weekStart: string) =>
+  new Date(`${weekStart}T00:00:00Z`).toLocaleDateString("en-US", { month: "short", day: "numeric", timeZone: "UTC" });
+
+// Colour a score cell from red (1) to green (5)
+const scoreClass = (value: number | null) => {
+  if (value == null) return "text-muted-foreground";
+  if (value >= 4) return "text-green-600 dark:text-green-400";
+  if (value >= 3) return "text-yellow-600 dark:text-yellow-400";
+  return "text-red-600 dark:text-red-400";
+};
+
+function WeekOverWeek({ change }: { change: number | null }) {
+  if (change == null) {
+    return <span className="text-xs text-muted-foreground">No data for last two weeks</span>;
+  }
+
+  const Icon = change > 0 ? ArrowUpIcon : change < 0 ? ArrowDownIcon : MinusIcon;
+  const color = change > 0 ? "text-green-600" : change < 0 ? "text-red-600" : "text-muted-foreground";
+
+  return (
+    <span className={`flex items-center gap-1 text-xs ${color}`}>
+      <Icon className="h-3 w-3" />
+      {change > 0 ? "+" : ""}{change.toFixed(2)} vs last week
+    </span>
+  );
+}
+
+function DimensionCard({ stats }: { stats: DimensionStats }) {
+  const maxCount = Math.max(...Object.values(stats.distribution), 1);
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardDescription>{stats.label}</CardDescription>
+        <CardTitle className={`text-3xl ${scoreClass(stats.average)}`}>
+          {formatAverage(stats.average)}
+        </CardTitle>
+        <WeekOverWeek change={stats.weekOverWeekChange} />
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Distribution */}
+        <div className="space-y-1">
+          {([5, 4, 3, 2, 1] as const).map((rating) => (
+            <div key={rating} className="flex items-center gap-2 text-xs">
+              <span className="w-3">{rating}</span>
+              <div className="flex-1 h-2 bg-muted rounded">
+                <div
+                  className="h-2 bg-yellow-400 rounded"
+                  style={{ width: `${(stats.distribution[rating] / maxCount) * 100}%` }}
+                />
+              </div>
+              <span className="w-8 text-right text-muted-foreground">{stats.distribution[rating]}</span>
+            </div>
+          ))}
+        </div>
+
+        {/* Weekly trend */}
+        <div>
+          <div className="flex items-end gap-1 h-16">
+            {stats.trend.map((week) => (
+              <div
+                key={week.weekStart}
+                className="flex-1 bg-primary/70 rounded-t"
+                style={{ height: `${((week.average ?? 0) / 5) * 100}%` }}
+                title={`Week of ${formatWeek(week.weekStart)}: ${formatAverage(week.average)} (${week.count} responses)`}
+              />
+            ))}
+          </div>
+          <div className="flex justify-between text-[10px] text-muted-foreground mt-1">
+            <span>{formatWeek(stats.trend[0].weekStart)}</span>
+            <span>{formatWeek(stats.trend[stats.trend.length - 1].weekStart)}</span>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+const formatNps = (score: number | null) => (score == null ? "—" : `${score > 0 ? "+" : ""}${score}`);
+
+const npsClass = (score: number | null) => {
+  if (score == null) return "text-muted-foreground";
+  if (score >= 30) return "text-green-600 dark:text-green-400";
+  if (score >= 0) return "text-yellow-600 dark:text-yellow-400";
+  return "text-red-600 dark:text-red-400";
+};
+
+const percent = (count: number, total: number) => (total ? Math.round((count / total) * 100) : 0);
+
+function NpsBar({ breakdown }: { breakdown: NpsBreakdown }) {
+  return (
+    <div className="flex h-3 w-full overflow-hidden rounded bg-muted">
+      <div className="bg-green-500" style={{ width: `${percent(breakdown.promoters, breakdown.responses)}%` }} />
+      <div className="bg-yellow-400" style={{ width: `${percent(breakdown.passives, breakdown.responses)}%` }} />
+      <div className="bg-red-500" style={{ width: `${percent(breakdown.detractors, breakdown.responses)}%` }} />
+    </div>
+  );
+}
+
+function NpsSection({ nps, formatSegment, formatMonth }: {
+  nps: NpsStats;
+  formatSegment: (segment: string) => string;
+  formatMonth: (month: string) => string;
+}) {
+  const { overall } = nps;
+  const segmentGroups = [
+    { title: "By Service Type", segments: nps.byServiceType, format: formatSegment },
+    { title: "By Service Month", segments: nps.byMonth, format: formatMonth },
+  ];
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+      <Card>
+        <CardHeader className="pb-2">
+          <CardDescription>Net Promoter Score</CardDescription>
+          <CardTitle className={`text-4xl ${npsClass(overall.score)}`}>{formatNps(overall.score)}</CardTitle>
+          <span className="text-xs text-muted-foreground">{overall.responses} scored responses</span>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <NpsBar breakdown={overall} />
+          <div className="grid grid-cols-3 gap-2 text-xs">
+            <div>
+              <div className="font-medium text-green-600">Promoters (9-10)</div>
+              {overall.promoters} • {percent(overall.promoters, overall.responses)}%
+            </div>
+            <div>
+              <div className="font-medium text-yellow-600">Passives (7-8)</div>
+              {overall.passives} • {percent(overall.passives, overall.responses)}%
+            </div>
+            <div>
+              <div className="font-medium text-red-600">Detractors (0-6)</div>
+              {overall.detractors} • {percent(overall.detractors, overall.responses)}%
+            </div>
+          </div>
+
+          {/* Weekly NPS: positive scores rise above the midline, negative ones drop below it */}
+          <div>
+            <div className="flex gap-1 h-20">
+              {nps.trend.map((week) => {
+                const height = `${Math.abs(week.score ?? 0)}%`;
+                return (
+                  <div
+                    key={week.weekStart}
+                    className="flex-1 flex flex-col"
+                    title={`Week of ${formatWeek(week.weekStart)}: NPS ${formatNps(week.score)} (${week.responses} responses)`}
+                  >
+                    <div className="h-1/2 flex items-end border-b border-muted">
+                      {(week.score ?? 0) > 0 && <div className="w-full bg-green-500/70 rounded-t" style={{ height }} />}
+                    </div>
+                    <div className="h-1/2 flex items-start">
+                      {(week.score ?? 0) < 0 && <div className="w-full bg-red-500/70 rounded-b" style={{ height }} />}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+            <div className="flex justify-between text-[10px] text-muted-foreground mt-1">
+              <span>{formatWeek(nps.trend[0].weekStart)}</span>
+              <span>{formatWeek(nps.trend[nps.trend.length - 1].weekStart)}</span>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {segmentGroups.map(({ title, segments, format }) => (
+        <Card key={title}>
+          <CardHeader>
+            <CardTitle>NPS {title}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {segments.every((segment) => segment.responses === 0) ? (
+              <p className="text-sm text-muted-foreground">No scored responses for the selected filters.</p>
+            ) : (
+              segments
+                .filter((segment) => segment.responses > 0)
+                .map((segment) => (
+                  <div key={segment.segment} className="space-y-1">
+                    <div className="flex justify-between text-sm">
+                      <span>{format(segment.segment)}</span>
+                      <span className={npsClass(segment.score)}>
+                        {formatNps(segment.score)}
+                        <span className="ml-1 text-xs text-muted-foreground">({segment.responses})</span>
+                      </span>
+                    </div>
+                    <NpsBar breakdown={segment} />
+                  </div>
+                ))
+            )}
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
+
+function SegmentTable({ title, segments, formatSegment }: {
+  title: string;
+  segments: SegmentAverages[];
+  formatSegment: (segment: string) => string;
+}) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{title}</CardTitle>
+      </CardHeader>
+      <CardContent className="overflow-x-auto">
+        {segments.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No feedback for the selected filters.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b">
+                <th className="text-left py-2 pr-4 font-medium">Dimension</th>
+                {segments.map(({ segment, responses }) => (
+                  <th key={segment} className="text-right py-2 px-2 font-medium whitespace-nowrap">
+                    {formatSegment(segment)}
+                    <div className="text-xs font-normal text-muted-foreground">{responses} responses</div>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {ratingDimensions.map(({ key, label }) => (
+                <tr key={key} className="border-b last:border-0">
+                  <td className="py-2 pr-4 whitespace-nowrap">{label}</td>
+                  {segments.map(({ segment, averages }) => (
+                    <td key={segment} className={`text-right py-2 px-2 ${scoreClass(averages[key])}`}>
+                      {formatAverage(averages[key])}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function AnalyticsPage() {
+  const router = useRouter();
+  const [analytics, setAnalytics] = useState<ServiceFeedbackAnalytics | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [filters, setFilters] = useState<AnalyticsFilters>({
+    serviceType: "",
+    month: "",
+    weeks: "8",
+  });
+
+  const fetchAnalytics = useCallback(async () => {
+    try {
+      const params = new URLSearchParams(
+        Object.entries(filters).filter(([, value]) => value !== "")
+      );
+      const response = await fetch(`/api/feedback/analytics?${params}`);
+      if (response.status === 401) {
+        router.replace("/login?from=/admin/analytics");
+        return;
+      }
+      if (response.status === 403) {
+        throw new Error("Analytics are available to analysts and admins only");
+      }
+      if (!response.ok) {
+        throw new Error("Failed to fetch analytics");
+      }
+
+      setAnalytics(await response.json());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setLoading(false);
+    }
+  }, [filters, router]);
+
+  useEffect(() => {
+    fetchAnalytics();
+  }, [fetchAnalytics]);
+
+  const handleFilterChange = (key: keyof AnalyticsFilters, value: string) => {
+    setFilters(prev => ({ ...prev, [key]: value }));
+  };
+
+  const formatMonth = (month: string) =>
+    new Date(`${month}-01T00:00:00Z`).toLocaleDateString("en-US", { year: "numeric", month: "short", timeZone: "UTC" });
+
+  return (
+    <div className="min-h-screen bg-zinc-50 font-sans dark:bg-black">
+      <Header />
+      <div className="container mx-auto p-4 space-y-6">
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold">Service Feedback Analytics</h1>
+            <p className="text-muted-foreground">
+              {analytics ? `${analytics.totalResponses} responses` : "Loading..."}
+              {(filters.serviceType || filters.month) && (
+                <Badge variant="secondary" className="ml-2">
+                  Filtered
+                </Badge>
+              )}
+            </p>
+          </div>
+          <Link href="/admin">
+            <Button variant="outline">Back to Feedback</Button>
+          </Link>
+        </div>
+
+        {/* Filters */}
+        <Card>
+          <CardContent className="grid grid-cols-1 md:grid-cols-3 gap-4 pt-6">
+            <div className="space-y-2">
+              <Label>Service Type</Label>
+              <Select value={filters.serviceType || "all"} onValueChange={(value) => handleFilterChange("serviceType", value === "all" ? "" : value)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="All Service Types" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Service Types</SelectItem>
+                  {serviceTypeOptions.map((serviceType) => (
+                    <SelectItem key={serviceType.value} value={serviceType.value}>
+                      {serviceType.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="month">Service Month</Label>
+              <Input
+                id="month"
+                type="month"
+                value={filters.month}
+                onChange={(e) => handleFilterChange("month", e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Trend Window</Label>
+              <Select value={filters.weeks} onValueChange={(value) => handleFilterChange("weeks", value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="4">Last 4 weeks</SelectItem>
+                  <SelectItem value="8">Last 8 weeks</SelectItem>
+                  <SelectItem value="12">Last 12 weeks</SelectItem>
+                  <SelectItem value="26">Last 26 weeks</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </CardContent>
+        </Card>
+
+        {error ? (
+          <Card className="max-w-md mx-auto">
+            <CardHeader>
+              <CardTitle className="text-red-600">Error</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p>{error}</p>
+              <Button onClick={() => fetchAnalytics()} className="mt-4">
+                Try Again
+              </Button>
+            </CardContent>
+          </Card>
+        ) : loading || !analytics ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="text-lg">Loading analytics...</div>
+          </div>
+        ) : (
+          <>
+            <NpsSection nps={analytics.nps} formatSegment={serviceTypeLabel} formatMonth={formatMonth} />
+
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
+              {analytics.dimensions.map((stats) => (
+                <DimensionCard key={stats.key} stats={stats} />
+              ))}
+            </div>
+
+            <SegmentTable
+              title="Average Score by Service Type"
+              segments={analytics.byServiceType}
+              formatSegment={serviceTypeLabel}
+            />
+
+            <SegmentTable
+              title="Average Score by Service Month"
+              segments={analytics.byMonth}
+              formatSegment={formatMonth}
+            />
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
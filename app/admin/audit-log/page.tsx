@@ -0,0 +1,320 @@
+"use client";
+
+import { Suspense, useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import Link from "next/link";
+import { useRouter, useSearchParams } from "next/navigation";
+import Header from "../../header";
+
+type RecordType = "registration" | "service_feedback" | "ui_feedback" | "event_feedback" | "follow_up" | "customer";
+
+interface AuditEntry {
+  id: string;
+  recordType: RecordType;
+  recordId: string;
+  action: string;
+  actorName: string | null;
+  actorEmail: string;
+  changes: Record<string, { from: unknown; to: unknown }>;
+  createdAt: string;
+}
+
+interface AuditPage {
+  items: AuditEntry[];
+  total: number;
+  nextCursor: string | null;
+}
+
+interface Filters {
+  recordType: RecordType | "";
+  recordId: string;
+  actor: string;
+  dateFrom: string;
+  dateTo: string;
+}
+
+const recordTypeLabels: Record<RecordType, string> = {
+  registration: "Registration",
+  service_feedback: "Service feedback",
+  ui_feedback: "UI feedback",
+  event_feedback: "Event feedback",
+  follow_up: "Follow-up case",
+  customer: "Customer",
+};
+
+const actionLabels: Record<string, string> = {
+  update: "Edited",
+  triage: "Triaged",
+  contact_logged: "Contact logged",
+  reply: "Replied",
+  customer_match: "Linked to customer",
+  flag: "Flagged as spam",
+  release: "Released from moderation",
+};
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+// assignedTo -> "assigned to"
+const fieldLabel = (field: string) => field.replace(/([A-Z])/g, " $1").toLowerCase();
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === "" || (Array.isArray(value) && value.length === 0)) {
+    return <span className="text-muted-foreground">—</span>;
+  }
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (Array.isArray(value)) return value.join(", ");
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+};
+
+const buildQueryString = (filters: Filters, cursor?: string) => {
+  const params = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value) params.set(key, value.trim());
+  });
+  if (cursor) params.set("cursor", cursor);
+  return params.toString();
+};
+
+function AuditLog() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const [filters, setFilters] = useState<Filters>({
+    recordType: (searchParams.get("recordType") as RecordType | null) ?? "",
+    recordId: searchParams.get("recordId") ?? "",
+    actor: "",
+    dateFrom: "",
+    dateTo: "",
+  });
+  const [appliedFilters, setAppliedFilters] = useState<Filters>(filters);
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Debounced so typing an id or name doesn't fire a request per keystroke
+  useEffect(() => {
+    const timeout = setTimeout(() => setAppliedFilters(filters), 300);
+    return () => clearTimeout(timeout);
+  }, [filters]);
+
+  const fetchEntries = useCallback(async (cursor?: string) => {
+    if (cursor) setLoadingMore(true);
+
+    try {
+      const response = await fetch(`/api/audit-log?${buildQueryString(appliedFilters, cursor)}`);
+      if (response.status === 401) {
+        router.replace("/login?from=/admin/audit-log");
+        return;
+      }
+      if (response.status === 403) {
+        throw new Error("Only admins can view the audit log");
+      }
+      if (!response.ok) {
+        throw new Error("Failed to fetch the audit log");
+      }
+      const data: AuditPage = await response.json();
+
+      setEntries((prev) => (cursor ? [...prev, ...data.items] : data.items));
+      setTotal(data.total);
+      setNextCursor(data.nextCursor);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setLoading(false);
+      setLoadingMore(false);
+    }
+  }, [appliedFilters, router]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  const showRecord = (entry: AuditEntry) =>
+    setFilters({ ...filters, recordType: entry.recordType, recordId: entry.recordId });
+
+  return (
+    <div className="container mx-auto p-4 space-y-6">
+      <div className="flex flex-wrap justify-between items-center gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Audit Log</h1>
+          <p className="text-muted-foreground">
+            Every staff change to feedback and registrations: who made it, when, and what it changed.
+          </p>
+        </div>
+        <Link href="/admin">
+          <Button variant="outline">Back to Feedback</Button>
+        </Link>
+      </div>
+
+      <Card>
+        <CardContent className="grid gap-4 p-4 sm:grid-cols-2 lg:grid-cols-5">
+          <div className="space-y-2">
+            <Label>Record type</Label>
+            <Select
+              value={filters.recordType || "all"}
+              onValueChange={(value) => setFilters({ ...filters, recordType: value === "all" ? "" : (value as RecordType) })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All records</SelectItem>
+                {Object.entries(recordTypeLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="audit-record-id">Record id</Label>
+            <Input
+              id="audit-record-id"
+              value={filters.recordId}
+              onChange={(event) => setFilters({ ...filters, recordId: event.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="audit-actor">Changed by</Label>
+            <Input
+              id="audit-actor"
+              placeholder="Name or email"
+              value={filters.actor}
+              onChange={(event) => setFilters({ ...filters, actor: event.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="audit-from">From</Label>
+            <Input
+              id="audit-from"
+              type="date"
+              value={filters.dateFrom}
+              onChange={(event) => setFilters({ ...filters, dateFrom: event.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="audit-to">To</Label>
+            <Input
+              id="audit-to"
+              type="date"
+              value={filters.dateTo}
+              onChange={(event) => setFilters({ ...filters, dateTo: event.target.value })}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      {error ? (
+        <Card className="max-w-md mx-auto">
+          <CardHeader>
+            <CardTitle className="text-red-600">Error</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p>{error}</p>
+            <Button onClick={() => fetchEntries()} className="mt-4">
+              Try Again
+            </Button>
+          </CardContent>
+        </Card>
+      ) : loading ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="text-lg">Loading audit log...</div>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            {total} {total === 1 ? "change" : "changes"}
+          </p>
+
+          {entries.length === 0 ? (
+            <Card>
+              <CardContent className="p-6 text-center">
+                <p className="text-muted-foreground">No changes match these filters.</p>
+              </CardContent>
+            </Card>
+          ) : (
+            entries.map((entry) => (
+              <Card key={entry.id}>
+                <CardContent className="p-4 space-y-3">
+                  <div className="flex flex-wrap justify-between items-start gap-2">
+                    <div className="space-y-1">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <Badge variant="secondary">{recordTypeLabels[entry.recordType] ?? entry.recordType}</Badge>
+                        <span className="font-medium">{actionLabels[entry.action] ?? entry.action}</span>
+                        <span className="text-sm text-muted-foreground">
+                          by {entry.actorName ? `${entry.actorName} (${entry.actorEmail})` : entry.actorEmail}
+                        </span>
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {formatDate(entry.createdAt)} • {entry.recordId}
+                      </p>
+                    </div>
+                    {filters.recordId !== entry.recordId && (
+                      <Button variant="ghost" size="sm" onClick={() => showRecord(entry)}>
+                        Record history
+                      </Button>
+                    )}
+                  </div>
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-muted-foreground">
+                        <th className="py-1 pr-4 font-normal">Field</th>
+                        <th className="py-1 pr-4 font-normal">Before</th>
+                        <th className="py-1 font-normal">After</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {Object.entries(entry.changes).map(([field, { from, to }]) => (
+                        <tr key={field} className="border-t align-top">
+                          <td className="py-1 pr-4 font-medium">{fieldLabel(field)}</td>
+                          <td className="py-1 pr-4 break-all">{formatValue(from)}</td>
+                          <td className="py-1 break-all">{formatValue(to)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </CardContent>
+              </Card>
+            ))
+          )}
+
+          {nextCursor && (
+            <div className="flex justify-center mt-6">
+              <Button variant="outline" onClick={() => fetchEntries(nextCursor)} disabled={loadingMore}>
+                {loadingMore ? "Loading..." : "Load More"}
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function AuditLogPage() {
+  return (
+    <div className="min-h-screen bg-zinc-50 font-sans dark:bg-black">
+      <Header />
+      <Suspense>
+        <AuditLog />
+      </Suspense>
+    </div>
+  );
+}
@@ -0,0 +1,316 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { MailIcon, PencilIcon, PhoneIcon } from "lucide-react";
+import Link from "next/link";
+import { useParams, useRouter } from "next/navigation";
+import { toast } from "sonner";
+import Header from "../../../header";
+import { npsCategory, npsCategoryLabels, serviceTypeLabel } from "@/lib/service-feedback-fields";
+import type { RegistrationRecord, ServiceFeedbackRecord } from "@/lib/schemas";
+import type { SatisfactionPoint } from "@/lib/customers";
+import { formatDateOnly } from "@/lib/dates";
+
+interface CustomerProfile {
+  id: string;
+  name: string;
+  createdAt: string;
+  contacts: { id: string; type: "EMAIL" | "PHONE"; display: string }[];
+  registrations: RegistrationRecord[];
+  serviceFeedback: (ServiceFeedbackRecord & { followUpCase: { id: string; status: string } | null })[];
+  satisfactionTrend: SatisfactionPoint[];
+}
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+
+const formatMonth = (month: string) =>
+  new Date(`${month}-01T00:00:00Z`).toLocaleDateString("en-US", { year: "numeric", month: "short", timeZone: "UTC" });
+
+const scoreClass = (value: number | null) => {
+  if (value == null) return "text-muted-foreground";
+  if (value >= 4) return "text-green-600 dark:text-green-400";
+  if (value >= 3) return "text-yellow-600 dark:text-yellow-400";
+  return "text-red-600 dark:text-red-400";
+};
+
+export default function CustomerProfilePage() {
+  const router = useRouter();
+  const { id } = useParams<{ id: string }>();
+  const [customer, setCustomer] = useState<CustomerProfile | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState<string | null>(null);
+
+  const fetchCustomer = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/customers/${id}`);
+      if (response.status === 401) {
+        router.replace(`/login?from=/admin/customers/${id}`);
+        return;
+      }
+      if (!response.ok) {
+        throw new Error(response.status === 404 ? "Customer not found" : "Failed to fetch customer");
+      }
+      setCustomer(await response.json());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setLoading(false);
+    }
+  }, [id, router]);
+
+  useEffect(() => {
+    fetchCustomer();
+  }, [fetchCustomer]);
+
+  const saveName = async () => {
+    if (!customer || editingName == null) return;
+
+    try {
+      const response = await fetch(`/api/customers/${id}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ name: editingName }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result?.details?.[0]?.message || result?.error || "Failed to rename customer");
+      }
+
+      setCustomer({ ...customer, name: result.name });
+      setEditingName(null);
+    } catch (err) {
+      toast.error("Could not rename customer", {
+        description: err instanceof Error ? err.message : "Please try again later.",
+      });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-zinc-50 font-sans dark:bg-black">
+        <Header />
+        <div className="container mx-auto p-4">
+          <div className="flex items-center justify-center h-64">
+            <div className="text-lg">Loading customer...</div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !customer) {
+    return (
+      <div className="min-h-screen bg-zinc-50 font-sans dark:bg-black">
+        <Header />
+        <div className="container mx-auto p-4">
+          <Card className="max-w-md mx-auto">
+            <CardHeader>
+              <CardTitle className="text-red-600">Error</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p>{error || "Customer not found"}</p>
+              <Button onClick={() => fetchCustomer()} className="mt-4">
+                Try Again
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  const scores = customer.serviceFeedback
+    .filter((feedback) => !feedback.flagged)
+    .map((feedback) => feedback.overallSatisfaction);
+  const averageSatisfaction = scores.length ? scores.reduce((sum, score) => sum + score, 0) / scores.length : null;
+  const latestRecommendScore = customer.serviceFeedback.find(
+    (feedback) => !feedback.flagged && feedback.recommendScore != null
+  )?.recommendScore;
+
+  return (
+    <div className="min-h-screen bg-zinc-50 font-sans dark:bg-black">
+      <Header />
+      <div className="container mx-auto p-4 space-y-6">
+        <div className="flex flex-wrap justify-between items-center gap-4">
+          <div>
+            {editingName == null ? (
+              <h1 className="text-3xl font-bold flex items-center gap-2">
+                {customer.name}
+                <Button variant="ghost" size="icon" aria-label="Rename customer" onClick={() => setEditingName(customer.name)}>
+                  <PencilIcon className="h-4 w-4" />
+                </Button>
+              </h1>
+            ) : (
+              <div className="flex gap-2">
+                <Input value={editingName} onChange={(e) => setEditingName(e.target.value)} className="w-72" />
+                <Button onClick={saveName}>Save</Button>
+                <Button variant="ghost" onClick={() => setEditingName(null)}>
+                  Cancel
+                </Button>
+              </div>
+            )}
+            <p className="text-muted-foreground">Customer since {formatDate(customer.createdAt)}</p>
+          </div>
+          <Link href="/admin/customers">
+            <Button variant="outline">All Customers</Button>
+          </Link>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Contacts</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-1 text-sm">
+              {customer.contacts.length === 0 ? (
+                <p className="text-muted-foreground">Matched by company name only</p>
+              ) : (
+                customer.contacts.map((contact) => (
+                  <div key={contact.id} className="flex items-center gap-2">
+                    {contact.type === "EMAIL" ? <MailIcon className="h-3 w-3" /> : <PhoneIcon className="h-3 w-3" />}
+                    {contact.display}
+                  </div>
+                ))
+              )}
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Average Overall Satisfaction</CardDescription>
+              <CardTitle className={`text-3xl ${scoreClass(averageSatisfaction)}`}>
+                {averageSatisfaction == null ? "—" : averageSatisfaction.toFixed(2)}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="text-sm text-muted-foreground">
+              {customer.serviceFeedback.length} feedback submissions
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Latest Likelihood to Recommend</CardDescription>
+              <CardTitle className="text-3xl">
+                {latestRecommendScore == null ? "—" : `${latestRecommendScore}/10`}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="text-sm text-muted-foreground">
+              {latestRecommendScore == null ? "Not answered yet" : npsCategoryLabels[npsCategory(latestRecommendScore)]}
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Satisfaction trend */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Satisfaction Over Time</CardTitle>
+            <CardDescription>Monthly average overall satisfaction (1-5)</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {customer.satisfactionTrend.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No service feedback yet.</p>
+            ) : (
+              <div className="flex items-end gap-2 h-40">
+                {customer.satisfactionTrend.map((point) => (
+                  <div key={point.month} className="flex-1 flex flex-col items-center justify-end h-full gap-1">
+                    <span className={`text-xs ${scoreClass(point.overallSatisfaction)}`}>
+                      {point.overallSatisfaction?.toFixed(1)}
+                    </span>
+                    <div
+                      className="w-full max-w-12 bg-primary/70 rounded-t"
+                      style={{ height: `${((point.overallSatisfaction ?? 0) / 5) * 100}%` }}
+                      title={`${formatMonth(point.month)}: ${point.responses} responses${
+                        point.recommendScore != null ? `, recommend ${point.recommendScore}/10` : ""
+                      }`}
+                    />
+                    <span className="text-[10px] text-muted-foreground whitespace-nowrap">{formatMonth(point.month)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Feedback history */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Feedback History</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {customer.serviceFeedback.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No service feedback yet.</p>
+            ) : (
+              customer.serviceFeedback.map((feedback) => (
+                <div key={feedback.id} className="rounded-md border p-3 text-sm space-y-2">
+                  <div className="flex flex-wrap justify-between items-center gap-2">
+                    <div className="flex flex-wrap gap-1">
+                      {feedback.serviceType.map((type) => (
+                        <Badge key={type} variant="secondary">{serviceTypeLabel(type)}</Badge>
+                      ))}
+                      {feedback.followUpCase && (
+                        <Badge variant="outline">Follow-up: {feedback.followUpCase.status.toLowerCase().replace(/_/g, " ")}</Badge>
+                      )}
+                      {feedback.flagged && <Badge variant="destructive">Flagged as spam</Badge>}
+                    </div>
+                    <span className="text-xs text-muted-foreground">
+                      Service on {formatDateOnly(feedback.serviceDate)} • submitted {formatDate(feedback.createdAt)}
+                    </span>
+                  </div>
+                  <div className="flex flex-wrap gap-4">
+                    <span>
+                      Overall satisfaction:{" "}
+                      <span className={scoreClass(feedback.overallSatisfaction)}>{feedback.overallSatisfaction}/5</span>
+                    </span>
+                    {feedback.recommendScore != null && <span>Likelihood to recommend: {feedback.recommendScore}/10</span>}
+                    {feedback.customerName && <span className="text-muted-foreground">by {feedback.customerName}</span>}
+                  </div>
+                  {(feedback.issuesExperienced || feedback.improvementAreas) && (
+                    <p className="text-muted-foreground whitespace-pre-wrap">
+                      {feedback.issuesExperienced || feedback.improvementAreas}
+                    </p>
+                  )}
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Registrations */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Event Registrations</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {customer.registrations.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No registrations yet.</p>
+            ) : (
+              customer.registrations.map((registration) => (
+                <div key={registration.id} className="flex flex-wrap justify-between gap-2 text-sm border-b last:border-0 py-2">
+                  <span>
+                    {registration.name || "Unnamed contact"}
+                    {registration.jobTitle && <span className="text-muted-foreground"> • {registration.jobTitle}</span>}
+                  </span>
+                  <span className="text-muted-foreground">
+                    {registration.sourceEvent || "Unknown event"} • {formatDate(registration.createdAt)}
+                  </span>
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
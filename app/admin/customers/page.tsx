@@ -0,0 +1,173 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { MailIcon, PhoneIcon } from "lucide-react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import Header from "../../header";
+
+interface CustomerSummary {
+  id: string;
+  name: string;
+  updatedAt: string;
+  contacts: { type: "EMAIL" | "PHONE"; display: string }[];
+  _count: { registrations: number; serviceFeedback: number };
+}
+
+export default function CustomersPage() {
+  const router = useRouter();
+  const [customers, setCustomers] = useState<CustomerSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState("");
+  const [appliedSearch, setAppliedSearch] = useState("");
+  const [matching, setMatching] = useState(false);
+
+  // Debounce typing so the search only hits the API once the user pauses
+  useEffect(() => {
+    const timeout = setTimeout(() => setAppliedSearch(search), 300);
+    return () => clearTimeout(timeout);
+  }, [search]);
+
+  const fetchCustomers = useCallback(async () => {
+    try {
+      const params = new URLSearchParams(appliedSearch ? { search: appliedSearch } : {});
+      const response = await fetch(`/api/customers?${params}`);
+      if (response.status === 401) {
+        router.replace("/login?from=/admin/customers");
+        return;
+      }
+      if (!response.ok) {
+        throw new Error("Failed to fetch customers");
+      }
+      setCustomers(await response.json());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setLoading(false);
+    }
+  }, [appliedSearch, router]);
+
+  useEffect(() => {
+    fetchCustomers();
+  }, [fetchCustomers]);
+
+  const matchExisting = async () => {
+    setMatching(true);
+    try {
+      // Each request handles one batch; keep going until the server says everything was looked at
+      const totals = { registrations: 0, serviceFeedback: 0, unmatched: 0 };
+      let after: string | null = "";
+      do {
+        const response: Response = await fetch(`/api/customers/match?${new URLSearchParams({ after })}`, {
+          method: "POST",
+        });
+        const result = await response.json();
+
+        if (!response.ok) {
+          throw new Error(result?.error || "Failed to match submissions");
+        }
+
+        totals.registrations += result.registrations;
+        totals.serviceFeedback += result.serviceFeedback;
+        totals.unmatched += result.unmatched;
+        after = result.next;
+      } while (after);
+
+      toast.success("Submissions matched", {
+        description: `${totals.registrations} registrations and ${totals.serviceFeedback} feedback submissions linked, ${totals.unmatched} without contact details.`,
+      });
+      fetchCustomers();
+    } catch (err) {
+      toast.error("Could not match submissions", {
+        description: err instanceof Error ? err.message : "Please try again later.",
+      });
+    } finally {
+      setMatching(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-zinc-50 font-sans dark:bg-black">
+      <Header />
+      <div className="container mx-auto p-4 space-y-6">
+        <div className="flex flex-wrap justify-between items-center gap-4">
+          <div>
+            <h1 className="text-3xl font-bold">Customers</h1>
+            <p className="text-muted-foreground">
+              Registrations and feedback matched by email, phone or company name
+            </p>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Input
+              placeholder="Search name, email or phone..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="w-72"
+            />
+            <Button variant="outline" onClick={matchExisting} disabled={matching}>
+              {matching ? "Matching..." : "Match Existing Submissions"}
+            </Button>
+            <Link href="/admin">
+              <Button variant="outline">Back to Feedback</Button>
+            </Link>
+          </div>
+        </div>
+
+        {error ? (
+          <Card className="max-w-md mx-auto">
+            <CardHeader>
+              <CardTitle className="text-red-600">Error</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p>{error}</p>
+              <Button onClick={() => fetchCustomers()} className="mt-4">
+                Try Again
+              </Button>
+            </CardContent>
+          </Card>
+        ) : loading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="text-lg">Loading customers...</div>
+          </div>
+        ) : customers.length === 0 ? (
+          <Card>
+            <CardContent className="p-6 text-center">
+              <p className="text-muted-foreground">No customers found.</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {customers.map((customer) => (
+              <Link key={customer.id} href={`/admin/customers/${customer.id}`}>
+                <Card className="h-full hover:border-primary">
+                  <CardHeader>
+                    <CardTitle className="text-lg">{customer.name}</CardTitle>
+                    <CardDescription className="flex gap-2">
+                      <Badge variant="secondary">{customer._count.serviceFeedback} feedback</Badge>
+                      <Badge variant="outline">{customer._count.registrations} registrations</Badge>
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-1 text-sm text-muted-foreground">
+                    {customer.contacts.slice(0, 3).map((contact) => (
+                      <div key={`${contact.type}-${contact.display}`} className="flex items-center gap-2">
+                        {contact.type === "EMAIL" ? <MailIcon className="h-3 w-3" /> : <PhoneIcon className="h-3 w-3" />}
+                        {contact.display}
+                      </div>
+                    ))}
+                  </CardContent>
+                </Card>
+              </Link>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Star } from "lucide-react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import Header from "../../header";
+import { eventRatingDimensions, type EventRatingDimension } from "@/lib/event-feedback-fields";
+import type { EventFeedbackRecord } from "@/lib/schemas";
+
+interface EventFeedbackResponse {
+  items: EventFeedbackRecord[];
+  summary: {
+    responses: number;
+    averages: Record<EventRatingDimension, number | null>;
+  };
+}
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+const renderStars = (rating: number) => (
+  <div className="flex items-center gap-1">
+    {[1, 2, 3, 4, 5].map((star) => (
+      <Star
+        key={star}
+        className={`h-4 w-4 ${
+          star <= Math.round(rating) ? "fill-yellow-400 text-yellow-400" : "text-gray-300"
+        }`}
+      />
+    ))}
+    <span className="ml-1 text-sm text-muted-foreground">({Number.isInteger(rating) ? rating : rating.toFixed(2)}/5)</span>
+  </div>
+);
+
+export default function EventFeedbackAdminPage() {
+  const router = useRouter();
+  const [data, setData] = useState<EventFeedbackResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchEventFeedback = useCallback(async () => {
+    try {
+      const response = await fetch("/api/event-feedback");
+      if (response.status === 401) {
+        router.replace("/login?from=/admin/events");
+        return;
+      }
+      if (!response.ok) {
+        throw new Error("Failed to fetch event feedback");
+      }
+      setData(await response.json());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setLoading(false);
+    }
+  }, [router]);
+
+  useEffect(() => {
+    fetchEventFeedback();
+  }, [fetchEventFeedback]);
+
+  return (
+    <div className="min-h-screen bg-zinc-50 font-sans dark:bg-black">
+      <Header />
+      <div className="container mx-auto p-4 space-y-6">
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold">Coffee Event Ratings</h1>
+            <p className="text-muted-foreground">
+              {data ? `${data.summary.responses} submissions` : "Loading..."}
+            </p>
+          </div>
+          <Link href="/admin">
+            <Button variant="outline">Back to Feedback</Button>
+          </Link>
+        </div>
+
+        {error ? (
+          <Card className="max-w-md mx-auto">
+            <CardHeader>
+              <CardTitle className="text-red-600">Error</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p>{error}</p>
+              <Button onClick={() => fetchEventFeedback()} className="mt-4">
+                Try Again
+              </Button>
+            </CardContent>
+          </Card>
+        ) : loading || !data ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="text-lg">Loading event ratings...</div>
+          </div>
+        ) : (
+          <>
+            {/* Averages */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Average Ratings</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3 text-sm">
+                  {eventRatingDimensions.map(({ key, label }) => (
+                    <div key={key} className="flex justify-between">
+                      <span>{label}:</span>
+                      {data.summary.averages[key] != null
+                        ? renderStars(data.summary.averages[key])
+                        : <span className="text-muted-foreground">—</span>}
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Submissions */}
+            <div className="grid gap-4">
+              {data.items.length === 0 ? (
+                <Card>
+                  <CardContent className="p-6 text-center">
+                    <p className="text-muted-foreground">No event ratings found.</p>
+                  </CardContent>
+                </Card>
+              ) : (
+                data.items.map((feedback) => (
+                  <Card key={feedback.id}>
+                    <CardHeader>
+                      <div className="flex justify-between items-start">
+                        <div>
+                          <CardTitle className="text-lg">Event Rating</CardTitle>
+                          <CardDescription>
+                            Overall {feedback.overallRating}/5
+                            {feedback.sourceEvent && ` • ${feedback.sourceEvent}`}
+                          </CardDescription>
+                        </div>
+                        <div className="flex gap-2 flex-col items-end">
+                          {feedback.flagged && (
+                            <Link href="/admin/moderation">
+                              <Badge variant="destructive">Flagged as spam</Badge>
+                            </Link>
+                          )}
+                          <Badge variant="outline">{formatDate(feedback.createdAt)}</Badge>
+                        </div>
+                      </div>
+                    </CardHeader>
+                    <CardContent>
+                      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3 text-sm">
+                        {eventRatingDimensions.map(({ key, label }) => (
+                          <div key={key} className="flex justify-between">
+                            <span>{label}:</span>
+                            {renderStars(feedback[key])}
+                          </div>
+                        ))}
+                      </div>
+                      {feedback.additionalComments && (
+                        <div className="mt-4">
+                          <h4 className="font-semibold text-sm text-muted-foreground mb-1">Comments:</h4>
+                          <p className="text-sm bg-blue-50 dark:bg-blue-900/20 p-3 rounded-md">{feedback.additionalComments}</p>
+                        </div>
+                      )}
+                    </CardContent>
+                  </Card>
+                ))
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
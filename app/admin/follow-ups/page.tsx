@@ -0,0 +1,466 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { MailIcon, MessageSquareIcon, PhoneIcon, UserIcon, RefreshCwIcon } from "lucide-react";
+import Link from "next/link";
+import { AttachmentList, type AttachmentSummary } from "@/components/attachment-list";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import Header from "../../header";
+import { formatDateOnly } from "@/lib/dates";
+
+type FollowUpStatus = "OPEN" | "CONTACTED" | "IN_PROGRESS" | "RESOLVED" | "CLOSED";
+
+interface FollowUpEvent {
+  id: string;
+  type: "NOTE" | "CONTACTED" | "STATUS_CHANGE" | "ASSIGNED";
+  note?: string;
+  contactMethod?: string;
+  fromValue?: string;
+  toValue?: string;
+  authorName?: string;
+  authorEmail?: string;
+  createdAt: string;
+}
+
+interface FollowUpCase {
+  id: string;
+  owner?: string;
+  status: FollowUpStatus;
+  dueDate?: string;
+  contactedAt?: string;
+  resolvedAt?: string;
+  createdAt: string;
+  serviceFeedback: {
+    id: string;
+    customerName?: string;
+    companyName?: string;
+    contactInfo?: string;
+    serviceDate: string;
+    overallSatisfaction: number;
+    issuesExperienced?: string;
+    improvementAreas?: string;
+    preferredContactMethod?: string;
+    preferredContactOther?: string;
+    createdAt: string;
+    attachments?: AttachmentSummary[];
+  };
+  events?: FollowUpEvent[];
+}
+
+const statusOptions: { value: FollowUpStatus; label: string }[] = [
+  { value: "OPEN", label: "Open" },
+  { value: "CONTACTED", label: "Contacted" },
+  { value: "IN_PROGRESS", label: "In Progress" },
+  { value: "RESOLVED", label: "Resolved" },
+  { value: "CLOSED", label: "Closed" },
+];
+
+const contactMethodOptions = [
+  { value: "email", label: "Email" },
+  { value: "phone", label: "Phone" },
+  { value: "other", label: "Other" },
+];
+
+const statusLabel = (status?: string) => statusOptions.find(option => option.value === status)?.label || status;
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+
+const formatDateTime = (dateString: string) =>
+  new Date(dateString).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+const isOverdue = (followUpCase: FollowUpCase) =>
+  !!followUpCase.dueDate &&
+  !["RESOLVED", "CLOSED"].includes(followUpCase.status) &&
+  new Date(followUpCase.dueDate) < new Date();
+
+function describeEvent(event: FollowUpEvent) {
+  switch (event.type) {
+    case "CONTACTED":
+      return `Contacted customer${event.contactMethod ? ` by ${event.contactMethod}` : ""}`;
+    case "STATUS_CHANGE":
+      return `Changed status from ${statusLabel(event.fromValue)} to ${statusLabel(event.toValue)}`;
+    case "ASSIGNED":
+      return event.toValue ? `Assigned to ${event.toValue}` : "Removed owner";
+    default:
+      return "Added a note";
+  }
+}
+
+function CaseDetail({ caseId, onChange }: { caseId: string; onChange: () => void }) {
+  const [followUpCase, setFollowUpCase] = useState<FollowUpCase | null>(null);
+  const [owner, setOwner] = useState("");
+  const [status, setStatus] = useState<FollowUpStatus>("OPEN");
+  const [dueDate, setDueDate] = useState("");
+  const [note, setNote] = useState("");
+  const [contactMethod, setContactMethod] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const loadCase = useCallback(async () => {
+    const response = await fetch(`/api/follow-ups/${caseId}`);
+    if (!response.ok) {
+      toast.error("Failed to load follow-up case");
+      return;
+    }
+    const data: FollowUpCase = await response.json();
+    setFollowUpCase(data);
+    setOwner(data.owner || "");
+    setStatus(data.status);
+    setDueDate(data.dueDate ? data.dueDate.slice(0, 10) : "");
+    setContactMethod(data.serviceFeedback.preferredContactMethod || "");
+  }, [caseId]);
+
+  useEffect(() => {
+    loadCase();
+  }, [loadCase]);
+
+  const submit = async (url: string, method: string, body: object, successMessage: string) => {
+    setSaving(true);
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(body),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result?.error || "Request failed");
+      }
+
+      toast.success(successMessage);
+      await loadCase();
+      onChange();
+      return true;
+    } catch (error) {
+      toast.error("Could not update follow-up", {
+        description: error instanceof Error ? error.message : "Please try again later.",
+      });
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const saveCase = () =>
+    submit(`/api/follow-ups/${caseId}`, "PATCH", { owner, status, dueDate: dueDate || null }, "Follow-up updated");
+
+  const addEvent = async (type: "NOTE" | "CONTACTED") => {
+    const saved = await submit(
+      `/api/follow-ups/${caseId}/events`,
+      "POST",
+      { type, note: note || undefined, contactMethod: type === "CONTACTED" ? contactMethod || undefined : undefined },
+      type === "CONTACTED" ? "Contact logged" : "Note added"
+    );
+    if (saved) setNote("");
+  };
+
+  if (!followUpCase) {
+    return (
+      <Card>
+        <CardContent className="p-6 text-center text-muted-foreground">Loading case...</CardContent>
+      </Card>
+    );
+  }
+
+  const { serviceFeedback } = followUpCase;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-start">
+          <div>
+            <CardTitle>{serviceFeedback.customerName || "Anonymous Customer"}</CardTitle>
+            <CardDescription>
+              {serviceFeedback.companyName && `${serviceFeedback.companyName} • `}
+              Service Date: {formatDateOnly(serviceFeedback.serviceDate)} • Overall {serviceFeedback.overallSatisfaction}/5
+            </CardDescription>
+          </div>
+          <Badge variant={isOverdue(followUpCase) ? "destructive" : "secondary"}>
+            {isOverdue(followUpCase) ? "Overdue" : statusLabel(followUpCase.status)}
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Customer contact preferences */}
+        <div className="text-sm space-y-1">
+          <p><span className="font-medium">Contact:</span> {serviceFeedback.contactInfo || "Not provided"}</p>
+          <p>
+            <span className="font-medium">Preferred Contact:</span>{" "}
+            {serviceFeedback.preferredContactMethod || "Not specified"}
+            {serviceFeedback.preferredContactOther && ` (${serviceFeedback.preferredContactOther})`}
+          </p>
+          {serviceFeedback.issuesExperienced && (
+            <p className="bg-red-50 dark:bg-red-900/20 p-3 rounded-md mt-2">{serviceFeedback.issuesExperienced}</p>
+          )}
+          {!!serviceFeedback.attachments?.length && (
+            <div className="pt-2">
+              <AttachmentList attachments={serviceFeedback.attachments} />
+            </div>
+          )}
+          {serviceFeedback.improvementAreas && (
+            <p className="bg-yellow-50 dark:bg-yellow-900/20 p-3 rounded-md mt-2">{serviceFeedback.improvementAreas}</p>
+          )}
+        </div>
+
+        {/* Case fields */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="owner">Owner</Label>
+            <Input id="owner" placeholder="Unassigned" value={owner} onChange={(e) => setOwner(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label>Status</Label>
+            <Select value={status} onValueChange={(value) => setStatus(value as FollowUpStatus)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {statusOptions.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="dueDate">Due Date</Label>
+            <Input id="dueDate" type="date" value={dueDate} onChange={(e) => setDueDate(e.target.value)} />
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button onClick={saveCase} disabled={saving}>
+            Save Changes
+          </Button>
+          <Link href={`/admin/audit-log?recordType=follow_up&recordId=${followUpCase.id}`}>
+            <Button variant="ghost">History</Button>
+          </Link>
+        </div>
+
+        {/* Log contact or add a note */}
+        <div className="space-y-2 pt-4 border-t">
+          <Label htmlFor="note">Note</Label>
+          <Textarea
+            id="note"
+            placeholder="What happened? What was agreed with the customer?"
+            className="resize-none"
+            rows={3}
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+          />
+          <div className="flex flex-wrap items-center gap-2">
+            <Select value={contactMethod || "none"} onValueChange={(value) => setContactMethod(value === "none" ? "" : value)}>
+              <SelectTrigger className="w-40">
+                <SelectValue placeholder="Contact method" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Not specified</SelectItem>
+                {contactMethodOptions.map((method) => (
+                  <SelectItem key={method.value} value={method.value}>
+                    {method.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={() => addEvent("CONTACTED")} disabled={saving}>
+              {contactMethod === "phone" ? <PhoneIcon className="h-4 w-4 mr-2" /> : <MailIcon className="h-4 w-4 mr-2" />}
+              Log Contact
+            </Button>
+            <Button variant="outline" onClick={() => addEvent("NOTE")} disabled={saving || !note.trim()}>
+              <MessageSquareIcon className="h-4 w-4 mr-2" />
+              Add Note
+            </Button>
+          </div>
+        </div>
+
+        {/* Timeline */}
+        <div className="pt-4 border-t">
+          <h4 className="font-semibold text-sm text-muted-foreground mb-3">History</h4>
+          <ol className="space-y-3">
+            {followUpCase.events?.map((event) => (
+              <li key={event.id} className="text-sm border-l-2 pl-3">
+                <div className="font-medium">{describeEvent(event)}</div>
+                {event.note && <p className="whitespace-pre-wrap">{event.note}</p>}
+                <div className="text-xs text-muted-foreground">
+                  {event.authorName || event.authorEmail || "System"} • {formatDateTime(event.createdAt)}
+                </div>
+              </li>
+            ))}
+            <li className="text-sm border-l-2 pl-3">
+              <div className="font-medium">Follow-up requested</div>
+              <div className="text-xs text-muted-foreground">{formatDateTime(followUpCase.createdAt)}</div>
+            </li>
+          </ol>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function FollowUpsPage() {
+  const router = useRouter();
+  const [cases, setCases] = useState<FollowUpCase[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState("open");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const fetchCases = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/follow-ups?status=${statusFilter}`);
+      if (response.status === 401) {
+        router.replace("/login?from=/admin/follow-ups");
+        return;
+      }
+      if (!response.ok) {
+        throw new Error("Failed to fetch follow-ups");
+      }
+      setCases(await response.json());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter, router]);
+
+  useEffect(() => {
+    fetchCases();
+  }, [fetchCases]);
+
+  const overdueCount = cases.filter(isOverdue).length;
+
+  return (
+    <div className="min-h-screen bg-zinc-50 font-sans dark:bg-black">
+      <Header />
+      <div className="container mx-auto p-4 space-y-6">
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold">Follow-up Queue</h1>
+            <p className="text-muted-foreground">
+              {cases.length} cases
+              {overdueCount > 0 && (
+                <Badge variant="destructive" className="ml-2">
+                  {overdueCount} overdue
+                </Badge>
+              )}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="open">Open cases</SelectItem>
+                <SelectItem value="all">All cases</SelectItem>
+                {statusOptions.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="icon" onClick={() => fetchCases()}>
+              <RefreshCwIcon className="h-4 w-4" />
+            </Button>
+            <Link href="/admin">
+              <Button variant="outline">Back to Feedback</Button>
+            </Link>
+          </div>
+        </div>
+
+        {error ? (
+          <Card className="max-w-md mx-auto">
+            <CardHeader>
+              <CardTitle className="text-red-600">Error</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p>{error}</p>
+              <Button onClick={() => fetchCases()} className="mt-4">
+                Try Again
+              </Button>
+            </CardContent>
+          </Card>
+        ) : loading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="text-lg">Loading follow-ups...</div>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-5 gap-4">
+            <div className="lg:col-span-2 space-y-2">
+              {cases.length === 0 ? (
+                <Card>
+                  <CardContent className="p-6 text-center text-muted-foreground">
+                    No follow-ups in this view.
+                  </CardContent>
+                </Card>
+              ) : (
+                cases.map((followUpCase) => (
+                  <Card
+                    key={followUpCase.id}
+                    className={`cursor-pointer ${selectedId === followUpCase.id ? "border-primary" : ""}`}
+                    onClick={() => setSelectedId(followUpCase.id)}
+                  >
+                    <CardContent className="p-4 space-y-1">
+                      <div className="flex justify-between items-start gap-2">
+                        <span className="font-medium">
+                          {followUpCase.serviceFeedback.customerName || "Anonymous Customer"}
+                        </span>
+                        <Badge variant={isOverdue(followUpCase) ? "destructive" : "outline"}>
+                          {isOverdue(followUpCase) ? "Overdue" : statusLabel(followUpCase.status)}
+                        </Badge>
+                      </div>
+                      <div className="text-sm text-muted-foreground">
+                        {followUpCase.serviceFeedback.companyName || followUpCase.serviceFeedback.contactInfo || "No contact details"}
+                      </div>
+                      <div className="flex justify-between text-xs text-muted-foreground">
+                        <span className="flex items-center gap-1">
+                          <UserIcon className="h-3 w-3" />
+                          {followUpCase.owner || "Unassigned"}
+                        </span>
+                        <span>{followUpCase.dueDate ? `Due ${formatDate(followUpCase.dueDate)}` : "No due date"}</span>
+                      </div>
+                    </CardContent>
+                  </Card>
+                ))
+              )}
+            </div>
+            <div className="lg:col-span-3">
+              {selectedId ? (
+                <CaseDetail key={selectedId} caseId={selectedId} onChange={fetchCases} />
+              ) : (
+                <Card>
+                  <CardContent className="p-6 text-center text-muted-foreground">
+                    Select a follow-up to see its details and history.
+                  </CardContent>
+                </Card>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
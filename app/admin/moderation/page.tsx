@@ -0,0 +1,175 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import Header from "../../header";
+import type { ModeratedType } from "@/lib/moderation";
+import { flagReasonLabels, type FlagReason } from "@/lib/spam-signals";
+
+interface FlaggedSubmission {
+  type: ModeratedType;
+  id: string;
+  title: string;
+  detail: string | null;
+  flagReasons: string[];
+  createdAt: string;
+}
+
+const typeLabels: Record<ModeratedType, string> = {
+  service: "Service feedback",
+  ui: "UI feedback",
+  event: "Event rating",
+  registration: "Registration",
+};
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+export default function ModerationPage() {
+  const router = useRouter();
+  const [items, setItems] = useState<FlaggedSubmission[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [releasing, setReleasing] = useState<string | null>(null);
+
+  const fetchFlagged = useCallback(async () => {
+    try {
+      const response = await fetch("/api/moderation");
+      if (response.status === 401) {
+        router.replace("/login?from=/admin/moderation");
+        return;
+      }
+      if (!response.ok) {
+        throw new Error("Failed to fetch flagged submissions");
+      }
+      const data = await response.json();
+      setItems(data.items);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setLoading(false);
+    }
+  }, [router]);
+
+  useEffect(() => {
+    fetchFlagged();
+  }, [fetchFlagged]);
+
+  const release = async (item: FlaggedSubmission) => {
+    setReleasing(item.id);
+    try {
+      const response = await fetch(`/api/moderation/${item.type}/${item.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ flagged: false }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result?.error || "Failed to update submission");
+      }
+
+      setItems((current) => current.filter((existing) => existing.id !== item.id));
+      toast.success("Marked as not spam", {
+        description: "The submission now counts towards averages again.",
+      });
+    } catch (err) {
+      toast.error("Could not update submission", {
+        description: err instanceof Error ? err.message : "Please try again later.",
+      });
+    } finally {
+      setReleasing(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-zinc-50 font-sans dark:bg-black">
+      <Header />
+      <div className="container mx-auto p-4 space-y-6">
+        <div className="flex flex-wrap justify-between items-center gap-4">
+          <div>
+            <h1 className="text-3xl font-bold">Moderation</h1>
+            <p className="text-muted-foreground">
+              Submissions flagged as likely spam. They are kept out of averages until released.
+            </p>
+          </div>
+          <Link href="/admin">
+            <Button variant="outline">Back to Feedback</Button>
+          </Link>
+        </div>
+
+        {error ? (
+          <Card className="max-w-md mx-auto">
+            <CardHeader>
+              <CardTitle className="text-red-600">Error</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p>{error}</p>
+              <Button onClick={() => fetchFlagged()} className="mt-4">
+                Try Again
+              </Button>
+            </CardContent>
+          </Card>
+        ) : loading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="text-lg">Loading flagged submissions...</div>
+          </div>
+        ) : items.length === 0 ? (
+          <Card>
+            <CardContent className="p-6 text-center">
+              <p className="text-muted-foreground">Nothing is waiting for moderation.</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            {items.map((item) => (
+              <Card key={`${item.type}-${item.id}`}>
+                <CardHeader>
+                  <div className="flex flex-wrap justify-between items-start gap-2">
+                    <div className="space-y-1">
+                      <CardTitle className="text-lg">{item.title}</CardTitle>
+                      <CardDescription className="flex flex-wrap items-center gap-2">
+                        <Badge variant="secondary">{typeLabels[item.type]}</Badge>
+                        {item.flagReasons.map((reason) => (
+                          <Badge key={reason} variant="destructive">
+                            {flagReasonLabels[reason as FlagReason] ?? reason}
+                          </Badge>
+                        ))}
+                        <span>{formatDate(item.createdAt)}</span>
+                      </CardDescription>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={releasing === item.id}
+                      onClick={() => release(item)}
+                    >
+                      {releasing === item.id ? "Saving..." : "Not Spam"}
+                    </Button>
+                  </div>
+                </CardHeader>
+                {item.detail && (
+                  <CardContent>
+                    <p className="text-sm text-muted-foreground whitespace-pre-wrap line-clamp-4">{item.detail}</p>
+                  </CardContent>
+                )}
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,342 @@
+"use client";
+
+import { useCallback, useEffect, useState, type FormEvent } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import Header from "../../header";
+
+type Trigger = "LOW_RATING" | "FOLLOW_UP_REQUESTED" | "UI_FEEDBACK_SEVERITY";
+type Severity = "CRITICAL" | "HIGH" | "MEDIUM" | "LOW";
+
+interface NotificationRule {
+  id: string;
+  name: string;
+  trigger: Trigger;
+  maxRating: number | null;
+  severities: Severity[];
+  emailRecipients: string[];
+  notifyInApp: boolean;
+  isActive: boolean;
+}
+
+type RuleDraft = Omit<NotificationRule, "id" | "emailRecipients" | "isActive"> & { emailRecipients: string };
+
+const triggerLabels: Record<Trigger, string> = {
+  LOW_RATING: "Low rating",
+  FOLLOW_UP_REQUESTED: "Follow-up requested",
+  UI_FEEDBACK_SEVERITY: "UI feedback severity",
+};
+
+const severities: Severity[] = ["CRITICAL", "HIGH", "MEDIUM", "LOW"];
+
+const emptyDraft: RuleDraft = {
+  name: "",
+  trigger: "LOW_RATING",
+  maxRating: 2,
+  severities: ["CRITICAL"],
+  emailRecipients: "",
+  notifyInApp: true,
+};
+
+const describeRule = (rule: NotificationRule) => {
+  switch (rule.trigger) {
+    case "LOW_RATING":
+      return `Any service or event rating of ${rule.maxRating} or lower`;
+    case "FOLLOW_UP_REQUESTED":
+      return "Service feedback asking for a follow-up";
+    case "UI_FEEDBACK_SEVERITY":
+      return `UI feedback marked ${rule.severities.join(" or ")}`;
+  }
+};
+
+export default function NotificationRulesPage() {
+  const router = useRouter();
+  const [rules, setRules] = useState<NotificationRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [draft, setDraft] = useState<RuleDraft>(emptyDraft);
+  const [saving, setSaving] = useState(false);
+
+  const fetchRules = useCallback(async () => {
+    try {
+      const response = await fetch("/api/notification-rules");
+      if (response.status === 401) {
+        router.replace("/login?from=/admin/notifications");
+        return;
+      }
+      if (response.status === 403) {
+        throw new Error("Only admins can manage notification rules");
+      }
+      if (!response.ok) {
+        throw new Error("Failed to fetch notification rules");
+      }
+      setRules(await response.json());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setLoading(false);
+    }
+  }, [router]);
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  const saveRule = async (url: string, method: "POST" | "PATCH", body: object) => {
+    const response = await fetch(url, {
+      method,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    const result = await response.json();
+
+    if (!response.ok) {
+      throw new Error(result?.details?.[0]?.message || result?.error || "Failed to save rule");
+    }
+    return result as NotificationRule;
+  };
+
+  const createRule = async (event: FormEvent) => {
+    event.preventDefault();
+    setSaving(true);
+    try {
+      const rule = await saveRule("/api/notification-rules", "POST", {
+        ...draft,
+        // Only the settings for the chosen trigger are kept
+        maxRating: draft.trigger === "LOW_RATING" ? draft.maxRating : null,
+        severities: draft.trigger === "UI_FEEDBACK_SEVERITY" ? draft.severities : [],
+        emailRecipients: draft.emailRecipients.split(/[\s,;]+/).filter(Boolean),
+      });
+      setRules((current) => [...current, rule]);
+      setDraft(emptyDraft);
+      toast.success("Notification rule added");
+    } catch (err) {
+      toast.error("Could not add rule", {
+        description: err instanceof Error ? err.message : "Please try again later.",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleRule = async (rule: NotificationRule) => {
+    try {
+      const updated = await saveRule(`/api/notification-rules/${rule.id}`, "PATCH", { isActive: !rule.isActive });
+      setRules((current) => current.map((existing) => (existing.id === rule.id ? updated : existing)));
+    } catch (err) {
+      toast.error("Could not update rule", {
+        description: err instanceof Error ? err.message : "Please try again later.",
+      });
+    }
+  };
+
+  const deleteRule = async (rule: NotificationRule) => {
+    if (!window.confirm(`Delete the rule "${rule.name}"?`)) return;
+    try {
+      const response = await fetch(`/api/notification-rules/${rule.id}`, { method: "DELETE" });
+      if (!response.ok) {
+        throw new Error((await response.json())?.error || "Failed to delete rule");
+      }
+      setRules((current) => current.filter((existing) => existing.id !== rule.id));
+    } catch (err) {
+      toast.error("Could not delete rule", {
+        description: err instanceof Error ? err.message : "Please try again later.",
+      });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-zinc-50 font-sans dark:bg-black">
+      <Header />
+      <div className="container mx-auto p-4 space-y-6">
+        <div className="flex flex-wrap justify-between items-center gap-4">
+          <div>
+            <h1 className="text-3xl font-bold">Notifications</h1>
+            <p className="text-muted-foreground">
+              Rules that alert staff by email and in the notification bell when a submission needs attention.
+            </p>
+          </div>
+          <Link href="/admin">
+            <Button variant="outline">Back to Feedback</Button>
+          </Link>
+        </div>
+
+        {error ? (
+          <Card className="max-w-md mx-auto">
+            <CardHeader>
+              <CardTitle className="text-red-600">Error</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p>{error}</p>
+              <Button onClick={() => fetchRules()} className="mt-4">
+                Try Again
+              </Button>
+            </CardContent>
+          </Card>
+        ) : loading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="text-lg">Loading notification rules...</div>
+          </div>
+        ) : (
+          <div className="grid gap-6 lg:grid-cols-[1fr_380px]">
+            <div className="space-y-4">
+              {rules.length === 0 ? (
+                <Card>
+                  <CardContent className="p-6 text-center">
+                    <p className="text-muted-foreground">No rules yet, so nobody is notified about new submissions.</p>
+                  </CardContent>
+                </Card>
+              ) : (
+                rules.map((rule) => (
+                  <Card key={rule.id} className={rule.isActive ? undefined : "opacity-60"}>
+                    <CardHeader>
+                      <div className="flex flex-wrap justify-between items-start gap-2">
+                        <div className="space-y-1">
+                          <CardTitle className="text-lg">{rule.name}</CardTitle>
+                          <CardDescription>{describeRule(rule)}</CardDescription>
+                        </div>
+                        <div className="flex gap-2">
+                          <Button variant="outline" size="sm" onClick={() => toggleRule(rule)}>
+                            {rule.isActive ? "Pause" : "Resume"}
+                          </Button>
+                          <Button variant="outline" size="sm" onClick={() => deleteRule(rule)}>
+                            Delete
+                          </Button>
+                        </div>
+                      </div>
+                    </CardHeader>
+                    <CardContent className="flex flex-wrap gap-2">
+                      <Badge variant="secondary">{triggerLabels[rule.trigger]}</Badge>
+                      {rule.notifyInApp && <Badge variant="outline">In-app</Badge>}
+                      {rule.emailRecipients.map((email) => (
+                        <Badge key={email} variant="outline">
+                          {email}
+                        </Badge>
+                      ))}
+                      {!rule.isActive && <Badge variant="destructive">Paused</Badge>}
+                    </CardContent>
+                  </Card>
+                ))
+              )}
+            </div>
+
+            <Card className="h-fit">
+              <CardHeader>
+                <CardTitle className="text-lg">Add Rule</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <form onSubmit={createRule} className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="rule-name">Name</Label>
+                    <Input
+                      id="rule-name"
+                      placeholder="e.g. Poor ratings to service manager"
+                      value={draft.name}
+                      onChange={(event) => setDraft({ ...draft, name: event.target.value })}
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label>When</Label>
+                    <Select value={draft.trigger} onValueChange={(value) => setDraft({ ...draft, trigger: value as Trigger })}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(triggerLabels).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>
+                            {label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  {draft.trigger === "LOW_RATING" && (
+                    <div className="space-y-2">
+                      <Label>Any rating at or below</Label>
+                      <Select
+                        value={String(draft.maxRating ?? 2)}
+                        onValueChange={(value) => setDraft({ ...draft, maxRating: Number(value) })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {[1, 2, 3, 4].map((rating) => (
+                            <SelectItem key={rating} value={String(rating)}>
+                              {rating} {rating === 1 ? "star" : "stars"}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+
+                  {draft.trigger === "UI_FEEDBACK_SEVERITY" && (
+                    <div className="space-y-2">
+                      <Label>Severities</Label>
+                      {severities.map((severity) => (
+                        <div key={severity} className="flex items-center gap-2">
+                          <Checkbox
+                            id={`severity-${severity}`}
+                            checked={draft.severities.includes(severity)}
+                            onCheckedChange={(checked) =>
+                              setDraft({
+                                ...draft,
+                                severities: checked
+                                  ? [...draft.severities, severity]
+                                  : draft.severities.filter((value) => value !== severity),
+                              })
+                            }
+                          />
+                          <Label htmlFor={`severity-${severity}`} className="font-normal">
+                            {severity}
+                          </Label>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  <div className="space-y-2">
+                    <Label htmlFor="rule-recipients">Email to</Label>
+                    <Input
+                      id="rule-recipients"
+                      placeholder="manager@example.com, support@example.com"
+                      value={draft.emailRecipients}
+                      onChange={(event) => setDraft({ ...draft, emailRecipients: event.target.value })}
+                    />
+                  </div>
+
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id="rule-in-app"
+                      checked={draft.notifyInApp}
+                      onCheckedChange={(checked) => setDraft({ ...draft, notifyInApp: checked === true })}
+                    />
+                    <Label htmlFor="rule-in-app" className="font-normal">
+                      Show in the notification bell
+                    </Label>
+                  </div>
+
+                  <Button type="submit" className="w-full" disabled={saving}>
+                    {saving ? "Saving..." : "Add Rule"}
+                  </Button>
+                </form>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
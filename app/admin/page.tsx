@@ -1,62 +1,34 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { FilterIcon, XIcon, Star } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { FilterIcon, XIcon, Star, LogOutIcon, DownloadIcon } from "lucide-react";
 import Link from "next/link";
+import { useRouter } from "next/navigation";
 import Header from "../header";
-
-interface ServiceFeedback {
-  id: string;
-  customerName?: string;
-  companyName?: string;
-  contactInfo?: string;
-  serviceDate: string;
-  serviceType: string[];
-  serviceTypeOther?: string;
-  
-  // Service Quality Ratings
-  easeOfOrdering: number;
-  orderProcessingAccuracy: number;
-  orderChannelKnowledge: number;
-  serviceTimeliness: number;
-  orderAccuracy: number;
-  productQuality: number;
-  quantityAccuracy: number;
-  staffProfessionalism: number;
-  responsiveness: number;
-  overallSatisfaction: number;
-  priceCompetitiveness: number;
-  stockAvailability: number;
-  technicalInstruction: number;
-  
-  // Open-ended responses
-  mostLiked?: string;
-  overallExperience?: string;
-  expectationsMet?: string;
-  improvementAreas?: string;
-  issuesExperienced?: string;
-  wouldRecommend?: string;
-  
-  // Future expectations
-  additionalServices?: string;
-  futureExpectations?: string;
-  serviceQualityRecommendations?: string;
-  
-  // Follow-up
-  followUpRequested: boolean;
-  preferredContactMethod?: string;
-  preferredContactOther?: string;
-  
-  submissionDate: string;
-  createdAt: string;
-  updatedAt: string;
-}
+import { AttachmentList, type AttachmentSummary } from "@/components/attachment-list";
+import { hasRole, useSession } from "@/components/use-session";
+import { npsCategory, npsCategoryLabels, serviceTypeLabel, serviceTypeOptions } from "@/lib/service-feedback-fields";
+import type { ServiceFeedbackRecord } from "@/lib/schemas";
+import { formatDateOnly } from "@/lib/dates";
+import { defaultLocale, isLocale, localeNames, locales } from "@/lib/i18n";
+
+type ServiceFeedback = ServiceFeedbackRecord & {
+  customerId?: string | null;
+  followUpCase?: { id: string; status: string } | null;
+  attachments?: AttachmentSummary[];
+};
 
 interface Filters {
   search: string;
@@ -65,21 +37,58 @@ interface Filters {
   dateFrom: string;
   dateTo: string;
   overallSatisfaction: string;
+  locale: string;
 }
 
-const serviceTypeOptions = [
-  { value: "fuel-delivery", label: "Fuel Delivery" },
-  { value: "lubricant-supply", label: "Lubricant Supply" },
-  { value: "technical-support", label: "Technical Support" },
-  { value: "other", label: "Other" }
+interface ServiceFeedbackPage {
+  items: ServiceFeedback[];
+  total: number;
+  nextCursor: string | null;
+}
+
+const PAGE_SIZE = 20;
+
+const sortOptions = [
+  { value: "createdAt:desc", label: "Newest first" },
+  { value: "createdAt:asc", label: "Oldest first" },
+  { value: "overallSatisfaction:desc", label: "Highest satisfaction" },
+  { value: "overallSatisfaction:asc", label: "Lowest satisfaction" },
+  { value: "customerName:asc", label: "Customer name (A-Z)" },
+  { value: "companyName:asc", label: "Company name (A-Z)" },
 ];
 
+const buildFilterParams = (filters: Filters, sort: string) => {
+  const params = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value) params.set(key, value);
+  });
+
+  const [sortBy, sortOrder] = sort.split(":");
+  params.set("sortBy", sortBy);
+  params.set("sortOrder", sortOrder);
+
+  return params;
+};
+
+const buildQueryString = (filters: Filters, sort: string, cursor?: string) => {
+  const params = buildFilterParams(filters, sort);
+  params.set("limit", String(PAGE_SIZE));
+  if (cursor) params.set("cursor", cursor);
+
+  return params.toString();
+};
+
 export default function AdminPage() {
+  const router = useRouter();
+  const user = useSession();
   const [feedbacks, setFeedbacks] = useState<ServiceFeedback[]>([]);
-  const [filteredFeedbacks, setFilteredFeedbacks] = useState<ServiceFeedback[]>([]);
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [sidebarOpen, setSidebarOpen] = useState(false);
+  const [sort, setSort] = useState(sortOptions[0].value);
   
   const [filters, setFilters] = useState<Filters>({
     search: "",
@@ -88,90 +97,57 @@ export default function AdminPage() {
     dateFrom: "",
     dateTo: "",
     overallSatisfaction: "",
+    locale: "",
   });
 
-  // Get unique values for filter options
-  const [uniqueServiceTypes, setUniqueServiceTypes] = useState<string[]>([]);
+  // Filters sent to the server, debounced so typing in search doesn't fire a request per keystroke
+  const [appliedFilters, setAppliedFilters] = useState<Filters>(filters);
 
   useEffect(() => {
-    fetchFeedbacks();
-  }, []);
+    const timeout = setTimeout(() => setAppliedFilters(filters), 300);
+    return () => clearTimeout(timeout);
+  }, [filters]);
 
-  useEffect(() => {
-    applyFilters();
-  }, [feedbacks, filters]);
+  const fetchFeedbacks = useCallback(async (cursor?: string) => {
+    if (cursor) setLoadingMore(true);
 
-  const fetchFeedbacks = async () => {
     try {
-      const response = await fetch("/api/feedback");
+      const response = await fetch(`/api/feedback/service?${buildQueryString(appliedFilters, sort, cursor)}`);
+      if (response.status === 401) {
+        router.replace("/login?from=/admin");
+        return;
+      }
       if (!response.ok) {
         throw new Error("Failed to fetch feedback");
       }
-      const data = await response.json();
-      
-      // The feedback API returns an object with uiFeedback and serviceFeedback
-      const feedbackData = data.serviceFeedback || [];
-      setFeedbacks(feedbackData);
-      
-      // Extract unique values for filters
-      const serviceTypes = [...new Set(feedbackData.flatMap((feedback: ServiceFeedback) => feedback.serviceType).filter(Boolean))].sort() as string[];
-      setUniqueServiceTypes(serviceTypes);
+      const data: ServiceFeedbackPage = await response.json();
       
+      setFeedbacks(prev => cursor ? [...prev, ...data.items] : data.items);
+      setTotal(data.total);
+      setNextCursor(data.nextCursor);
+      setError(null);
     } catch (err) {
       setError(err instanceof Error ? err.message : "An error occurred");
     } finally {
       setLoading(false);
+      setLoadingMore(false);
     }
-  };
-
-  const applyFilters = () => {
-    if (!Array.isArray(feedbacks)) {
-      setFilteredFeedbacks([]);
-      return;
-    }
-    
-    let filtered = [...feedbacks];
-
-    // Search filter (name, company, contact)
-    if (filters.search) {
-      const searchLower = filters.search.toLowerCase();
-      filtered = filtered.filter(feedback => 
-        (feedback.customerName && feedback.customerName.toLowerCase().includes(searchLower)) ||
-        (feedback.companyName && feedback.companyName.toLowerCase().includes(searchLower)) ||
-        (feedback.contactInfo && feedback.contactInfo.toLowerCase().includes(searchLower))
-      );
-    }
+  }, [appliedFilters, sort, router]);
 
-    // Service Type filter
-    if (filters.serviceType && filters.serviceType !== "all") {
-      filtered = filtered.filter(feedback => feedback.serviceType.includes(filters.serviceType));
-    }
-
-    // Follow-up filter
-    if (filters.followUp && filters.followUp !== "all") {
-      const followUpValue = filters.followUp === "true";
-      filtered = filtered.filter(feedback => feedback.followUpRequested === followUpValue);
-    }
-
-    // Overall Satisfaction filter
-    if (filters.overallSatisfaction && filters.overallSatisfaction !== "all") {
-      const satisfactionValue = parseInt(filters.overallSatisfaction);
-      filtered = filtered.filter(feedback => feedback.overallSatisfaction === satisfactionValue);
-    }
-
-    // Date range filter
-    if (filters.dateFrom) {
-      const fromDate = new Date(filters.dateFrom);
-      filtered = filtered.filter(feedback => new Date(feedback.createdAt) >= fromDate);
-    }
+  useEffect(() => {
+    fetchFeedbacks();
+  }, [fetchFeedbacks]);
 
-    if (filters.dateTo) {
-      const toDate = new Date(filters.dateTo);
-      toDate.setHours(23, 59, 59, 999); // End of day
-      filtered = filtered.filter(feedback => new Date(feedback.createdAt) <= toDate);
-    }
+  const handleLogout = async () => {
+    await fetch("/api/auth/logout", { method: "POST" });
+    router.replace("/login");
+  };
 
-    setFilteredFeedbacks(filtered);
+  // Export exactly what the sidebar is currently showing
+  const handleExport = (format: "csv" | "xlsx") => {
+    const params = buildFilterParams(appliedFilters, sort);
+    params.set("format", format);
+    window.location.href = `/api/feedback/service/export?${params}`;
   };
 
   const handleFilterChange = (key: keyof Filters, value: string) => {
@@ -186,6 +162,7 @@ export default function AdminPage() {
       dateFrom: "",
       dateTo: "",
       overallSatisfaction: "",
+      locale: "",
     });
   };
 
@@ -241,7 +218,7 @@ export default function AdminPage() {
             </CardHeader>
             <CardContent>
               <p>{error}</p>
-              <Button onClick={fetchFeedbacks} className="mt-4">
+              <Button onClick={() => fetchFeedbacks()} className="mt-4">
                 Try Again
               </Button>
             </CardContent>
@@ -270,6 +247,23 @@ export default function AdminPage() {
           </div>
           
           <div className="p-4 space-y-6 overflow-y-auto h-full">
+            {/* Sort */}
+            <div className="space-y-2">
+              <Label>Sort By</Label>
+              <Select value={sort} onValueChange={setSort}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Newest first" />
+                </SelectTrigger>
+                <SelectContent>
+                  {sortOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
             {/* Search */}
             <div className="space-y-2">
               <Label htmlFor="search">Search</Label>
@@ -317,6 +311,24 @@ export default function AdminPage() {
               </Select>
             </div>
 
+            {/* Language Filter */}
+            <div className="space-y-2">
+              <Label>Language</Label>
+              <Select value={filters.locale || "all"} onValueChange={(value) => handleFilterChange("locale", value === "all" ? "" : value)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="All Languages" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Languages</SelectItem>
+                  {locales.map((locale) => (
+                    <SelectItem key={locale} value={locale}>
+                      {localeNames[locale]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
             {/* Follow-up Filter */}
             <div className="space-y-2">
               <Label>Follow-up Requested</Label>
@@ -334,7 +346,7 @@ export default function AdminPage() {
 
             {/* Date Range */}
             <div className="space-y-4">
-              <Label>Submission Date</Label>
+              <Label>Service Date</Label>
               <div className="space-y-2">
                 <div>
                   <Label htmlFor="dateFrom" className="text-sm text-muted-foreground">From</Label>
@@ -383,7 +395,7 @@ export default function AdminPage() {
                 <div>
                   <h1 className="text-3xl font-bold">Service Feedback Admin</h1>
                   <p className="text-muted-foreground">
-                    Showing {filteredFeedbacks.length} of {feedbacks.length} feedback submissions
+                    Showing {feedbacks.length} of {total} feedback submissions
                     {hasActiveFilters && (
                       <Badge variant="secondary" className="ml-2">
                         Filtered
@@ -392,13 +404,66 @@ export default function AdminPage() {
                   </p>
                 </div>
               </div>
-              <Link href="/">
-                <Button variant="outline">Back to Form</Button>
-              </Link>
+              <div className="flex flex-wrap justify-end gap-2">
+                {hasRole(user, "ANALYST") && (
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="outline" disabled={total === 0}>
+                        <DownloadIcon className="h-4 w-4 mr-2" />
+                        Export
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuItem onClick={() => handleExport("csv")}>CSV (.csv)</DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => handleExport("xlsx")}>Excel (.xlsx)</DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                )}
+                <Link href="/admin/events">
+                  <Button variant="outline">Event Ratings</Button>
+                </Link>
+                <Link href="/admin/ui-feedback">
+                  <Button variant="outline">UI Feedback</Button>
+                </Link>
+                <Link href="/admin/follow-ups">
+                  <Button variant="outline">Follow-ups</Button>
+                </Link>
+                <Link href="/admin/analytics">
+                  <Button variant="outline">Analytics</Button>
+                </Link>
+                <Link href="/admin/registrations">
+                  <Button variant="outline">Registrations</Button>
+                </Link>
+                <Link href="/admin/customers">
+                  <Button variant="outline">Customers</Button>
+                </Link>
+                <Link href="/admin/surveys">
+                  <Button variant="outline">Surveys</Button>
+                </Link>
+                <Link href="/admin/moderation">
+                  <Button variant="outline">Moderation</Button>
+                </Link>
+                <Link href="/admin/notifications">
+                  <Button variant="outline">Notifications</Button>
+                </Link>
+                <Link href="/admin/webhooks">
+                  <Button variant="outline">Webhooks</Button>
+                </Link>
+                <Link href="/admin/audit-log">
+                  <Button variant="outline">Audit Log</Button>
+                </Link>
+                <Link href="/">
+                  <Button variant="outline">Back to Form</Button>
+                </Link>
+                <Button variant="ghost" onClick={handleLogout}>
+                  <LogOutIcon className="h-4 w-4 mr-2" />
+                  Sign Out
+                </Button>
+              </div>
             </div>
 
             <div className="grid gap-4">
-              {filteredFeedbacks.length === 0 ? (
+              {feedbacks.length === 0 ? (
                 <Card>
                   <CardContent className="p-6 text-center">
                     <p className="text-muted-foreground">
@@ -412,7 +477,7 @@ export default function AdminPage() {
                   </CardContent>
                 </Card>
               ) : (
-                filteredFeedbacks.map((feedback) => (
+                feedbacks.map((feedback) => (
                   <Card key={feedback.id} className="w-full">
                     <CardHeader>
                       <div className="flex justify-between items-start">
@@ -422,16 +487,38 @@ export default function AdminPage() {
                           </CardTitle>
                           <CardDescription>
                             {feedback.companyName && `${feedback.companyName} • `}
-                            Service Date: {feedback.serviceDate}
+                            Service Date: {formatDateOnly(feedback.serviceDate)}
+                            {feedback.customerId && (
+                              <>
+                                {" • "}
+                                <Link href={`/admin/customers/${feedback.customerId}`} className="hover:underline">
+                                  Customer history
+                                </Link>
+                              </>
+                            )}
                           </CardDescription>
                         </div>
                         <div className="flex gap-2 flex-col items-end">
+                          {feedback.flagged && (
+                            <Link href="/admin/moderation">
+                              <Badge variant="destructive">Flagged as spam</Badge>
+                            </Link>
+                          )}
                           {feedback.followUpRequested && (
-                            <Badge variant="secondary">Follow-up Requested</Badge>
+                            <Link href="/admin/follow-ups">
+                              <Badge variant="secondary">
+                                Follow-up {feedback.followUpCase ? feedback.followUpCase.status.replace("_", " ").toLowerCase() : "requested"}
+                              </Badge>
+                            </Link>
                           )}
                           <Badge variant="outline">
                             {formatDate(feedback.createdAt)}
                           </Badge>
+                          {feedback.locale !== defaultLocale && isLocale(feedback.locale) && (
+                            <Badge variant="outline" lang={feedback.locale}>
+                              {localeNames[feedback.locale]}
+                            </Badge>
+                          )}
                           <div className="text-right">
                             {renderStars(feedback.overallSatisfaction)}
                           </div>
@@ -445,7 +532,7 @@ export default function AdminPage() {
                         <div className="flex flex-wrap gap-2">
                           {feedback.serviceType.map((type, index) => (
                             <Badge key={index} variant="outline">
-                              {serviceTypeOptions.find(opt => opt.value === type)?.label || type}
+                              {serviceTypeLabel(type)}
                             </Badge>
                           ))}
                           {feedback.serviceTypeOther && (
@@ -516,14 +603,33 @@ export default function AdminPage() {
                           </div>
                         )}
                         
+                        {feedback.recommendScore != null && (
+                          <div>
+                            <h4 className="font-semibold text-sm text-muted-foreground mb-1">Likelihood to recommend:</h4>
+                            <p className="text-sm">
+                              {feedback.recommendScore}/10{" "}
+                              <Badge variant={npsCategory(feedback.recommendScore) === "detractor" ? "destructive" : "outline"}>
+                                {npsCategoryLabels[npsCategory(feedback.recommendScore)]}
+                              </Badge>
+                            </p>
+                          </div>
+                        )}
+
                         {feedback.wouldRecommend && (
                           <div>
-                            <h4 className="font-semibold text-sm text-muted-foreground mb-1">Would recommend:</h4>
+                            <h4 className="font-semibold text-sm text-muted-foreground mb-1">Reason for recommendation score:</h4>
                             <p className="text-sm bg-blue-50 dark:bg-blue-900/20 p-3 rounded-md">{feedback.wouldRecommend}</p>
                           </div>
                         )}
                       </div>
 
+                      {!!feedback.attachments?.length && (
+                        <div className="mt-4">
+                          <h4 className="font-semibold text-sm text-muted-foreground mb-2">Attachments</h4>
+                          <AttachmentList attachments={feedback.attachments} />
+                        </div>
+                      )}
+
                       {/* Follow-up Information */}
                       {feedback.followUpRequested && (
                         <div className="mt-4 pt-4 border-t">
@@ -541,6 +647,18 @@ export default function AdminPage() {
                 ))
               )}
             </div>
+
+            {nextCursor && (
+              <div className="flex justify-center mt-6">
+                <Button
+                  variant="outline"
+                  onClick={() => fetchFeedbacks(nextCursor)}
+                  disabled={loadingMore}
+                >
+                  {loadingMore ? "Loading..." : "Load More"}
+                </Button>
+              </div>
+            )}
           </div>
         </div>
       </div>
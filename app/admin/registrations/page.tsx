@@ -0,0 +1,428 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CalendarIcon, ChevronLeftIcon, ChevronRightIcon, HistoryIcon, ListIcon, PencilIcon } from "lucide-react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import Header from "../../header";
+import type { RegistrationRecord } from "@/lib/schemas";
+import { formatDateOnly } from "@/lib/dates";
+
+interface Filters {
+  search: string;
+  country: string;
+  industry: string;
+  sourceEvent: string;
+  followUp: string;
+}
+
+interface Facets {
+  country: string[];
+  industry: string[];
+  sourceEvent: string[];
+}
+
+type EditableField = Exclude<
+  keyof RegistrationRecord,
+  "id" | "createdAt" | "updatedAt" | "followUp" | "flagged" | "flagReasons"
+>;
+
+const editableColumns: { key: EditableField; label: string; type?: string }[] = [
+  { key: "name", label: "Name" },
+  { key: "companyName", label: "Company" },
+  { key: "jobTitle", label: "Job Title" },
+  { key: "email", label: "Email", type: "email" },
+  { key: "mobileNumber", label: "Mobile" },
+  { key: "country", label: "Country" },
+  { key: "industry", label: "Industry" },
+  { key: "sourceEvent", label: "Event" },
+  { key: "followUpDate", label: "Follow-up Date", type: "date" },
+];
+
+const facetFilters = [
+  { key: "country", label: "Country" },
+  { key: "industry", label: "Industry" },
+  { key: "sourceEvent", label: "Event" },
+] as const;
+
+const weekdays = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+const toIsoDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+
+// Days shown in a Monday-first month grid, padded with the neighbouring months
+const calendarDays = (month: Date) => {
+  const first = new Date(month.getFullYear(), month.getMonth(), 1);
+  const start = new Date(first);
+  start.setDate(first.getDate() - ((first.getDay() + 6) % 7));
+  return Array.from({ length: 42 }, (_, index) => {
+    const day = new Date(start);
+    day.setDate(start.getDate() + index);
+    return day;
+  });
+};
+
+export default function RegistrationsAdminPage() {
+  const router = useRouter();
+  const [registrations, setRegistrations] = useState<RegistrationRecord[]>([]);
+  const [facets, setFacets] = useState<Facets>({ country: [], industry: [], sourceEvent: [] });
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [view, setView] = useState<"list" | "calendar">("list");
+  const [month, setMonth] = useState(() => new Date(new Date().getFullYear(), new Date().getMonth(), 1));
+  const [editing, setEditing] = useState<RegistrationRecord | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const [filters, setFilters] = useState<Filters>({
+    search: "",
+    country: "",
+    industry: "",
+    sourceEvent: "",
+    followUp: "",
+  });
+  const [appliedFilters, setAppliedFilters] = useState<Filters>(filters);
+
+  // Debounce typing so the search only hits the API once the user pauses
+  useEffect(() => {
+    const timeout = setTimeout(() => setAppliedFilters(filters), 300);
+    return () => clearTimeout(timeout);
+  }, [filters]);
+
+  const fetchRegistrations = useCallback(async () => {
+    try {
+      const params = new URLSearchParams(
+        Object.entries(appliedFilters).filter(([, value]) => value !== "")
+      );
+      const response = await fetch(`/api/registration?${params}`);
+      if (response.status === 401) {
+        router.replace("/login?from=/admin/registrations");
+        return;
+      }
+      if (!response.ok) {
+        throw new Error("Failed to fetch registrations");
+      }
+      setRegistrations(await response.json());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setLoading(false);
+    }
+  }, [appliedFilters, router]);
+
+  useEffect(() => {
+    fetchRegistrations();
+  }, [fetchRegistrations]);
+
+  useEffect(() => {
+    fetch("/api/registration/facets")
+      .then((response) => (response.ok ? response.json() : null))
+      .then((result) => result && setFacets(result))
+      .catch(() => {});
+  }, []);
+
+  const handleFilterChange = (key: keyof Filters, value: string) => {
+    setFilters(prev => ({ ...prev, [key]: value }));
+  };
+
+  const startEditing = (registration: RegistrationRecord) => {
+    setView("list");
+    setEditing({
+      ...registration,
+      followUpDate: registration.followUpDate && formatDateOnly(registration.followUpDate),
+    });
+  };
+
+  const saveEditing = async () => {
+    if (!editing) return;
+
+    setSaving(true);
+    try {
+      const response = await fetch(`/api/registration/${editing.id}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          ...Object.fromEntries(editableColumns.map(({ key }) => [key, editing[key] ?? ""])),
+          followUp: editing.followUp,
+        }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result?.details?.[0]?.message || result?.error || "Failed to update registration");
+      }
+
+      setRegistrations(prev => prev.map(existing => (existing.id === result.id ? result : existing)));
+      setEditing(null);
+      toast.success("Registration updated");
+    } catch (err) {
+      toast.error("Could not update registration", {
+        description: err instanceof Error ? err.message : "Please try again later.",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const days = calendarDays(month);
+  const byFollowUpDate = new Map<string, RegistrationRecord[]>();
+  for (const registration of registrations) {
+    if (!registration.followUpDate) continue;
+    const date = formatDateOnly(registration.followUpDate);
+    const group = byFollowUpDate.get(date);
+    if (group) {
+      group.push(registration);
+    } else {
+      byFollowUpDate.set(date, [registration]);
+    }
+  }
+  const today = toIsoDate(new Date());
+
+  return (
+    <div className="min-h-screen bg-zinc-50 font-sans dark:bg-black">
+      <Header />
+      <div className="container mx-auto p-4 space-y-6">
+        <div className="flex flex-wrap justify-between items-center gap-4">
+          <div>
+            <h1 className="text-3xl font-bold">Registrations</h1>
+            <p className="text-muted-foreground">{registrations.length} leads</p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant={view === "list" ? "default" : "outline"} onClick={() => setView("list")}>
+              <ListIcon className="h-4 w-4 mr-1" />
+              List
+            </Button>
+            <Button variant={view === "calendar" ? "default" : "outline"} onClick={() => setView("calendar")}>
+              <CalendarIcon className="h-4 w-4 mr-1" />
+              Follow-up Calendar
+            </Button>
+            <Link href="/admin">
+              <Button variant="outline">Back to Feedback</Button>
+            </Link>
+          </div>
+        </div>
+
+        {/* Filters */}
+        <Card>
+          <CardContent className="grid grid-cols-1 md:grid-cols-5 gap-4 pt-6">
+            <div className="space-y-2">
+              <Label htmlFor="search">Search</Label>
+              <Input
+                id="search"
+                placeholder="Name, company, email, phone..."
+                value={filters.search}
+                onChange={(e) => handleFilterChange("search", e.target.value)}
+              />
+            </div>
+            {facetFilters.map(({ key, label }) => (
+              <div key={key} className="space-y-2">
+                <Label>{label}</Label>
+                <Select value={filters[key] || "all"} onValueChange={(value) => handleFilterChange(key, value === "all" ? "" : value)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All</SelectItem>
+                    {facets[key].map((value) => (
+                      <SelectItem key={value} value={value}>
+                        {value}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+            <div className="space-y-2">
+              <Label>Follow-up</Label>
+              <Select value={filters.followUp || "all"} onValueChange={(value) => handleFilterChange("followUp", value === "all" ? "" : value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All</SelectItem>
+                  <SelectItem value="true">Wants follow-up</SelectItem>
+                  <SelectItem value="false">No follow-up</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </CardContent>
+        </Card>
+
+        {error ? (
+          <Card className="max-w-md mx-auto">
+            <CardHeader>
+              <CardTitle className="text-red-600">Error</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p>{error}</p>
+              <Button onClick={() => fetchRegistrations()} className="mt-4">
+                Try Again
+              </Button>
+            </CardContent>
+          </Card>
+        ) : loading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="text-lg">Loading registrations...</div>
+          </div>
+        ) : view === "calendar" ? (
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  aria-label="Previous month"
+                  onClick={() => setMonth(new Date(month.getFullYear(), month.getMonth() - 1, 1))}
+                >
+                  <ChevronLeftIcon className="h-4 w-4" />
+                </Button>
+                <CardTitle>
+                  {month.toLocaleDateString("en-US", { year: "numeric", month: "long" })}
+                </CardTitle>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  aria-label="Next month"
+                  onClick={() => setMonth(new Date(month.getFullYear(), month.getMonth() + 1, 1))}
+                >
+                  <ChevronRightIcon className="h-4 w-4" />
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-7 gap-px bg-border rounded-md overflow-hidden text-sm">
+                {weekdays.map((weekday) => (
+                  <div key={weekday} className="bg-muted p-2 text-center font-medium">
+                    {weekday}
+                  </div>
+                ))}
+                {days.map((day) => {
+                  const date = toIsoDate(day);
+                  const dayRegistrations = byFollowUpDate.get(date) ?? [];
+                  const inMonth = day.getMonth() === month.getMonth();
+                  return (
+                    <div
+                      key={date}
+                      className={`min-h-24 p-1 space-y-1 ${inMonth ? "bg-background" : "bg-muted/50 text-muted-foreground"}`}
+                    >
+                      <div className={`text-xs ${date === today ? "font-bold text-primary" : ""}`}>{day.getDate()}</div>
+                      {dayRegistrations.map((registration) => (
+                        <button
+                          key={registration.id}
+                          type="button"
+                          onClick={() => startEditing(registration)}
+                          className={`block w-full truncate rounded px-1 text-left text-xs ${
+                            date < today ? "bg-red-100 dark:bg-red-900/30" : "bg-blue-100 dark:bg-blue-900/30"
+                          }`}
+                          title={[registration.name, registration.companyName].filter(Boolean).join(" • ")}
+                        >
+                          {registration.name || registration.companyName || registration.email || "Unnamed lead"}
+                        </button>
+                      ))}
+                    </div>
+                  );
+                })}
+              </div>
+              <p className="text-xs text-muted-foreground mt-2">
+                {registrations.filter((registration) => !registration.followUpDate).length} leads have no follow-up date.
+                Past dates are shown in red.
+              </p>
+            </CardContent>
+          </Card>
+        ) : registrations.length === 0 ? (
+          <Card>
+            <CardContent className="p-6 text-center">
+              <p className="text-muted-foreground">No registrations found matching your filters.</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardContent className="overflow-x-auto p-0">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b bg-muted/50">
+                    {editableColumns.map(({ key, label }) => (
+                      <th key={key} className="text-left p-2 font-medium whitespace-nowrap">{label}</th>
+                    ))}
+                    <th className="text-left p-2 font-medium">Follow-up</th>
+                    <th className="p-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {registrations.map((registration) =>
+                    editing?.id === registration.id ? (
+                      <tr key={registration.id} className="border-b bg-muted/30">
+                        {editableColumns.map(({ key, type }) => (
+                          <td key={key} className="p-1">
+                            <Input
+                              type={type}
+                              className="h-8 min-w-32"
+                              value={editing[key] ?? ""}
+                              onChange={(e) => setEditing({ ...editing, [key]: e.target.value })}
+                            />
+                          </td>
+                        ))}
+                        <td className="p-2">
+                          <Checkbox
+                            checked={editing.followUp}
+                            onCheckedChange={(checked) => setEditing({ ...editing, followUp: checked === true })}
+                          />
+                        </td>
+                        <td className="p-1 whitespace-nowrap">
+                          <Button size="sm" onClick={saveEditing} disabled={saving}>
+                            {saving ? "Saving..." : "Save"}
+                          </Button>
+                          <Button size="sm" variant="ghost" onClick={() => setEditing(null)}>
+                            Cancel
+                          </Button>
+                        </td>
+                      </tr>
+                    ) : (
+                      <tr key={registration.id} className="border-b last:border-0">
+                        {editableColumns.map(({ key }) => (
+                          <td key={key} className="p-2 whitespace-nowrap">
+                            {(key === "followUpDate" && registration.followUpDate
+                              ? formatDateOnly(registration.followUpDate)
+                              : registration[key]) || <span className="text-muted-foreground">—</span>}
+                          </td>
+                        ))}
+                        <td className="p-2">
+                          {registration.followUp ? <Badge variant="secondary">Yes</Badge> : <span className="text-muted-foreground">No</span>}
+                        </td>
+                        <td className="p-1 whitespace-nowrap">
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            aria-label="Edit registration"
+                            onClick={() => startEditing(registration)}
+                          >
+                            <PencilIcon className="h-4 w-4" />
+                          </Button>
+                          <Link href={`/admin/audit-log?recordType=registration&recordId=${registration.id}`}>
+                            <Button size="icon" variant="ghost" aria-label="Change history">
+                              <HistoryIcon className="h-4 w-4" />
+                            </Button>
+                          </Link>
+                        </td>
+                      </tr>
+                    )
+                  )}
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,311 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import Link from "next/link";
+import { useParams, useRouter } from "next/navigation";
+import { toast } from "sonner";
+import Header from "../../../header";
+import SurveyBuilder from "@/components/survey-builder";
+import SurveyForm, { type SurveyFormSurvey } from "@/components/survey-form";
+import {
+  surveyDefinitionSchema,
+  type SurveyAnswerValue,
+  type SurveyAnswers,
+  type SurveyDefinition,
+  type SurveyQuestion,
+} from "@/lib/survey-definition";
+
+interface SurveyVersion {
+  id: string;
+  version: number;
+  definition: SurveyDefinition;
+  createdBy?: string;
+  createdAt: string;
+  _count: { responses: number };
+}
+
+interface SurveyResponse {
+  id: string;
+  answers: SurveyAnswers;
+  createdAt: string;
+  surveyVersion: { id: string; version: number };
+}
+
+type PublishedSurvey = SurveyFormSurvey & { isActive: boolean };
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+const formatAnswer = (question: SurveyQuestion, value: SurveyAnswerValue) => {
+  switch (question.type) {
+    case "RATING":
+      return `${value}/5`;
+    case "YES_NO":
+      return value ? "Yes" : "No";
+    case "MULTI_SELECT":
+      return (value as string[])
+        .map((selected) => question.options.find((option) => option.value === selected)?.label ?? selected)
+        .join(", ");
+    default:
+      return String(value);
+  }
+};
+
+export default function SurveyEditorPage() {
+  const router = useRouter();
+  const { slug } = useParams<{ slug: string }>();
+  const [survey, setSurvey] = useState<PublishedSurvey | null>(null);
+  const [draft, setDraft] = useState<SurveyDefinition | null>(null);
+  const [versions, setVersions] = useState<SurveyVersion[]>([]);
+  const [responses, setResponses] = useState<SurveyResponse[]>([]);
+  const [responseVersion, setResponseVersion] = useState<string>("");
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [preview, setPreview] = useState(false);
+  const [publishing, setPublishing] = useState(false);
+
+  const fetchSurvey = useCallback(async () => {
+    try {
+      const [surveyResponse, versionsResponse] = await Promise.all([
+        fetch(`/api/surveys/${slug}`),
+        fetch(`/api/surveys/${slug}/versions`),
+      ]);
+      if (versionsResponse.status === 401) {
+        router.replace(`/login?from=/admin/surveys/${slug}`);
+        return;
+      }
+      if (!surveyResponse.ok || !versionsResponse.ok) {
+        throw new Error("Failed to fetch survey");
+      }
+      const published: PublishedSurvey = await surveyResponse.json();
+      const allVersions: SurveyVersion[] = await versionsResponse.json();
+      setSurvey(published);
+      setDraft(published.version.definition);
+      setVersions(allVersions);
+      setResponseVersion(String(published.version.version));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setLoading(false);
+    }
+  }, [router, slug]);
+
+  useEffect(() => {
+    fetchSurvey();
+  }, [fetchSurvey]);
+
+  useEffect(() => {
+    if (!responseVersion) return;
+
+    const fetchResponses = async () => {
+      try {
+        const response = await fetch(`/api/surveys/${slug}/responses?version=${responseVersion}`);
+        if (!response.ok) {
+          throw new Error("Failed to load responses");
+        }
+        setResponses(await response.json());
+      } catch (err) {
+        toast.error(err instanceof Error ? err.message : "Failed to load responses");
+      }
+    };
+
+    fetchResponses();
+  }, [slug, responseVersion]);
+
+  const publish = async () => {
+    if (!draft) return;
+
+    setPublishing(true);
+    try {
+      const response = await fetch(`/api/surveys/${slug}/versions`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ definition: draft }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result?.details?.[0]?.message || result?.error || "Failed to publish survey");
+      }
+
+      toast.success(`Version ${result.version} published`);
+      fetchSurvey();
+    } catch (err) {
+      toast.error("Could not publish survey", {
+        description: err instanceof Error ? err.message : "Please try again later.",
+      });
+    } finally {
+      setPublishing(false);
+    }
+  };
+
+  const toggleActive = async () => {
+    if (!survey) return;
+
+    try {
+      const response = await fetch(`/api/surveys/${slug}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ isActive: !survey.isActive }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result?.error || "Failed to update survey");
+      }
+
+      setSurvey({ ...survey, isActive: result.isActive });
+    } catch (err) {
+      toast.error("Could not update survey", {
+        description: err instanceof Error ? err.message : "Please try again later.",
+      });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-zinc-50 font-sans dark:bg-black">
+        <Header />
+        <div className="container mx-auto p-4">
+          <div className="flex items-center justify-center h-64">
+            <div className="text-lg">Loading survey...</div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !survey || !draft) {
+    return (
+      <div className="min-h-screen bg-zinc-50 font-sans dark:bg-black">
+        <Header />
+        <div className="container mx-auto p-4">
+          <Card className="max-w-md mx-auto">
+            <CardHeader>
+              <CardTitle className="text-red-600">Error</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p>{error || "Survey not found"}</p>
+              <Button onClick={() => fetchSurvey()} className="mt-4">
+                Try Again
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  const parsedDraft = surveyDefinitionSchema.safeParse(draft);
+  const selectedVersion = versions.find((version) => String(version.version) === responseVersion);
+  const selectedQuestions = selectedVersion?.definition.sections.flatMap((section) => section.questions) ?? [];
+
+  return (
+    <div className="min-h-screen bg-zinc-50 font-sans dark:bg-black">
+      <Header />
+      <div className="container mx-auto p-4 space-y-6">
+        <div className="flex flex-wrap justify-between items-center gap-4">
+          <div>
+            <h1 className="text-3xl font-bold">{survey.title}</h1>
+            <p className="text-muted-foreground">
+              <Link href={`/surveys/${survey.slug}`} className="hover:underline">
+                /surveys/{survey.slug}
+              </Link>{" "}
+              • live version v{survey.version.version}
+            </p>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" onClick={toggleActive}>
+              {survey.isActive ? "Take Offline" : "Put Live"}
+            </Button>
+            <Button variant="outline" onClick={() => setPreview(!preview)}>
+              {preview ? "Back to Editor" : "Preview"}
+            </Button>
+            <Button onClick={publish} disabled={publishing || !parsedDraft.success}>
+              {publishing ? "Publishing..." : "Publish New Version"}
+            </Button>
+            <Link href="/admin/surveys">
+              <Button variant="outline">All Surveys</Button>
+            </Link>
+          </div>
+        </div>
+
+        {!parsedDraft.success && (
+          <p className="text-sm text-red-600">{parsedDraft.error.issues[0]?.message}</p>
+        )}
+
+        {preview && parsedDraft.success ? (
+          <SurveyForm
+            preview
+            survey={{ ...survey, version: { ...survey.version, definition: parsedDraft.data } }}
+          />
+        ) : (
+          <SurveyBuilder definition={draft} onChange={setDraft} />
+        )}
+
+        {/* Responses */}
+        <Card>
+          <CardHeader>
+            <div className="flex flex-wrap justify-between items-center gap-4">
+              <div>
+                <CardTitle>Responses</CardTitle>
+                <CardDescription>Each response is shown with the questions of the version it answered.</CardDescription>
+              </div>
+              <Select value={responseVersion} onValueChange={setResponseVersion}>
+                <SelectTrigger className="w-52">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {versions.map((version) => (
+                    <SelectItem key={version.id} value={String(version.version)}>
+                      v{version.version} ({version._count.responses} responses)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {responses.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No responses for this version yet.</p>
+            ) : (
+              responses.map((response) => (
+                <div key={response.id} className="rounded-md border p-3 text-sm space-y-1">
+                  <div className="flex justify-between">
+                    <Badge variant="outline">v{response.surveyVersion.version}</Badge>
+                    <span className="text-xs text-muted-foreground">{formatDate(response.createdAt)}</span>
+                  </div>
+                  {selectedQuestions
+                    .filter((question) => response.answers[question.id] !== undefined)
+                    .map((question) => (
+                      <div key={question.id} className="flex justify-between gap-4">
+                        <span className="text-muted-foreground">{question.label}</span>
+                        <span className="text-right whitespace-pre-wrap">
+                          {formatAnswer(question, response.answers[question.id])}
+                        </span>
+                      </div>
+                    ))}
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
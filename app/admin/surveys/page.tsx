@@ -0,0 +1,200 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import Header from "../../header";
+import { starterDefinition } from "@/components/survey-builder";
+
+interface SurveySummary {
+  id: string;
+  slug: string;
+  title: string;
+  description?: string;
+  isActive: boolean;
+  createdAt: string;
+  versions: {
+    id: string;
+    version: number;
+    createdBy?: string;
+    createdAt: string;
+    _count: { responses: number };
+  }[];
+}
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+
+export default function SurveysAdminPage() {
+  const router = useRouter();
+  const [surveys, setSurveys] = useState<SurveySummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [title, setTitle] = useState("");
+  const [slug, setSlug] = useState("");
+  const [creating, setCreating] = useState(false);
+
+  const fetchSurveys = useCallback(async () => {
+    try {
+      const response = await fetch("/api/surveys");
+      if (response.status === 401) {
+        router.replace("/login?from=/admin/surveys");
+        return;
+      }
+      if (!response.ok) {
+        throw new Error("Failed to fetch surveys");
+      }
+      setSurveys(await response.json());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setLoading(false);
+    }
+  }, [router]);
+
+  useEffect(() => {
+    fetchSurveys();
+  }, [fetchSurveys]);
+
+  const createSurvey = async () => {
+    setCreating(true);
+    try {
+      const response = await fetch("/api/surveys", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ title, slug, definition: starterDefinition }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result?.details?.[0]?.message || result?.error || "Failed to create survey");
+      }
+
+      router.push(`/admin/surveys/${result.slug}`);
+    } catch (err) {
+      toast.error("Could not create survey", {
+        description: err instanceof Error ? err.message : "Please try again later.",
+      });
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-zinc-50 font-sans dark:bg-black">
+      <Header />
+      <div className="container mx-auto p-4 space-y-6">
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold">Surveys</h1>
+            <p className="text-muted-foreground">Build questionnaires and publish new versions</p>
+          </div>
+          <Link href="/admin">
+            <Button variant="outline">Back to Feedback</Button>
+          </Link>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>New Survey</CardTitle>
+            <CardDescription>The address is used in the public link and cannot be changed later.</CardDescription>
+          </CardHeader>
+          <CardContent className="flex flex-col md:flex-row md:items-end gap-4">
+            <div className="flex-1 space-y-2">
+              <Label htmlFor="surveyTitle">Title</Label>
+              <Input
+                id="surveyTitle"
+                placeholder="Quarterly customer check-in"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+              />
+            </div>
+            <div className="flex-1 space-y-2">
+              <Label htmlFor="surveySlug">Address</Label>
+              <Input
+                id="surveySlug"
+                placeholder="quarterly-check-in"
+                value={slug}
+                onChange={(e) => setSlug(e.target.value.toLowerCase())}
+              />
+            </div>
+            <Button onClick={createSurvey} disabled={creating || !title.trim() || !slug.trim()}>
+              {creating ? "Creating..." : "Create Survey"}
+            </Button>
+          </CardContent>
+        </Card>
+
+        {error ? (
+          <Card className="max-w-md mx-auto">
+            <CardHeader>
+              <CardTitle className="text-red-600">Error</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p>{error}</p>
+              <Button onClick={() => fetchSurveys()} className="mt-4">
+                Try Again
+              </Button>
+            </CardContent>
+          </Card>
+        ) : loading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="text-lg">Loading surveys...</div>
+          </div>
+        ) : surveys.length === 0 ? (
+          <Card>
+            <CardContent className="p-6 text-center">
+              <p className="text-muted-foreground">No surveys yet.</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid gap-4">
+            {surveys.map((survey) => {
+              const [latest] = survey.versions;
+              const responses = survey.versions.reduce((sum, version) => sum + version._count.responses, 0);
+              return (
+                <Card key={survey.id}>
+                  <CardHeader>
+                    <div className="flex justify-between items-start gap-4">
+                      <div>
+                        <CardTitle className="text-lg">{survey.title}</CardTitle>
+                        <CardDescription>/surveys/{survey.slug}</CardDescription>
+                      </div>
+                      <div className="flex gap-2">
+                        <Badge variant={survey.isActive ? "default" : "secondary"}>
+                          {survey.isActive ? "Live" : "Offline"}
+                        </Badge>
+                        {latest && <Badge variant="outline">v{latest.version}</Badge>}
+                      </div>
+                    </div>
+                  </CardHeader>
+                  <CardContent className="flex justify-between items-center text-sm">
+                    <span className="text-muted-foreground">
+                      {responses} responses
+                      {latest && ` • last published ${formatDate(latest.createdAt)}`}
+                    </span>
+                    <Link href={`/admin/surveys/${survey.slug}`}>
+                      <Button size="sm">Edit</Button>
+                    </Link>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
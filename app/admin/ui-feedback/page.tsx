@@ -0,0 +1,380 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CopyIcon, MessageSquareIcon, ThumbsUpIcon, UserIcon, XIcon } from "lucide-react";
+import Link from "next/link";
+import { AttachmentList, type AttachmentSummary } from "@/components/attachment-list";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import Header from "../../header";
+import FeedbackConversation from "@/components/feedback-conversation";
+
+type FeedbackStatus = "OPEN" | "IN_PROGRESS" | "RESOLVED" | "CLOSED" | "DUPLICATE" | "WONT_FIX";
+
+interface UIFeedbackItem {
+  id: string;
+  title: string;
+  description: string;
+  feedbackType: string;
+  severity?: string;
+  priority?: string;
+  status: FeedbackStatus;
+  assignedTo?: string;
+  resolution?: string;
+  resolvedAt?: string;
+  duplicateOfId?: string;
+  userName?: string;
+  userEmail?: string;
+  pageUrl?: string;
+  componentName?: string;
+  createdAt: string;
+  updatedAt: string;
+  duplicateOf?: { id: string; title: string } | null;
+  attachments: AttachmentSummary[];
+  _count: { duplicates: number; responses: number; votes: number };
+}
+
+interface TriageForm {
+  status: FeedbackStatus;
+  assignedTo: string;
+  resolution: string;
+  duplicateOfId: string;
+}
+
+const statusColumns: { value: FeedbackStatus; label: string }[] = [
+  { value: "OPEN", label: "Open" },
+  { value: "IN_PROGRESS", label: "In Progress" },
+  { value: "RESOLVED", label: "Resolved" },
+  { value: "CLOSED", label: "Closed" },
+  { value: "DUPLICATE", label: "Duplicate" },
+  { value: "WONT_FIX", label: "Won't Fix" },
+];
+
+const severityVariant = (severity?: string) =>
+  severity === "CRITICAL" || severity === "HIGH" ? "destructive" : "outline";
+
+const formatLabel = (value: string) =>
+  value.toLowerCase().replace(/_/g, " ").replace(/^\w/, (c) => c.toUpperCase());
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+
+export default function UIFeedbackTriagePage() {
+  const router = useRouter();
+  const [items, setItems] = useState<UIFeedbackItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState("");
+  const [selected, setSelected] = useState<UIFeedbackItem | null>(null);
+  const [form, setForm] = useState<TriageForm | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const fetchItems = useCallback(async () => {
+    try {
+      const response = await fetch("/api/feedback/ui");
+      if (response.status === 401) {
+        router.replace("/login?from=/admin/ui-feedback");
+        return;
+      }
+      if (!response.ok) {
+        throw new Error("Failed to fetch UI feedback");
+      }
+      setItems(await response.json());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setLoading(false);
+    }
+  }, [router]);
+
+  useEffect(() => {
+    fetchItems();
+  }, [fetchItems]);
+
+  const openItem = (item: UIFeedbackItem) => {
+    setSelected(item);
+    setForm({
+      status: item.status,
+      assignedTo: item.assignedTo || "",
+      resolution: item.resolution || "",
+      duplicateOfId: item.duplicateOfId || "",
+    });
+  };
+
+  const closeItem = () => {
+    setSelected(null);
+    setForm(null);
+  };
+
+  const saveItem = async () => {
+    if (!selected || !form) return;
+
+    setSaving(true);
+    try {
+      const response = await fetch(`/api/feedback/ui/${selected.id}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          status: form.status,
+          assignedTo: form.assignedTo || null,
+          resolution: form.resolution || null,
+          duplicateOfId: form.status === "DUPLICATE" ? form.duplicateOfId || null : null,
+        }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result?.details?.[0]?.message || result?.error || "Failed to update feedback");
+      }
+
+      toast.success("Feedback updated");
+      closeItem();
+      fetchItems();
+    } catch (err) {
+      toast.error("Could not update feedback", {
+        description: err instanceof Error ? err.message : "Please try again later.",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const searchLower = search.toLowerCase();
+  const visibleItems = items.filter(item =>
+    !search ||
+    item.title.toLowerCase().includes(searchLower) ||
+    item.description.toLowerCase().includes(searchLower) ||
+    (item.assignedTo && item.assignedTo.toLowerCase().includes(searchLower))
+  );
+
+  // Anything that isn't itself a duplicate can be picked as the original
+  const duplicateCandidates = items.filter(item => item.id !== selected?.id && item.status !== "DUPLICATE");
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-zinc-50 font-sans dark:bg-black">
+        <Header />
+        <div className="container mx-auto p-4">
+          <div className="flex items-center justify-center h-64">
+            <div className="text-lg">Loading UI feedback...</div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-zinc-50 font-sans dark:bg-black">
+        <Header />
+        <div className="container mx-auto p-4">
+          <Card className="max-w-md mx-auto">
+            <CardHeader>
+              <CardTitle className="text-red-600">Error</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p>{error}</p>
+              <Button onClick={() => fetchItems()} className="mt-4">
+                Try Again
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-zinc-50 font-sans dark:bg-black">
+      <Header />
+      <div className="p-4 space-y-6">
+        <div className="flex flex-wrap justify-between items-center gap-4">
+          <div>
+            <h1 className="text-3xl font-bold">UI Feedback Triage</h1>
+            <p className="text-muted-foreground">{items.length} feedback items</p>
+          </div>
+          <div className="flex gap-2">
+            <Input
+              placeholder="Search title, description, assignee..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="w-72"
+            />
+            <Link href="/admin">
+              <Button variant="outline">Back to Feedback</Button>
+            </Link>
+          </div>
+        </div>
+
+        {/* Board */}
+        <div className="flex gap-4 overflow-x-auto pb-4">
+          {statusColumns.map((column) => {
+            const columnItems = visibleItems.filter(item => item.status === column.value);
+            return (
+              <div key={column.value} className="w-72 shrink-0 space-y-2">
+                <div className="flex items-center justify-between px-1">
+                  <h2 className="font-semibold">{column.label}</h2>
+                  <Badge variant="secondary">{columnItems.length}</Badge>
+                </div>
+                {columnItems.map((item) => (
+                  <Card
+                    key={item.id}
+                    className={`cursor-pointer ${selected?.id === item.id ? "border-primary" : ""}`}
+                    onClick={() => openItem(item)}
+                  >
+                    <CardContent className="p-3 space-y-2">
+                      <div className="font-medium text-sm">{item.title}</div>
+                      <div className="flex flex-wrap gap-1">
+                        <Badge variant="outline">{formatLabel(item.feedbackType)}</Badge>
+                        {item.severity && (
+                          <Badge variant={severityVariant(item.severity)}>{formatLabel(item.severity)}</Badge>
+                        )}
+                        {item.priority && <Badge variant="secondary">{formatLabel(item.priority)}</Badge>}
+                      </div>
+                      {item.duplicateOf && (
+                        <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                          <CopyIcon className="h-3 w-3" />
+                          Duplicate of &ldquo;{item.duplicateOf.title}&rdquo;
+                        </div>
+                      )}
+                      <div className="flex justify-between text-xs text-muted-foreground">
+                        <span className="flex items-center gap-1">
+                          <UserIcon className="h-3 w-3" />
+                          {item.assignedTo || "Unassigned"}
+                        </span>
+                        <span className="flex items-center gap-2">
+                          <span className="flex items-center gap-1">
+                            <MessageSquareIcon className="h-3 w-3" />
+                            {item._count.responses}
+                          </span>
+                          <span className="flex items-center gap-1">
+                            <ThumbsUpIcon className="h-3 w-3" />
+                            {item._count.votes}
+                          </span>
+                        </span>
+                      </div>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Triage panel */}
+      {selected && form && (
+        <>
+          <div className="fixed inset-0 bg-black/50 z-40" onClick={closeItem} />
+          <div className="fixed inset-y-0 right-0 z-50 w-full max-w-md bg-white dark:bg-gray-900 border-l overflow-y-auto">
+            <div className="flex items-center justify-between p-4 border-b">
+              <h2 className="text-lg font-semibold">Triage</h2>
+              <Button variant="ghost" size="sm" onClick={closeItem}>
+                <XIcon className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="p-4 space-y-6">
+              <div className="space-y-1">
+                <h3 className="font-semibold">{selected.title}</h3>
+                <p className="text-sm whitespace-pre-wrap">{selected.description}</p>
+                <p className="text-xs text-muted-foreground">
+                  {selected.userName || selected.userEmail || "Anonymous"} • {formatDate(selected.createdAt)}
+                  {selected.pageUrl && ` • ${selected.pageUrl}`}
+                  {selected.componentName && ` • ${selected.componentName}`}
+                </p>
+                {selected.resolvedAt && (
+                  <p className="text-xs text-muted-foreground">Resolved {formatDate(selected.resolvedAt)}</p>
+                )}
+                <AttachmentList attachments={selected.attachments} />
+                <Link
+                  href={`/admin/audit-log?recordType=ui_feedback&recordId=${selected.id}`}
+                  className="text-xs text-muted-foreground hover:underline"
+                >
+                  Change history
+                </Link>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Status</Label>
+                <Select value={form.status} onValueChange={(value) => setForm({ ...form, status: value as FeedbackStatus })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {statusColumns.map((column) => (
+                      <SelectItem key={column.value} value={column.value}>
+                        {column.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {form.status === "DUPLICATE" && (
+                <div className="space-y-2">
+                  <Label>Duplicate Of</Label>
+                  <Select value={form.duplicateOfId} onValueChange={(value) => setForm({ ...form, duplicateOfId: value })}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select the original feedback" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {duplicateCandidates.map((item) => (
+                        <SelectItem key={item.id} value={item.id}>
+                          {item.title}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="assignedTo">Assignee</Label>
+                <Input
+                  id="assignedTo"
+                  placeholder="Unassigned"
+                  value={form.assignedTo}
+                  onChange={(e) => setForm({ ...form, assignedTo: e.target.value })}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="resolution">Resolution</Label>
+                <Textarea
+                  id="resolution"
+                  placeholder="How was this resolved?"
+                  className="resize-none"
+                  rows={4}
+                  value={form.resolution}
+                  onChange={(e) => setForm({ ...form, resolution: e.target.value })}
+                />
+              </div>
+
+              <Button onClick={saveItem} className="w-full" disabled={saving}>
+                {saving ? "Saving..." : "Save Changes"}
+              </Button>
+
+              <div className="pt-4 border-t">
+                <FeedbackConversation key={selected.id} feedbackId={selected.id} />
+              </div>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
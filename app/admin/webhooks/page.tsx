@@ -0,0 +1,461 @@
+"use client";
+
+import { useCallback, useEffect, useState, type FormEvent } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import Header from "../../header";
+
+type EventType =
+  | "service_feedback.created"
+  | "ui_feedback.created"
+  | "registration.created"
+  | "ui_feedback.status_changed"
+  | "follow_up.status_changed";
+type DeliveryStatus = "PENDING" | "SUCCEEDED" | "FAILED";
+
+interface WebhookEndpoint {
+  id: string;
+  name: string;
+  url: string;
+  secret: string;
+  eventTypes: EventType[];
+  isActive: boolean;
+  _count?: { deliveries: number };
+}
+
+interface WebhookDelivery {
+  id: string;
+  eventType: EventType;
+  payload: unknown;
+  status: DeliveryStatus;
+  attempts: number;
+  nextAttemptAt: string | null;
+  lastAttemptAt: string | null;
+  lastStatusCode: number | null;
+  lastError: string | null;
+  createdAt: string;
+  endpoint: { id: string; name: string; url: string };
+}
+
+type EndpointDraft = Pick<WebhookEndpoint, "name" | "url" | "eventTypes">;
+
+const eventLabels: Record<EventType, string> = {
+  "service_feedback.created": "New service feedback",
+  "ui_feedback.created": "New UI feedback",
+  "registration.created": "New registration",
+  "ui_feedback.status_changed": "UI feedback status changed",
+  "follow_up.status_changed": "Follow-up status changed",
+};
+
+const statusVariants: Record<DeliveryStatus, "secondary" | "outline" | "destructive"> = {
+  PENDING: "outline",
+  SUCCEEDED: "secondary",
+  FAILED: "destructive",
+};
+
+const emptyDraft: EndpointDraft = { name: "", url: "", eventTypes: [] };
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+export default function WebhooksPage() {
+  const router = useRouter();
+  const [endpoints, setEndpoints] = useState<WebhookEndpoint[]>([]);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [statusFilter, setStatusFilter] = useState<DeliveryStatus | "all">("all");
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [draft, setDraft] = useState<EndpointDraft>(emptyDraft);
+  const [saving, setSaving] = useState(false);
+  const [revealed, setRevealed] = useState<string | null>(null);
+  const [replaying, setReplaying] = useState<string | null>(null);
+
+  const fetchWebhooks = useCallback(async () => {
+    try {
+      const query = statusFilter === "all" ? "" : `?status=${statusFilter}`;
+      const [endpointsResponse, deliveriesResponse] = await Promise.all([
+        fetch("/api/webhook-endpoints"),
+        fetch(`/api/webhook-deliveries${query}`),
+      ]);
+      if (endpointsResponse.status === 401 || deliveriesResponse.status === 401) {
+        router.replace("/login?from=/admin/webhooks");
+        return;
+      }
+      if (endpointsResponse.status === 403) {
+        throw new Error("Only admins can manage webhooks");
+      }
+      if (!endpointsResponse.ok || !deliveriesResponse.ok) {
+        throw new Error("Failed to fetch webhooks");
+      }
+      setEndpoints(await endpointsResponse.json());
+      setDeliveries(await deliveriesResponse.json());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setLoading(false);
+    }
+  }, [router, statusFilter]);
+
+  useEffect(() => {
+    fetchWebhooks();
+  }, [fetchWebhooks]);
+
+  const saveEndpoint = async (url: string, method: "POST" | "PATCH", body: object) => {
+    const response = await fetch(url, {
+      method,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    const result = await response.json();
+
+    if (!response.ok) {
+      throw new Error(result?.details?.[0]?.message || result?.error || "Failed to save endpoint");
+    }
+    return result as WebhookEndpoint;
+  };
+
+  const replaceEndpoint = (updated: WebhookEndpoint) =>
+    setEndpoints((current) =>
+      current.map((existing) => (existing.id === updated.id ? { ...updated, _count: existing._count } : existing))
+    );
+
+  const createEndpoint = async (event: FormEvent) => {
+    event.preventDefault();
+    setSaving(true);
+    try {
+      const endpoint = await saveEndpoint("/api/webhook-endpoints", "POST", draft);
+      setEndpoints((current) => [...current, endpoint]);
+      setDraft(emptyDraft);
+      setRevealed(endpoint.id);
+      toast.success("Webhook endpoint added", {
+        description: "Copy its signing secret to the receiving system.",
+      });
+    } catch (err) {
+      toast.error("Could not add endpoint", {
+        description: err instanceof Error ? err.message : "Please try again later.",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleEndpoint = async (endpoint: WebhookEndpoint) => {
+    try {
+      replaceEndpoint(
+        await saveEndpoint(`/api/webhook-endpoints/${endpoint.id}`, "PATCH", { isActive: !endpoint.isActive })
+      );
+    } catch (err) {
+      toast.error("Could not update endpoint", {
+        description: err instanceof Error ? err.message : "Please try again later.",
+      });
+    }
+  };
+
+  const rotateSecret = async (endpoint: WebhookEndpoint) => {
+    if (!window.confirm(`Issue a new signing secret for "${endpoint.name}"? The old one stops working right away.`)) return;
+    try {
+      replaceEndpoint(await saveEndpoint(`/api/webhook-endpoints/${endpoint.id}`, "PATCH", { rotateSecret: true }));
+      setRevealed(endpoint.id);
+    } catch (err) {
+      toast.error("Could not rotate secret", {
+        description: err instanceof Error ? err.message : "Please try again later.",
+      });
+    }
+  };
+
+  const deleteEndpoint = async (endpoint: WebhookEndpoint) => {
+    if (!window.confirm(`Delete the endpoint "${endpoint.name}" and its delivery log?`)) return;
+    try {
+      const response = await fetch(`/api/webhook-endpoints/${endpoint.id}`, { method: "DELETE" });
+      if (!response.ok) {
+        throw new Error((await response.json())?.error || "Failed to delete endpoint");
+      }
+      setEndpoints((current) => current.filter((existing) => existing.id !== endpoint.id));
+      setDeliveries((current) => current.filter((delivery) => delivery.endpoint.id !== endpoint.id));
+    } catch (err) {
+      toast.error("Could not delete endpoint", {
+        description: err instanceof Error ? err.message : "Please try again later.",
+      });
+    }
+  };
+
+  const replayDelivery = async (delivery: WebhookDelivery) => {
+    setReplaying(delivery.id);
+    try {
+      const response = await fetch(`/api/webhook-deliveries/${delivery.id}/replay`, { method: "POST" });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result?.error || "Failed to replay delivery");
+      }
+      if (result.status === "SUCCEEDED") {
+        toast.success("Delivery sent");
+      } else {
+        toast.error("Delivery failed again", { description: result.lastError });
+      }
+      fetchWebhooks();
+    } catch (err) {
+      toast.error("Could not replay delivery", {
+        description: err instanceof Error ? err.message : "Please try again later.",
+      });
+    } finally {
+      setReplaying(null);
+    }
+  };
+
+  const copySecret = async (endpoint: WebhookEndpoint) => {
+    try {
+      await navigator.clipboard.writeText(endpoint.secret);
+      toast.success("Secret copied");
+    } catch {
+      toast.error("Could not copy the secret");
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-zinc-50 font-sans dark:bg-black">
+      <Header />
+      <div className="container mx-auto p-4 space-y-6">
+        <div className="flex flex-wrap justify-between items-center gap-4">
+          <div>
+            <h1 className="text-3xl font-bold">Webhooks</h1>
+            <p className="text-muted-foreground">
+              Signed notifications to other systems when submissions arrive or change status.
+            </p>
+          </div>
+          <Link href="/admin">
+            <Button variant="outline">Back to Feedback</Button>
+          </Link>
+        </div>
+
+        {error ? (
+          <Card className="max-w-md mx-auto">
+            <CardHeader>
+              <CardTitle className="text-red-600">Error</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p>{error}</p>
+              <Button onClick={() => fetchWebhooks()} className="mt-4">
+                Try Again
+              </Button>
+            </CardContent>
+          </Card>
+        ) : loading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="text-lg">Loading webhooks...</div>
+          </div>
+        ) : (
+          <>
+            <div className="grid gap-6 lg:grid-cols-[1fr_380px]">
+              <div className="space-y-4">
+                {endpoints.length === 0 ? (
+                  <Card>
+                    <CardContent className="p-6 text-center">
+                      <p className="text-muted-foreground">No endpoints yet, so no events are sent.</p>
+                    </CardContent>
+                  </Card>
+                ) : (
+                  endpoints.map((endpoint) => (
+                    <Card key={endpoint.id} className={endpoint.isActive ? undefined : "opacity-60"}>
+                      <CardHeader>
+                        <div className="flex flex-wrap justify-between items-start gap-2">
+                          <div className="space-y-1 min-w-0">
+                            <CardTitle className="text-lg">{endpoint.name}</CardTitle>
+                            <CardDescription className="break-all">{endpoint.url}</CardDescription>
+                          </div>
+                          <div className="flex flex-wrap gap-2">
+                            <Button variant="outline" size="sm" onClick={() => toggleEndpoint(endpoint)}>
+                              {endpoint.isActive ? "Pause" : "Resume"}
+                            </Button>
+                            <Button variant="outline" size="sm" onClick={() => rotateSecret(endpoint)}>
+                              Rotate Secret
+                            </Button>
+                            <Button variant="outline" size="sm" onClick={() => deleteEndpoint(endpoint)}>
+                              Delete
+                            </Button>
+                          </div>
+                        </div>
+                      </CardHeader>
+                      <CardContent className="space-y-3">
+                        <div className="flex flex-wrap gap-2">
+                          {endpoint.eventTypes.length === 0 ? (
+                            <Badge variant="secondary">All events</Badge>
+                          ) : (
+                            endpoint.eventTypes.map((type) => (
+                              <Badge key={type} variant="secondary">
+                                {eventLabels[type]}
+                              </Badge>
+                            ))
+                          )}
+                          {!!endpoint._count?.deliveries && (
+                            <Badge variant="destructive">{endpoint._count.deliveries} failed</Badge>
+                          )}
+                          {!endpoint.isActive && <Badge variant="destructive">Paused</Badge>}
+                        </div>
+                        <div className="flex flex-wrap items-center gap-2 text-sm">
+                          <span className="text-muted-foreground">Signing secret:</span>
+                          <code className="rounded bg-muted px-2 py-1 break-all">
+                            {revealed === endpoint.id ? endpoint.secret : "whsec_••••••••"}
+                          </code>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setRevealed(revealed === endpoint.id ? null : endpoint.id)}
+                          >
+                            {revealed === endpoint.id ? "Hide" : "Show"}
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => copySecret(endpoint)}>
+                            Copy
+                          </Button>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  ))
+                )}
+              </div>
+
+              <Card className="h-fit">
+                <CardHeader>
+                  <CardTitle className="text-lg">Add Endpoint</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <form onSubmit={createEndpoint} className="space-y-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="endpoint-name">Name</Label>
+                      <Input
+                        id="endpoint-name"
+                        placeholder="e.g. ERP customer sync"
+                        value={draft.name}
+                        onChange={(event) => setDraft({ ...draft, name: event.target.value })}
+                      />
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="endpoint-url">URL</Label>
+                      <Input
+                        id="endpoint-url"
+                        type="url"
+                        placeholder="https://erp.example.com/hooks/feedback"
+                        value={draft.url}
+                        onChange={(event) => setDraft({ ...draft, url: event.target.value })}
+                      />
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label>Events</Label>
+                      <p className="text-xs text-muted-foreground">Leave all unticked to receive every event.</p>
+                      {(Object.keys(eventLabels) as EventType[]).map((type) => (
+                        <div key={type} className="flex items-center gap-2">
+                          <Checkbox
+                            id={`event-${type}`}
+                            checked={draft.eventTypes.includes(type)}
+                            onCheckedChange={(checked) =>
+                              setDraft({
+                                ...draft,
+                                eventTypes: checked
+                                  ? [...draft.eventTypes, type]
+                                  : draft.eventTypes.filter((value) => value !== type),
+                              })
+                            }
+                          />
+                          <Label htmlFor={`event-${type}`} className="font-normal">
+                            {eventLabels[type]}
+                          </Label>
+                        </div>
+                      ))}
+                    </div>
+
+                    <Button type="submit" className="w-full" disabled={saving}>
+                      {saving ? "Saving..." : "Add Endpoint"}
+                    </Button>
+                  </form>
+                </CardContent>
+              </Card>
+            </div>
+
+            <div className="space-y-4">
+              <div className="flex flex-wrap justify-between items-center gap-4">
+                <h2 className="text-2xl font-semibold">Delivery Log</h2>
+                <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as DeliveryStatus | "all")}>
+                  <SelectTrigger className="w-44">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All deliveries</SelectItem>
+                    <SelectItem value="PENDING">Pending</SelectItem>
+                    <SelectItem value="SUCCEEDED">Succeeded</SelectItem>
+                    <SelectItem value="FAILED">Failed</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {deliveries.length === 0 ? (
+                <Card>
+                  <CardContent className="p-6 text-center">
+                    <p className="text-muted-foreground">No deliveries to show.</p>
+                  </CardContent>
+                </Card>
+              ) : (
+                deliveries.map((delivery) => (
+                  <Card key={delivery.id}>
+                    <CardContent className="p-4 space-y-2">
+                      <div className="flex flex-wrap justify-between items-start gap-2">
+                        <div className="space-y-1">
+                          <div className="flex flex-wrap items-center gap-2">
+                            <Badge variant={statusVariants[delivery.status]}>{delivery.status}</Badge>
+                            <span className="font-medium">{eventLabels[delivery.eventType] ?? delivery.eventType}</span>
+                            <span className="text-sm text-muted-foreground">to {delivery.endpoint.name}</span>
+                          </div>
+                          <p className="text-xs text-muted-foreground">
+                            {formatDate(delivery.createdAt)} • {delivery.attempts}{" "}
+                            {delivery.attempts === 1 ? "attempt" : "attempts"}
+                            {delivery.lastStatusCode !== null && ` • last response ${delivery.lastStatusCode}`}
+                            {delivery.status === "PENDING" &&
+                              delivery.nextAttemptAt &&
+                              ` • next attempt ${formatDate(delivery.nextAttemptAt)}`}
+                          </p>
+                        </div>
+                        {delivery.status === "FAILED" && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={replaying === delivery.id}
+                            onClick={() => replayDelivery(delivery)}
+                          >
+                            {replaying === delivery.id ? "Sending..." : "Replay"}
+                          </Button>
+                        )}
+                      </div>
+                      {delivery.lastError && delivery.status !== "SUCCEEDED" && (
+                        <p className="text-sm text-red-600 break-all">{delivery.lastError}</p>
+                      )}
+                      <details className="text-sm">
+                        <summary className="cursor-pointer text-muted-foreground">Payload</summary>
+                        <pre className="mt-2 max-h-64 overflow-auto rounded bg-muted p-2 text-xs">
+                          {JSON.stringify(delivery.payload, null, 2)}
+                        </pre>
+                      </details>
+                    </CardContent>
+                  </Card>
+                ))
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { withRetry } from '@/lib/retry';
+import { requireRole } from '@/lib/auth';
+import { readAttachment } from '@/lib/attachments';
+
+// Staff only. `?variant=thumbnail` answers with the image's thumbnail, or the image itself when it has none.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const denied = await requireRole(request, 'VIEWER');
+  if (denied) return denied;
+
+  try {
+    const { id } = await params;
+    const thumbnail = request.nextUrl.searchParams.get('variant') === 'thumbnail';
+
+    const attachment = await withRetry(() =>
+      prisma.attachment.findUnique({ where: { id } })
+    );
+    const data = attachment && (await readAttachment(attachment, thumbnail));
+
+    if (!attachment || !data) {
+      return NextResponse.json(
+        { error: 'Attachment not found' },
+        { status: 404 }
+      );
+    }
+
+    const contentType = thumbnail && attachment.thumbnailKey ? 'image/jpeg' : attachment.contentType;
+    // Images open in the browser; PDFs are downloaded rather than rendered on this origin
+    const disposition = contentType.startsWith('image/') ? 'inline' : 'attachment';
+
+    return new NextResponse(new Uint8Array(data), {
+      headers: {
+        'Content-Type': contentType,
+        'Content-Length': String(data.length),
+        'Content-Disposition': `${disposition}; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`,
+        // Files never change once uploaded
+        'Cache-Control': 'private, max-age=31536000, immutable',
+        'X-Content-Type-Options': 'nosniff',
+        'Content-Security-Policy': "default-src 'none'; sandbox",
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching attachment:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
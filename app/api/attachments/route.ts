@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import {
+  AttachmentError,
+  MAX_UPLOAD_REQUEST_BYTES,
+  attachmentUrl,
+  deleteExpiredUploads,
+  storeAttachment,
+} from '@/lib/attachments';
+import { clientKey, limitByIp } from '@/lib/spam-protection';
+
+/**
+ * Public upload for feedback attachments: a multipart form with `file` and,
+ * for images, an optional JPEG `thumbnail`. The upload belongs to nothing
+ * until a submission lists its id in `attachmentIds`. No Idempotency-Key
+ * handling: a repeated upload is only an unclaimed file that expires.
+ */
+export async function POST(request: NextRequest) {
+  const limited = await limitByIp(request, 'attachment');
+  if (limited) return limited;
+
+  try {
+    const length = Number(request.headers.get('content-length'));
+    if (!length) {
+      throw new AttachmentError('Content-Length is required', 411);
+    }
+    if (length > MAX_UPLOAD_REQUEST_BYTES) {
+      throw new AttachmentError(`Uploads must be at most ${Math.floor(MAX_UPLOAD_REQUEST_BYTES / 1024 / 1024)} MB`, 413);
+    }
+
+    const form = await request.formData();
+    const file = form.get('file');
+    const thumbnail = form.get('thumbnail');
+
+    if (!(file instanceof File)) {
+      throw new AttachmentError('Send the file in a multipart form field named "file"');
+    }
+
+    // Scheduled before storing, so expired uploads are cleared even while the quota refuses new ones
+    after(deleteExpiredUploads);
+    const attachment = await storeAttachment(file, thumbnail instanceof File ? thumbnail : null, clientKey(request));
+
+    return NextResponse.json(
+      {
+        id: attachment.id,
+        fileName: attachment.fileName,
+        contentType: attachment.contentType,
+        size: attachment.size,
+        url: attachmentUrl(attachment.id),
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Attachment upload error:', error);
+
+    if (error instanceof AttachmentError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+
+    // request.formData() rejects bodies that aren't multipart forms
+    if (error instanceof TypeError) {
+      return NextResponse.json(
+        { error: 'Request body must be a multipart form' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
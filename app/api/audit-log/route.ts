@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { withRetry } from '@/lib/retry';
+import { requireRole } from '@/lib/auth';
+import { buildAuditWhere, parseAuditQuery } from '@/lib/audit-log';
+import { z } from 'zod';
+
+// Read-only on purpose: the audit log has no update or delete endpoints
+export async function GET(request: NextRequest) {
+  const denied = await requireRole(request, 'ADMIN');
+  if (denied) return denied;
+
+  try {
+    const query = parseAuditQuery(request.nextUrl.searchParams);
+    const where = buildAuditWhere(query);
+
+    const [rows, total] = await Promise.all([
+      withRetry(() =>
+        prisma.auditEntry.findMany({
+          where,
+          orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+          // Fetch one extra row to know whether another page exists
+          take: query.limit + 1,
+          ...(query.cursor && {
+            cursor: { id: query.cursor },
+            skip: 1,
+          }),
+        })
+      ),
+      withRetry(() => prisma.auditEntry.count({ where })),
+    ]);
+
+    const hasMore = rows.length > query.limit;
+    const items = hasMore ? rows.slice(0, query.limit) : rows;
+
+    return NextResponse.json({
+      items,
+      total,
+      nextCursor: hasMore ? items[items.length - 1].id : null,
+    });
+  } catch (error) {
+    console.error('Error fetching audit log:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid query parameters',
+          details: error.issues
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+
+export async function GET(request: NextRequest) {
+  const session = await getSession(request);
+
+  if (!session) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  return NextResponse.json({
+    user: {
+      email: session.email,
+      name: session.name,
+      role: session.role,
+    },
+  });
+}
@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { withRetry } from '@/lib/retry';
+import { isUniqueConstraintError } from '@/lib/prisma-errors';
+import {
+  VOTER_COOKIE,
+  VOTER_TTL_MS,
+  boardItemSelect,
+  boardWhere,
+  createVoterToken,
+  toBoardItem,
+  voteSchema,
+} from '@/lib/feedback-board';
+import { limitByIp } from '@/lib/spam-protection';
+import { z } from 'zod';
+
+/**
+ * Cast, change or withdraw a vote. Each voter email holds at most one vote per
+ * item; sending the same vote type again removes it. The response sets a
+ * signed cookie for the email, which is what the board reads `myVote` from.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const limited = await limitByIp(request, 'board-vote');
+  if (limited) return limited;
+
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const { voterEmail, voteType } = voteSchema.parse(body);
+
+    const feedback = await withRetry(() =>
+      prisma.uIFeedback.findFirst({
+        where: { id, ...boardWhere },
+        select: { id: true },
+      })
+    );
+
+    if (!feedback) {
+      return NextResponse.json(
+        { error: 'Feedback not found' },
+        { status: 404 }
+      );
+    }
+
+    const where = { feedbackId_voterEmail: { feedbackId: id, voterEmail } };
+    const existing = await withRetry(() =>
+      prisma.feedbackVote.findUnique({ where })
+    );
+
+    if (existing?.voteType === voteType) {
+      // deleteMany, so a second toggle racing this one finds nothing to delete instead of failing
+      await withRetry(() =>
+        prisma.feedbackVote.deleteMany({ where: { feedbackId: id, voterEmail, voteType } })
+      );
+    } else {
+      await withRetry(() =>
+        prisma.feedbackVote.upsert({
+          where,
+          update: { voteType },
+          create: { feedbackId: id, voterEmail, voteType },
+        })
+      );
+    }
+
+    const item = await withRetry(() =>
+      prisma.uIFeedback.findUniqueOrThrow({
+        where: { id },
+        select: boardItemSelect,
+      })
+    );
+
+    const response = NextResponse.json(toBoardItem(item, voterEmail));
+    response.cookies.set(VOTER_COOKIE, createVoterToken(voterEmail), {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      maxAge: VOTER_TTL_MS / 1000,
+      path: '/',
+    });
+    return response;
+  } catch (error) {
+    console.error('Error recording vote:', error);
+
+    // Two first votes from the same voter raced; the other one was stored
+    if (isUniqueConstraintError(error)) {
+      return NextResponse.json(
+        { error: 'Your vote is already being recorded' },
+        { status: 409 }
+      );
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.issues
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
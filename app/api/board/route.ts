@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { withRetry } from '@/lib/retry';
+import { boardItemSelect, boardQuerySchema, boardWhere, toBoardItem, voterFromRequest } from '@/lib/feedback-board';
+import { z } from 'zod';
+
+// Public roadmap: feature requests and improvements ranked by net votes
+export async function GET(request: NextRequest) {
+  try {
+    const params = Object.fromEntries(
+      [...request.nextUrl.searchParams.entries()].filter(([, value]) => value !== '')
+    );
+    const query = boardQuerySchema.parse(params);
+
+    const rows = await withRetry(() =>
+      prisma.uIFeedback.findMany({
+        where: boardWhere,
+        orderBy: { createdAt: 'desc' },
+        select: boardItemSelect,
+      })
+    );
+
+    const voterEmail = voterFromRequest(request);
+    const items = rows.map(row => toBoardItem(row, voterEmail));
+
+    // Net score isn't a column, so score ordering happens here; ties stay newest first
+    if (query.sort === 'score') {
+      items.sort((a, b) => b.score - a.score);
+    }
+
+    return NextResponse.json(items);
+  } catch (error) {
+    console.error('Error fetching feedback board:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid query parameters',
+          details: error.issues
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { withRetry } from '@/lib/retry';
+import { getSession, requireRole } from '@/lib/auth';
+import { recordChange } from '@/lib/audit-log';
+import { satisfactionTrend } from '@/lib/customers';
+import { z } from 'zod';
+
+const customerUpdateSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(200),
+});
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const denied = await requireRole(request, 'VIEWER');
+  if (denied) return denied;
+
+  try {
+    const { id } = await params;
+
+    const customer = await withRetry(() =>
+      prisma.customer.findUnique({
+        where: { id },
+        include: {
+          contacts: { orderBy: { createdAt: 'asc' } },
+          registrations: { orderBy: { createdAt: 'desc' } },
+          serviceFeedback: {
+            orderBy: { createdAt: 'desc' },
+            include: { followUpCase: { select: { id: true, status: true } } },
+          },
+        },
+      })
+    );
+
+    if (!customer) {
+      return NextResponse.json(
+        { error: 'Customer not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      ...customer,
+      satisfactionTrend: satisfactionTrend(customer.serviceFeedback.filter(feedback => !feedback.flagged)),
+    });
+  } catch (error) {
+    console.error('Error fetching customer:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const denied = await requireRole(request, 'ANALYST');
+  if (denied) return denied;
+
+  try {
+    const { id } = await params;
+    const session = (await getSession(request))!;
+    const body = await request.json();
+    const validatedData = customerUpdateSchema.parse(body);
+
+    const existing = await withRetry(() =>
+      prisma.customer.findUnique({ where: { id } })
+    );
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Customer not found' },
+        { status: 404 }
+      );
+    }
+
+    const customer = await withRetry(() =>
+      prisma.$transaction(async (tx) => {
+        const updated = await tx.customer.update({
+          where: { id },
+          data: { name: validatedData.name },
+        });
+        await recordChange(tx, {
+          recordType: 'customer',
+          recordId: id,
+          action: 'update',
+          actor: session,
+          before: existing,
+          after: updated,
+        });
+        return updated;
+      })
+    );
+
+    return NextResponse.json(customer);
+  } catch (error) {
+    console.error('Error updating customer:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.issues
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
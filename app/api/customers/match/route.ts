@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession, requireRole } from '@/lib/auth';
+import { linkUnmatchedSubmissions, parseMatchCursor } from '@/lib/customers';
+
+// Links submissions that predate customer matching to their customers, a few
+// hundred per request; repeat with ?after=<next> until next is null
+export async function POST(request: NextRequest) {
+  const denied = await requireRole(request, 'ADMIN');
+  if (denied) return denied;
+
+  try {
+    const cursor = parseMatchCursor(request.nextUrl.searchParams.get('after'));
+    if (!cursor) {
+      return NextResponse.json({ error: 'Invalid cursor' }, { status: 400 });
+    }
+
+    const session = (await getSession(request))!;
+    return NextResponse.json(await linkUnmatchedSubmissions(session, cursor));
+  } catch (error) {
+    console.error('Error matching customers:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { withRetry } from '@/lib/retry';
+import { requireRole } from '@/lib/auth';
+import { z } from 'zod';
+
+const customerQuerySchema = z.object({
+  search: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export async function GET(request: NextRequest) {
+  const denied = await requireRole(request, 'VIEWER');
+  if (denied) return denied;
+
+  try {
+    const params = Object.fromEntries(
+      [...request.nextUrl.searchParams.entries()].filter(([, value]) => value !== '')
+    );
+    const query = customerQuerySchema.parse(params);
+
+    const where: Prisma.CustomerWhereInput = query.search
+      ? {
+          OR: [
+            { name: { contains: query.search, mode: 'insensitive' } },
+            { contacts: { some: { display: { contains: query.search, mode: 'insensitive' } } } },
+          ],
+        }
+      : {};
+
+    const customers = await withRetry(() =>
+      prisma.customer.findMany({
+        where,
+        include: {
+          contacts: { select: { type: true, display: true } },
+          _count: { select: { registrations: true, serviceFeedback: true } },
+        },
+        orderBy: { updatedAt: 'desc' },
+        take: query.limit,
+      })
+    );
+
+    return NextResponse.json(customers);
+  } catch (error) {
+    console.error('Error fetching customers:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid query parameters',
+          details: error.issues
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
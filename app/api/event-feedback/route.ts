@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { withRetry } from '@/lib/retry';
+import { requireRole } from '@/lib/auth';
+import { eventFeedbackSchema } from '@/lib/schemas';
+import { withIdempotency } from '@/lib/idempotency';
+import { kioskFromRequest } from '@/lib/kiosk';
+import { notifySubmission } from '@/lib/notifications';
+import {
+  PayloadTooLargeError,
+  moderationFor,
+  payloadTooLargeResponse,
+  readJsonBody,
+} from '@/lib/spam-protection';
+import { z } from 'zod';
+
+const ratingAverages = {
+  overallRating: true,
+  contentQualityRating: true,
+  speakerRating: true,
+  venueRating: true,
+  organizationRating: true,
+  networkingRating: true,
+  coffeeQualityRating: true,
+  vendorRating: true,
+  workshopRating: true,
+} as const;
+
+async function submitEventFeedback(request: NextRequest) {
+  try {
+    const body = await readJsonBody(request);
+    const validatedData = eventFeedbackSchema.parse(body);
+    // A kiosk's event comes from its signed token, never from the body
+    const kiosk = kioskFromRequest(request);
+
+    const eventFeedback = await withRetry(() =>
+      prisma.eventFeedback.create({
+        data: {
+          ...validatedData,
+          additionalComments: validatedData.additionalComments || null,
+          sourceEvent: kiosk ? kiosk.sourceEvent : validatedData.sourceEvent || null,
+          ...moderationFor(request, body),
+        },
+      })
+    );
+    after(() => notifySubmission({ type: 'event', record: eventFeedback }));
+
+    return NextResponse.json(
+      {
+        message: 'Event feedback submitted successfully',
+        id: eventFeedback.id
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Event feedback submission error:', error);
+
+    if (error instanceof PayloadTooLargeError) {
+      return payloadTooLargeResponse();
+    }
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: 'Request body must be valid JSON' },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.issues
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withIdempotency(submitEventFeedback, { rateLimitScope: 'event-feedback' });
+
+export async function GET(request: NextRequest) {
+  const denied = await requireRole(request, 'VIEWER');
+  if (denied) return denied;
+
+  try {
+    const [items, summary] = await Promise.all([
+      withRetry(() =>
+        prisma.eventFeedback.findMany({
+          orderBy: { createdAt: 'desc' },
+        })
+      ),
+      withRetry(() =>
+        prisma.eventFeedback.aggregate({
+          where: { flagged: false },
+          _avg: ratingAverages,
+          _count: { _all: true },
+        })
+      ),
+    ]);
+
+    return NextResponse.json({
+      items,
+      summary: {
+        responses: summary._count._all,
+        averages: summary._avg,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching event feedback:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
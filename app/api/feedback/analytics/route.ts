@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { withRetry } from '@/lib/retry';
+import { requireRole } from '@/lib/auth';
+import { computeServiceFeedbackAnalytics, ratingRowSelect } from '@/lib/service-feedback-analytics';
+import { z } from 'zod';
+
+const analyticsQuerySchema = z.object({
+  serviceType: z.string().optional(),
+  month: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'Month must be in YYYY-MM format').optional(),
+  weeks: z.coerce.number().int().min(2).max(52).default(8),
+});
+
+// Service dates within a YYYY-MM month
+function monthRange(month: string) {
+  const start = new Date(`${month}-01T00:00:00.000Z`);
+  const end = new Date(start);
+  end.setUTCMonth(end.getUTCMonth() + 1);
+  return { gte: start, lt: end };
+}
+
+export async function GET(request: NextRequest) {
+  const denied = await requireRole(request, 'ANALYST');
+  if (denied) return denied;
+
+  try {
+    const params = Object.fromEntries(
+      [...request.nextUrl.searchParams.entries()].filter(([, value]) => value !== '')
+    );
+    const query = analyticsQuerySchema.parse(params);
+
+    const rows = await withRetry(() =>
+      prisma.serviceFeedback.findMany({
+        where: {
+          flagged: false, // likely spam would skew the averages
+          ...(query.serviceType && { serviceType: { has: query.serviceType } }),
+          ...(query.month && { serviceDate: monthRange(query.month) }),
+        },
+        select: ratingRowSelect,
+      })
+    );
+
+    return NextResponse.json(computeServiceFeedbackAnalytics(rows, query.weeks));
+  } catch (error) {
+    console.error('Error computing feedback analytics:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid query parameters',
+          details: error.issues
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { Prisma, ServiceFeedback } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { withRetry } from '@/lib/retry';
+import { requireRole } from '@/lib/auth';
+import {
+  buildServiceFeedbackOrderBy,
+  buildServiceFeedbackWhere,
+  parseServiceFeedbackQuery,
+} from '@/lib/service-feedback-query';
+import { toCsvStream, toXlsx } from '@/lib/service-feedback-export';
+import { z } from 'zod';
+
+const formatSchema = z.enum(['csv', 'xlsx']).default('csv');
+
+const BATCH_SIZE = 1000;
+
+// The workbook is built in memory, so larger exports have to use CSV, which is streamed
+const MAX_XLSX_ROWS = 20000;
+
+// Walk the result set in batches so large exports don't issue one huge query
+async function* feedbackBatches(
+  where: Prisma.ServiceFeedbackWhereInput,
+  orderBy: Prisma.ServiceFeedbackOrderByWithRelationInput[]
+): AsyncGenerator<ServiceFeedback[]> {
+  let cursor: string | undefined;
+  do {
+    const batch = await withRetry(() =>
+      prisma.serviceFeedback.findMany({
+        where,
+        orderBy,
+        take: BATCH_SIZE,
+        ...(cursor && {
+          cursor: { id: cursor },
+          skip: 1,
+        }),
+      })
+    );
+    yield batch;
+    cursor = batch.length === BATCH_SIZE ? batch[batch.length - 1].id : undefined;
+  } while (cursor);
+}
+
+// Once the CSV has started streaming a failure can only abort it, so log it here
+async function* loggedBatches(batches: AsyncGenerator<ServiceFeedback[]>): AsyncGenerator<ServiceFeedback[]> {
+  try {
+    yield* batches;
+  } catch (error) {
+    console.error('Error exporting service feedback:', error);
+    throw error;
+  }
+}
+
+export async function GET(request: NextRequest) {
+  const denied = await requireRole(request, 'ANALYST');
+  if (denied) return denied;
+
+  try {
+    const format = formatSchema.parse(request.nextUrl.searchParams.get('format') || undefined);
+    const query = parseServiceFeedbackQuery(request.nextUrl.searchParams);
+    const where = buildServiceFeedbackWhere(query);
+    const orderBy = buildServiceFeedbackOrderBy(query);
+
+    const filename = `service-feedback-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+    if (format === 'xlsx') {
+      const count = await withRetry(() => prisma.serviceFeedback.count({ where }));
+      if (count > MAX_XLSX_ROWS) {
+        return NextResponse.json(
+          { error: `Excel exports are limited to ${MAX_XLSX_ROWS} rows; narrow the filters or export as CSV` },
+          { status: 400 }
+        );
+      }
+
+      const feedbacks: ServiceFeedback[] = [];
+      for await (const batch of feedbackBatches(where, orderBy)) {
+        feedbacks.push(...batch);
+      }
+
+      return new NextResponse(new Uint8Array(await toXlsx(feedbacks)), {
+        headers: {
+          'Content-Type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+          'Content-Disposition': `attachment; filename="${filename}"`,
+        },
+      });
+    }
+
+    return new NextResponse(toCsvStream(loggedBatches(feedbackBatches(where, orderBy))), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting service feedback:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid query parameters',
+          details: error.issues
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { withRetry } from '@/lib/retry';
+import { requireRole } from '@/lib/auth';
+import {
+  buildServiceFeedbackOrderBy,
+  buildServiceFeedbackWhere,
+  parseServiceFeedbackQuery,
+} from '@/lib/service-feedback-query';
+import { attachmentSelect } from '@/lib/attachments';
+import { z } from 'zod';
+
+export async function GET(request: NextRequest) {
+  const denied = await requireRole(request, 'VIEWER');
+  if (denied) return denied;
+
+  try {
+    const query = parseServiceFeedbackQuery(request.nextUrl.searchParams);
+    const where = buildServiceFeedbackWhere(query);
+
+    const [rows, total] = await Promise.all([
+      withRetry(() =>
+        prisma.serviceFeedback.findMany({
+          where,
+          orderBy: buildServiceFeedbackOrderBy(query),
+          // Fetch one extra row to know whether another page exists
+          take: query.limit + 1,
+          include: {
+            followUpCase: { select: { id: true, status: true } },
+            attachments: { select: attachmentSelect },
+          },
+          ...(query.cursor && {
+            cursor: { id: query.cursor },
+            skip: 1,
+          }),
+        })
+      ),
+      withRetry(() => prisma.serviceFeedback.count({ where })),
+    ]);
+
+    const hasMore = rows.length > query.limit;
+    const items = hasMore ? rows.slice(0, query.limit) : rows;
+
+    return NextResponse.json({
+      items,
+      total,
+      nextCursor: hasMore ? items[items.length - 1].id : null,
+    });
+  } catch (error) {
+    console.error('Error fetching service feedback:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid query parameters',
+          details: error.issues
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { withRetry } from '@/lib/retry';
+import { getSession, hasRole, requireRole } from '@/lib/auth';
+import { recordChange } from '@/lib/audit-log';
+import {
+  publicResponseSelect,
+  publicResponseWhere,
+  responseCreateSchema,
+} from '@/lib/feedback-responses';
+import { withIdempotency } from '@/lib/idempotency';
+import { z } from 'zod';
+
+// Staff see the whole thread; everyone else only gets public replies
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const isStaff = hasRole(await getSession(request), 'VIEWER');
+
+    const feedback = await withRetry(() =>
+      prisma.uIFeedback.findUnique({
+        where: { id },
+        select: { id: true },
+      })
+    );
+
+    if (!feedback) {
+      return NextResponse.json(
+        { error: 'Feedback not found' },
+        { status: 404 }
+      );
+    }
+
+    const responses = await withRetry(() =>
+      isStaff
+        ? prisma.feedbackResponse.findMany({
+            where: { feedbackId: id },
+            orderBy: { createdAt: 'asc' },
+          })
+        : prisma.feedbackResponse.findMany({
+            where: { feedbackId: id, ...publicResponseWhere },
+            orderBy: { createdAt: 'asc' },
+            select: publicResponseSelect,
+          })
+    );
+
+    return NextResponse.json(responses);
+  } catch (error) {
+    console.error('Error fetching feedback responses:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+async function addResponse(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const denied = await requireRole(request, 'ANALYST');
+  if (denied) return denied;
+
+  try {
+    const { id } = await params;
+    const session = (await getSession(request))!;
+    const body = await request.json();
+    const validatedData = responseCreateSchema.parse(body);
+
+    const feedback = await withRetry(() =>
+      prisma.uIFeedback.findUnique({
+        where: { id },
+        select: { id: true },
+      })
+    );
+
+    if (!feedback) {
+      return NextResponse.json(
+        { error: 'Feedback not found' },
+        { status: 404 }
+      );
+    }
+
+    const response = await withRetry(() =>
+      prisma.$transaction(async (tx) => {
+        const created = await tx.feedbackResponse.create({
+          data: {
+            feedbackId: id,
+            response: validatedData.response,
+            isInternal: validatedData.isInternal,
+            authorName: session.name,
+            authorEmail: session.email,
+            authorRole: session.role,
+          },
+        });
+        // Logged against the feedback, so a reply shows up in its history
+        await recordChange(tx, {
+          recordType: 'ui_feedback',
+          recordId: id,
+          action: 'reply',
+          actor: session,
+          before: { response: null, isInternal: null },
+          after: { response: created.response, isInternal: created.isInternal },
+        });
+        return created;
+      })
+    );
+
+    return NextResponse.json(response, { status: 201 });
+  } catch (error) {
+    console.error('Error creating feedback response:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.issues
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withIdempotency(addResponse);
@@ -0,0 +1,150 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { withRetry } from '@/lib/retry';
+import { getSession, requireRole } from '@/lib/auth';
+import { recordChange } from '@/lib/audit-log';
+import {
+  TriageError,
+  buildTriageUpdate,
+  triageListSelect,
+  triageUpdateSchema,
+} from '@/lib/ui-feedback-triage';
+import { emitWebhookEvent } from '@/lib/webhooks';
+import { z } from 'zod';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const denied = await requireRole(request, 'VIEWER');
+  if (denied) return denied;
+
+  try {
+    const { id } = await params;
+
+    const feedback = await withRetry(() =>
+      prisma.uIFeedback.findUnique({
+        where: { id },
+        include: {
+          duplicateOf: { select: { id: true, title: true } },
+          duplicates: { select: { id: true, title: true } },
+        },
+      })
+    );
+
+    if (!feedback) {
+      return NextResponse.json(
+        { error: 'Feedback not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(feedback);
+  } catch (error) {
+    console.error('Error fetching UI feedback:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const denied = await requireRole(request, 'ANALYST');
+  if (denied) return denied;
+
+  try {
+    const { id } = await params;
+    const session = (await getSession(request))!;
+    const body = await request.json();
+    const validatedData = triageUpdateSchema.parse(body);
+
+    const result = await withRetry(() =>
+      prisma.$transaction(async (tx) => {
+        const existing = await tx.uIFeedback.findUnique({ where: { id } });
+        if (!existing) return null;
+
+        const data = await buildTriageUpdate(tx, existing, validatedData);
+
+        // Items that duplicated this one now point at the same original, each audited on its own
+        if (data.duplicateOfId) {
+          const duplicates = await tx.uIFeedback.findMany({
+            where: { duplicateOfId: id },
+            select: { id: true, duplicateOfId: true },
+          });
+          for (const duplicate of duplicates) {
+            const repointed = await tx.uIFeedback.update({
+              where: { id: duplicate.id },
+              data: { duplicateOfId: data.duplicateOfId },
+              select: { duplicateOfId: true },
+            });
+            await recordChange(tx, {
+              recordType: 'ui_feedback',
+              recordId: duplicate.id,
+              action: 'triage',
+              actor: session,
+              before: duplicate,
+              after: repointed,
+            });
+          }
+        }
+
+        const feedback = await tx.uIFeedback.update({
+          where: { id },
+          data,
+          select: triageListSelect,
+        });
+        await recordChange(tx, {
+          recordType: 'ui_feedback',
+          recordId: id,
+          action: 'triage',
+          actor: session,
+          before: existing,
+          after: feedback,
+        });
+        return { feedback, previousStatus: existing.status };
+      })
+    );
+
+    if (!result) {
+      return NextResponse.json(
+        { error: 'Feedback not found' },
+        { status: 404 }
+      );
+    }
+
+    const { feedback, previousStatus } = result;
+    if (feedback.status !== previousStatus) {
+      after(() => emitWebhookEvent('ui_feedback.status_changed', { ...feedback, previousStatus }));
+    }
+
+    return NextResponse.json(feedback);
+  } catch (error) {
+    console.error('Error updating UI feedback:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.issues
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof TriageError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { FeedbackStatus, FeedbackType, Prisma, Severity } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { withRetry } from '@/lib/retry';
+import { requireRole } from '@/lib/auth';
+import { triageListSelect } from '@/lib/ui-feedback-triage';
+import { z } from 'zod';
+
+const uiFeedbackQuerySchema = z.object({
+  search: z.string().trim().max(100).optional(),
+  status: z.enum(FeedbackStatus).optional(),
+  feedbackType: z.enum(FeedbackType).optional(),
+  severity: z.enum(Severity).optional(),
+  assignedTo: z.string().optional(),
+});
+
+export async function GET(request: NextRequest) {
+  const denied = await requireRole(request, 'VIEWER');
+  if (denied) return denied;
+
+  try {
+    const params = Object.fromEntries(
+      [...request.nextUrl.searchParams.entries()].filter(([, value]) => value !== '')
+    );
+    const query = uiFeedbackQuerySchema.parse(params);
+
+    const where: Prisma.UIFeedbackWhereInput = {
+      ...(query.status && { status: query.status }),
+      ...(query.feedbackType && { feedbackType: query.feedbackType }),
+      ...(query.severity && { severity: query.severity }),
+      ...(query.assignedTo && { assignedTo: query.assignedTo }),
+      ...(query.search && {
+        OR: [
+          { title: { contains: query.search, mode: 'insensitive' } },
+          { description: { contains: query.search, mode: 'insensitive' } },
+          { userName: { contains: query.search, mode: 'insensitive' } },
+          { userEmail: { contains: query.search, mode: 'insensitive' } },
+        ],
+      }),
+    };
+
+    const uiFeedback = await withRetry(() =>
+      prisma.uIFeedback.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        select: triageListSelect,
+      })
+    );
+
+    return NextResponse.json(uiFeedback);
+  } catch (error) {
+    console.error('Error fetching UI feedback:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid query parameters',
+          details: error.issues
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
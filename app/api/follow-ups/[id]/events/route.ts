@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { withRetry } from '@/lib/retry';
+import { getSession, requireRole } from '@/lib/auth';
+import { followUpCaseInclude, followUpEventSchema } from '@/lib/follow-ups';
+import { recordChange } from '@/lib/audit-log';
+import { withIdempotency } from '@/lib/idempotency';
+import { emitWebhookEvent } from '@/lib/webhooks';
+import { z } from 'zod';
+
+async function logEvent(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const denied = await requireRole(request, 'ANALYST');
+  if (denied) return denied;
+
+  try {
+    const { id } = await params;
+    const session = (await getSession(request))!;
+    const body = await request.json();
+    const validatedData = followUpEventSchema.parse(body);
+
+    const isContact = validatedData.type === 'CONTACTED';
+    const author = { authorName: session.name, authorEmail: session.email };
+
+    const result = await withRetry(() =>
+      prisma.$transaction(async (tx) => {
+        // Same shape as the updated case, so the audit entry only lists real changes
+        const existing = await tx.followUpCase.findUnique({
+          where: { id },
+          include: followUpCaseInclude,
+        });
+        if (!existing) return null;
+
+        const event = await tx.followUpEvent.create({
+          data: {
+            caseId: id,
+            type: validatedData.type,
+            note: validatedData.note || null,
+            // Default to the method the customer asked for
+            contactMethod: isContact
+              ? validatedData.contactMethod || existing.serviceFeedback.preferredContactMethod || null
+              : null,
+            ...author,
+          },
+        });
+        if (!isContact) return { event, existing, updated: null };
+
+        // Logging the first contact moves a new case forward, recorded like any other status change
+        const movesForward = existing.status === 'OPEN';
+        const updated = await tx.followUpCase.update({
+          where: { id },
+          data: {
+            contactedAt: existing.contactedAt ?? event.createdAt,
+            ...(movesForward && {
+              status: 'CONTACTED',
+              events: { create: { type: 'STATUS_CHANGE', fromValue: existing.status, toValue: 'CONTACTED', ...author } },
+            }),
+          },
+          include: {
+            ...followUpCaseInclude,
+            events: { orderBy: { createdAt: 'desc' } },
+          },
+        });
+        await recordChange(tx, {
+          recordType: 'follow_up',
+          recordId: id,
+          action: 'contact_logged',
+          actor: session,
+          before: existing,
+          after: updated,
+        });
+        return { event, existing, updated };
+      })
+    );
+
+    if (!result) {
+      return NextResponse.json(
+        { error: 'Follow-up case not found' },
+        { status: 404 }
+      );
+    }
+
+    const { event, existing, updated } = result;
+    if (updated && updated.status !== existing.status) {
+      after(() => emitWebhookEvent('follow_up.status_changed', { ...updated, previousStatus: existing.status }));
+    }
+
+    return NextResponse.json(event, { status: 201 });
+  } catch (error) {
+    console.error('Error adding follow-up event:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.issues
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withIdempotency(logEvent);
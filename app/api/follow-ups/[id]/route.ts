@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { withRetry } from '@/lib/retry';
+import { getSession, requireRole } from '@/lib/auth';
+import { recordChange } from '@/lib/audit-log';
+import { followUpCaseInclude, followUpUpdateSchema, statusTimestamps } from '@/lib/follow-ups';
+import { emitWebhookEvent } from '@/lib/webhooks';
+import { z } from 'zod';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const denied = await requireRole(request, 'VIEWER');
+  if (denied) return denied;
+
+  try {
+    const { id } = await params;
+
+    const followUpCase = await withRetry(() =>
+      prisma.followUpCase.findUnique({
+        where: { id },
+        include: {
+          ...followUpCaseInclude,
+          events: { orderBy: { createdAt: 'desc' } },
+        },
+      })
+    );
+
+    if (!followUpCase) {
+      return NextResponse.json(
+        { error: 'Follow-up case not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(followUpCase);
+  } catch (error) {
+    console.error('Error fetching follow-up case:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const denied = await requireRole(request, 'ANALYST');
+  if (denied) return denied;
+
+  try {
+    const { id } = await params;
+    const session = (await getSession(request))!;
+    const body = await request.json();
+    const validatedData = followUpUpdateSchema.parse(body);
+
+    const author = { authorName: session.name, authorEmail: session.email };
+
+    // Read inside the transaction, so the audit entry's "before" is the row this update replaced
+    const result = await withRetry(() =>
+      prisma.$transaction(async (tx) => {
+        const existing = await tx.followUpCase.findUnique({ where: { id } });
+        if (!existing) return null;
+
+        const events: Prisma.FollowUpEventCreateWithoutCaseInput[] = [];
+        const data: Prisma.FollowUpCaseUpdateInput = {};
+
+        if (validatedData.owner !== undefined && (validatedData.owner || null) !== existing.owner) {
+          data.owner = validatedData.owner || null;
+          events.push({ type: 'ASSIGNED', fromValue: existing.owner, toValue: data.owner, ...author });
+        }
+
+        if (validatedData.status && validatedData.status !== existing.status) {
+          data.status = validatedData.status;
+          Object.assign(data, statusTimestamps(validatedData.status, existing));
+          events.push({ type: 'STATUS_CHANGE', fromValue: existing.status, toValue: validatedData.status, ...author });
+        }
+
+        if (validatedData.dueDate !== undefined) {
+          data.dueDate = validatedData.dueDate ? new Date(`${validatedData.dueDate}T00:00:00.000Z`) : null;
+        }
+
+        const updated = await tx.followUpCase.update({
+          where: { id },
+          data: {
+            ...data,
+            events: { create: events },
+          },
+          include: {
+            ...followUpCaseInclude,
+            events: { orderBy: { createdAt: 'desc' } },
+          },
+        });
+        await recordChange(tx, {
+          recordType: 'follow_up',
+          recordId: id,
+          action: 'update',
+          actor: session,
+          before: existing,
+          after: updated,
+        });
+        return { followUpCase: updated, previousStatus: existing.status };
+      })
+    );
+
+    if (!result) {
+      return NextResponse.json(
+        { error: 'Follow-up case not found' },
+        { status: 404 }
+      );
+    }
+
+    const { followUpCase, previousStatus } = result;
+    if (followUpCase.status !== previousStatus) {
+      after(() => emitWebhookEvent('follow_up.status_changed', { ...followUpCase, previousStatus }));
+    }
+
+    return NextResponse.json(followUpCase);
+  } catch (error) {
+    console.error('Error updating follow-up case:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.issues
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
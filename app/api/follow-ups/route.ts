@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { FollowUpStatus, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { withRetry } from '@/lib/retry';
+import { requireRole } from '@/lib/auth';
+import { followUpCaseInclude, openFollowUpStatuses } from '@/lib/follow-ups';
+import { z } from 'zod';
+
+const followUpQuerySchema = z.object({
+  status: z.union([z.enum(['open', 'all']), z.enum(FollowUpStatus)]).default('open'),
+  owner: z.string().optional(),
+  overdue: z.enum(['true', 'false']).optional(),
+});
+
+export async function GET(request: NextRequest) {
+  const denied = await requireRole(request, 'VIEWER');
+  if (denied) return denied;
+
+  try {
+    const params = Object.fromEntries(
+      [...request.nextUrl.searchParams.entries()].filter(([, value]) => value !== '')
+    );
+    const query = followUpQuerySchema.parse(params);
+
+    const where: Prisma.FollowUpCaseWhereInput = {};
+
+    if (query.status === 'open') {
+      where.status = { in: openFollowUpStatuses };
+    } else if (query.status !== 'all') {
+      where.status = query.status;
+    }
+
+    if (query.owner) {
+      where.owner = query.owner;
+    }
+
+    if (query.overdue === 'true') {
+      where.dueDate = { lt: new Date() };
+      where.status = { in: openFollowUpStatuses };
+    }
+
+    // Most urgent first; cases without a due date go last
+    const cases = await withRetry(() =>
+      prisma.followUpCase.findMany({
+        where,
+        orderBy: [
+          { dueDate: { sort: 'asc', nulls: 'last' } },
+          { createdAt: 'asc' },
+        ],
+        include: followUpCaseInclude,
+      })
+    );
+
+    return NextResponse.json(cases);
+  } catch (error) {
+    console.error('Error fetching follow-up cases:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid query parameters',
+          details: error.issues
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { kioskExitSchema, verifyKioskPin, verifyKioskToken } from '@/lib/kiosk';
+import { checkRateLimit } from '@/lib/rate-limit';
+import { z } from 'zod';
+
+// A 4-digit PIN must not be guessable by trying them all at the stand
+const pinAttempts = { limit: 5, windowMs: 10 * 60 * 1000 };
+
+// Checks the PIN set when the kiosk was started; the kiosk only leaves kiosk mode on success
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { token, pin } = kioskExitSchema.parse(body);
+
+    const kiosk = verifyKioskToken(token);
+    // An expired or unknown kiosk has nothing left to protect
+    if (!kiosk) {
+      return NextResponse.json({ exited: true });
+    }
+
+    const retryAfter = await checkRateLimit(`kiosk-pin:${kiosk.kioskId}`, pinAttempts);
+    if (retryAfter !== null) {
+      return NextResponse.json(
+        { error: 'Too many attempts, please try again later' },
+        { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+      );
+    }
+
+    if (!verifyKioskPin(kiosk, pin)) {
+      return NextResponse.json(
+        { error: 'Incorrect PIN' },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json({ exited: true });
+  } catch (error) {
+    console.error('Error leaving kiosk:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.issues
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
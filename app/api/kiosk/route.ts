@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SESSION_COOKIE, requireRole } from '@/lib/auth';
+import { createKioskToken, kioskSetupSchema } from '@/lib/kiosk';
+import { z } from 'zod';
+
+/**
+ * Starts kiosk mode on this device for a signed-in staff member. The staff
+ * session is ended in the same response, so visitors using the tablet never
+ * have access to the admin pages.
+ */
+export async function POST(request: NextRequest) {
+  const denied = await requireRole(request, 'VIEWER');
+  if (denied) return denied;
+
+  try {
+    const body = await request.json();
+    const { sourceEvent, pin } = kioskSetupSchema.parse(body);
+    const { token, expiresAt } = createKioskToken(sourceEvent, pin);
+
+    const response = NextResponse.json(
+      { token, sourceEvent, expiresAt: new Date(expiresAt).toISOString() },
+      { status: 201 }
+    );
+    response.cookies.delete(SESSION_COOKIE);
+    return response;
+  } catch (error) {
+    console.error('Error starting kiosk:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.issues
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { getSession, requireRole } from '@/lib/auth';
+import { announceRelease, moderatedTypes, setFlagged } from '@/lib/moderation';
+import { z } from 'zod';
+
+const moderationUpdateSchema = z.object({
+  flagged: z.boolean(),
+});
+
+// Marks a submission as spam, or releases one that was wrongly flagged
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ type: string; id: string }> }
+) {
+  const denied = await requireRole(request, 'ANALYST');
+  if (denied) return denied;
+
+  try {
+    const { type, id } = await params;
+    const submissionType = z.enum(moderatedTypes).safeParse(type);
+
+    if (!submissionType.success) {
+      return NextResponse.json(
+        { error: 'Submission not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const { flagged } = moderationUpdateSchema.parse(body);
+
+    const update = await setFlagged(submissionType.data, id, flagged, (await getSession(request))!);
+
+    if (!update) {
+      return NextResponse.json(
+        { error: 'Submission not found' },
+        { status: 404 }
+      );
+    }
+
+    if (update.released) {
+      after(() => announceRelease(update.submission));
+    }
+
+    return NextResponse.json({ type: submissionType.data, id, flagged });
+  } catch (error) {
+    console.error('Error updating moderation flag:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.issues
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/auth';
+import { listFlaggedSubmissions } from '@/lib/moderation';
+
+export async function GET(request: NextRequest) {
+  const denied = await requireRole(request, 'VIEWER');
+  if (denied) return denied;
+
+  try {
+    const items = await listFlaggedSubmissions();
+    return NextResponse.json({ items });
+  } catch (error) {
+    console.error('Error fetching flagged submissions:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { withRetry } from '@/lib/retry';
+import { requireRole } from '@/lib/auth';
+import { notificationRuleSchema } from '@/lib/notifications';
+import { z } from 'zod';
+
+// Accepts any subset of the rule's fields; the merged rule must still be valid
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const denied = await requireRole(request, 'ADMIN');
+  if (denied) return denied;
+
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    const existing = await withRetry(() =>
+      prisma.notificationRule.findUnique({ where: { id } })
+    );
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Notification rule not found' },
+        { status: 404 }
+      );
+    }
+
+    const validatedData = notificationRuleSchema.parse({ ...existing, ...body });
+
+    const rule = await withRetry(() =>
+      prisma.notificationRule.update({ where: { id }, data: validatedData })
+    );
+
+    return NextResponse.json(rule);
+  } catch (error) {
+    console.error('Error updating notification rule:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.issues
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Notifications the rule already sent stay in the bell
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const denied = await requireRole(request, 'ADMIN');
+  if (denied) return denied;
+
+  try {
+    const { id } = await params;
+
+    const { count } = await withRetry(() =>
+      prisma.notificationRule.deleteMany({ where: { id } })
+    );
+
+    if (count === 0) {
+      return NextResponse.json(
+        { error: 'Notification rule not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ message: 'Notification rule deleted' });
+  } catch (error) {
+    console.error('Error deleting notification rule:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
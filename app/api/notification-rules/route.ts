@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { withRetry } from '@/lib/retry';
+import { requireRole } from '@/lib/auth';
+import { notificationRuleSchema } from '@/lib/notifications';
+import { z } from 'zod';
+
+export async function GET(request: NextRequest) {
+  const denied = await requireRole(request, 'ADMIN');
+  if (denied) return denied;
+
+  try {
+    const rules = await withRetry(() =>
+      prisma.notificationRule.findMany({ orderBy: { createdAt: 'asc' } })
+    );
+
+    return NextResponse.json(rules);
+  } catch (error) {
+    console.error('Error fetching notification rules:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const denied = await requireRole(request, 'ADMIN');
+  if (denied) return denied;
+
+  try {
+    const body = await request.json();
+    const validatedData = notificationRuleSchema.parse(body);
+
+    const rule = await withRetry(() =>
+      prisma.notificationRule.create({ data: validatedData })
+    );
+
+    return NextResponse.json(rule, { status: 201 });
+  } catch (error) {
+    console.error('Error creating notification rule:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.issues
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { withRetry } from '@/lib/retry';
+import { getSession, requireRole } from '@/lib/auth';
+import { z } from 'zod';
+
+const markReadSchema = z.object({
+  ids: z.array(z.string()).max(100).optional(), // Everything when omitted
+});
+
+// Marks notifications as opened by the signed-in user only
+export async function POST(request: NextRequest) {
+  const denied = await requireRole(request, 'VIEWER');
+  if (denied) return denied;
+
+  try {
+    const { userId } = (await getSession(request))!;
+    const body = await request.json();
+    const { ids } = markReadSchema.parse(body);
+
+    const { count } = await withRetry(() =>
+      prisma.notification.updateMany({
+        where: {
+          ...(ids && { id: { in: ids } }),
+          NOT: { readBy: { has: userId } },
+        },
+        data: { readBy: { push: userId } },
+      })
+    );
+
+    return NextResponse.json({ marked: count });
+  } catch (error) {
+    console.error('Error marking notifications read:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.issues
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { withRetry } from '@/lib/retry';
+import { getSession, requireRole } from '@/lib/auth';
+
+const NOTIFICATION_LIMIT = 20;
+
+// Latest notifications for the bell, with what the signed-in user hasn't opened yet
+export async function GET(request: NextRequest) {
+  const denied = await requireRole(request, 'VIEWER');
+  if (denied) return denied;
+
+  try {
+    const { userId } = (await getSession(request))!;
+
+    const [notifications, unread] = await Promise.all([
+      withRetry(() =>
+        prisma.notification.findMany({
+          orderBy: { createdAt: 'desc' },
+          take: NOTIFICATION_LIMIT,
+        })
+      ),
+      withRetry(() =>
+        prisma.notification.count({
+          where: { NOT: { readBy: { has: userId } } },
+        })
+      ),
+    ]);
+
+    return NextResponse.json({
+      items: notifications.map(({ readBy, ...notification }) => ({
+        ...notification,
+        read: readBy.includes(userId),
+      })),
+      unread,
+    });
+  } catch (error) {
+    console.error('Error fetching notifications:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
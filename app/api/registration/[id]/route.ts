@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { Registration } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { withRetry } from '@/lib/retry';
+import { getSession, requireRole } from '@/lib/auth';
+import { recordChange } from '@/lib/audit-log';
+import { registrationSchema } from '@/lib/schemas';
+import { toDateOnly } from '@/lib/dates';
+import { registrationCustomerDetails, resolveCustomerId } from '@/lib/customers';
+import { isUniqueConstraintError } from '@/lib/prisma-errors';
+import { z } from 'zod';
+
+const registrationUpdateSchema = registrationSchema.partial();
+
+// Fields that decide which customer a registration belongs to
+const customerFields = ['name', 'companyName', 'email', 'mobileNumber', 'officePhone'] as const;
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const denied = await requireRole(request, 'ANALYST');
+  if (denied) return denied;
+
+  try {
+    const { id } = await params;
+    const session = (await getSession(request))!;
+    const body = await request.json();
+    const validatedData = registrationUpdateSchema.parse(body);
+
+    const existing = await withRetry(() =>
+      prisma.registration.findUnique({ where: { id } })
+    );
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Registration not found' },
+        { status: 404 }
+      );
+    }
+
+    // Blank strings clear a field, matching how registrations are created
+    const { followUpDate, ...fields } = validatedData;
+    const changes = Object.fromEntries(
+      Object.entries(fields).map(([key, value]) => [key, value === '' ? null : value])
+    ) as Partial<Omit<Registration, 'followUpDate'>>;
+
+    const contactChanged = customerFields.some(field => field in changes && changes[field] !== existing[field]);
+    const customerId = contactChanged
+      ? await resolveCustomerId(registrationCustomerDetails({ ...existing, ...changes }))
+      : existing.customerId;
+
+    const data = {
+      ...changes,
+      ...(followUpDate !== undefined && { followUpDate: followUpDate ? toDateOnly(followUpDate) : null }),
+    };
+
+    const registration = await withRetry(() =>
+      prisma.$transaction(async (tx) => {
+        const updated = await tx.registration.update({
+          where: { id },
+          data: { ...data, customerId },
+        });
+        await recordChange(tx, {
+          recordType: 'registration',
+          recordId: id,
+          action: 'update',
+          actor: session,
+          before: existing,
+          after: updated,
+        });
+        return updated;
+      })
+    );
+
+    return NextResponse.json(registration);
+  } catch (error) {
+    console.error('Error updating registration:', error);
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: 'Request body must be valid JSON' },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.issues
+        },
+        { status: 400 }
+      );
+    }
+
+    if (isUniqueConstraintError(error)) {
+      return NextResponse.json(
+        { error: 'Email already registered' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { withRetry } from '@/lib/retry';
+import { requireRole } from '@/lib/auth';
+
+const facetFields = ['country', 'industry', 'sourceEvent'] as const;
+
+// Distinct values for the registrations admin filter dropdowns
+export async function GET(request: NextRequest) {
+  const denied = await requireRole(request, 'VIEWER');
+  if (denied) return denied;
+
+  try {
+    const facets = await Promise.all(
+      facetFields.map(async field => {
+        const rows = await withRetry(() =>
+          prisma.registration.findMany({
+            where: { [field]: { not: null } },
+            distinct: [field],
+            select: { [field]: true },
+            orderBy: { [field]: 'asc' },
+          })
+        );
+        return [field, rows.map(row => row[field] as string)] as const;
+      })
+    );
+
+    return NextResponse.json(Object.fromEntries(facets));
+  } catch (error) {
+    console.error('Error fetching registration facets:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,58 +1,44 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextRequest, NextResponse, after } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { withRetry } from '@/lib/retry';
+import { requireRole } from '@/lib/auth';
+import { registrationSchema } from '@/lib/schemas';
+import { toDateOnly } from '@/lib/dates';
+import { registrationCustomerDetails, resolveCustomerId } from '@/lib/customers';
+import {
+  buildRegistrationOrderBy,
+  buildRegistrationWhere,
+  parseRegistrationQuery,
+} from '@/lib/registration-query';
+import {
+  DuplicateSubmissionError,
+  assertNotDuplicate,
+  registrationContacts,
+  registrationFingerprint,
+} from '@/lib/duplicate-submissions';
+import { withIdempotency } from '@/lib/idempotency';
+import { kioskFromRequest } from '@/lib/kiosk';
+import { emitWebhookEvent } from '@/lib/webhooks';
+import {
+  PayloadTooLargeError,
+  limitByContact,
+  moderationFor,
+  payloadTooLargeResponse,
+  readJsonBody,
+} from '@/lib/spam-protection';
 import { z } from 'zod';
 
-const registrationSchema = z.object({
-  name: z.string().max(50).optional(),
-  companyName: z.string().max(100).optional(),
-  jobTitle: z.string().max(100).optional(),
-  mobileNumber: z.string().regex(/^[\+]?[1-9][\d\s\-\(\)]{3,15}$/).optional().or(z.literal("")),
-  officePhone: z.string().regex(/^[\+]?[1-9][\d\s\-\(\)]{3,15}$/).optional().or(z.literal("")),
-  email: z.string().email().optional().or(z.literal("")),
-  website: z.string().optional().or(z.literal("")),
-  officeAddress: z.string().max(200).optional(),
-  country: z.string().max(50).optional(),
-  industry: z.string().max(50).optional(),
-  sourceEvent: z.string().max(100).optional(),
-  followUpDate: z.string().optional().or(z.literal("")),
-  followUp: z.boolean(),
-  comment: z.string().max(500).optional(),
-});
-
-// Retry function for database operations
-async function withRetry<T>(operation: () => Promise<T>, maxRetries = 3): Promise<T> {
-  let lastError: Error;
-  
-  for (let attempt = 1; attempt <= maxRetries; attempt++) {
-    try {
-      return await operation();
-    } catch (error) {
-      lastError = error as Error;
-      
-      // If it's a connection error and we have retries left, wait and retry
-      if (attempt < maxRetries && (
-        lastError.message.includes("Can't reach database server") ||
-        lastError.message.includes("Connection terminated") ||
-        lastError.message.includes("Connection refused")
-      )) {
-        console.log(`Database connection attempt ${attempt} failed, retrying...`);
-        await new Promise(resolve => setTimeout(resolve, 1000 * attempt)); // Exponential backoff
-        continue;
-      }
-      
-      throw lastError;
-    }
-  }
-  
-  throw lastError!;
-}
-
-export async function POST(request: NextRequest) {
+async function register(request: NextRequest) {
   try {
-    const body = await request.json();
+    const body = await readJsonBody(request);
     
     // Validate the request body
     const validatedData = registrationSchema.parse(body);
+    // A kiosk's event comes from its signed token, never from the body
+    const kiosk = kioskFromRequest(request);
+
+    const contactLimited = await limitByContact('registration', registrationContacts(validatedData));
+    if (contactLimited) return contactLimited;
     
     // Check if email already exists with retry (only if email is provided)
     if (validatedData.email && validatedData.email !== "") {
@@ -70,9 +56,16 @@ export async function POST(request: NextRequest) {
       }
     }
     
+    const customerId = await resolveCustomerId(registrationCustomerDetails(validatedData));
+    const fingerprint = registrationFingerprint(validatedData);
+
     // Create new registration with retry
-    const registration = await withRetry(() =>
-      prisma.registration.create({
+    const registration = await withRetry(async () => {
+      await assertNotDuplicate(fingerprint, where =>
+        prisma.registration.findFirst({ where, select: { id: true } })
+      );
+
+      return prisma.registration.create({
         data: {
           name: validatedData.name || null,
           companyName: validatedData.companyName || null,
@@ -84,13 +77,17 @@ export async function POST(request: NextRequest) {
           officeAddress: validatedData.officeAddress || null,
           country: validatedData.country || null,
           industry: validatedData.industry || null,
-          sourceEvent: validatedData.sourceEvent || null,
-          followUpDate: validatedData.followUpDate || null,
+          sourceEvent: kiosk ? kiosk.sourceEvent : validatedData.sourceEvent || null,
+          followUpDate: validatedData.followUpDate ? toDateOnly(validatedData.followUpDate) : null,
           followUp: validatedData.followUp,
           comment: validatedData.comment || null,
+          customerId,
+          fingerprint,
+          ...moderationFor(request, body),
         },
-      })
-    );
+      });
+    });
+    after(() => emitWebhookEvent('registration.created', registration));
     
     return NextResponse.json(
       { 
@@ -103,6 +100,27 @@ export async function POST(request: NextRequest) {
   } catch (error) {
     console.error('Registration error:', error);
     
+    if (error instanceof PayloadTooLargeError) {
+      return payloadTooLargeResponse();
+    }
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: 'Request body must be valid JSON' },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof DuplicateSubmissionError) {
+      return NextResponse.json(
+        {
+          error: 'Duplicate submission',
+          duplicateOfId: error.duplicateOfId
+        },
+        { status: 409 }
+      );
+    }
+
     if (error instanceof z.ZodError) {
       return NextResponse.json(
         { 
@@ -120,17 +138,36 @@ export async function POST(request: NextRequest) {
   }
 }
 
-export async function GET() {
+export const POST = withIdempotency(register, { rateLimitScope: 'registration' });
+
+export async function GET(request: NextRequest) {
+  const denied = await requireRole(request, 'VIEWER');
+  if (denied) return denied;
+
   try {
+    const query = parseRegistrationQuery(request.nextUrl.searchParams);
+
     const registrations = await withRetry(() =>
       prisma.registration.findMany({
-        orderBy: { createdAt: 'desc' },
+        where: buildRegistrationWhere(query),
+        orderBy: buildRegistrationOrderBy(query),
       })
     );
     
     return NextResponse.json(registrations);
   } catch (error) {
     console.error('Error fetching registrations:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid query parameters',
+          details: error.issues
+        },
+        { status: 400 }
+      );
+    }
+
     return NextResponse.json(
       { error: 'Internal server error' },
       { status: 500 }
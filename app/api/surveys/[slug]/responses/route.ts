@@ -0,0 +1,148 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { withRetry } from '@/lib/retry';
+import { requireRole } from '@/lib/auth';
+import {
+  buildSurveyAnswersSchema,
+  compactAnswers,
+  surveyDefinitionSchema,
+  surveyResponseSubmissionSchema,
+} from '@/lib/survey-definition';
+import { withIdempotency } from '@/lib/idempotency';
+import {
+  PayloadTooLargeError,
+  payloadTooLargeResponse,
+  readJsonBody,
+} from '@/lib/spam-protection';
+import { z } from 'zod';
+
+const responseQuerySchema = z.object({
+  version: z.coerce.number().int().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+async function submitResponse(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const { slug } = await params;
+    const body = await readJsonBody(request);
+    const submission = surveyResponseSubmissionSchema.parse(body);
+
+    // Answers are checked against the version the form was rendered from, even
+    // if a newer version has been published since
+    const surveyVersion = await withRetry(() =>
+      prisma.surveyVersion.findFirst({
+        where: { id: submission.surveyVersionId, survey: { slug, isActive: true } },
+      })
+    );
+
+    if (!surveyVersion) {
+      return NextResponse.json(
+        { error: 'Survey not found' },
+        { status: 404 }
+      );
+    }
+
+    const definition = surveyDefinitionSchema.parse(surveyVersion.definition);
+    const answers = compactAnswers(buildSurveyAnswersSchema(definition).parse(submission.answers));
+
+    const surveyResponse = await withRetry(() =>
+      prisma.surveyResponse.create({
+        data: {
+          surveyVersionId: surveyVersion.id,
+          answers: answers as Prisma.InputJsonObject,
+        },
+      })
+    );
+
+    return NextResponse.json(
+      {
+        message: 'Survey response submitted successfully',
+        id: surveyResponse.id
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Survey response submission error:', error);
+
+    if (error instanceof PayloadTooLargeError) {
+      return payloadTooLargeResponse();
+    }
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: 'Request body must be valid JSON' },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.issues
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withIdempotency(submitResponse, { rateLimitScope: 'survey-response' });
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  const denied = await requireRole(request, 'VIEWER');
+  if (denied) return denied;
+
+  try {
+    const { slug } = await params;
+    const searchParams = Object.fromEntries(
+      [...request.nextUrl.searchParams.entries()].filter(([, value]) => value !== '')
+    );
+    const query = responseQuerySchema.parse(searchParams);
+
+    const responses = await withRetry(() =>
+      prisma.surveyResponse.findMany({
+        where: {
+          surveyVersion: {
+            survey: { slug },
+            ...(query.version && { version: query.version }),
+          },
+        },
+        include: { surveyVersion: { select: { id: true, version: true } } },
+        orderBy: { createdAt: 'desc' },
+        take: query.limit,
+      })
+    );
+
+    return NextResponse.json(responses);
+  } catch (error) {
+    console.error('Error fetching survey responses:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid query parameters',
+          details: error.issues
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
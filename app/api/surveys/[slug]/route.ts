@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { withRetry } from '@/lib/retry';
+import { getSession, hasRole, requireRole } from '@/lib/auth';
+import { surveyUpdateSchema } from '@/lib/survey-definition';
+import { latestVersionInclude, toPublishedSurvey } from '@/lib/surveys';
+import { z } from 'zod';
+
+// Public: the latest version of a survey, used to render the form
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const { slug } = await params;
+    const isStaff = hasRole(await getSession(request), 'VIEWER');
+
+    const survey = await withRetry(() =>
+      prisma.survey.findUnique({
+        where: { slug },
+        include: latestVersionInclude,
+      })
+    );
+
+    // Staff can preview a survey that has been taken offline
+    const published = survey && (survey.isActive || isStaff) ? toPublishedSurvey(survey) : null;
+
+    if (!published) {
+      return NextResponse.json(
+        { error: 'Survey not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(published);
+  } catch (error) {
+    console.error('Error fetching survey:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  const denied = await requireRole(request, 'ADMIN');
+  if (denied) return denied;
+
+  try {
+    const { slug } = await params;
+    const body = await request.json();
+    const validatedData = surveyUpdateSchema.parse(body);
+
+    const existing = await withRetry(() =>
+      prisma.survey.findUnique({ where: { slug } })
+    );
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Survey not found' },
+        { status: 404 }
+      );
+    }
+
+    const survey = await withRetry(() =>
+      prisma.survey.update({
+        where: { slug },
+        data: validatedData,
+      })
+    );
+
+    return NextResponse.json(survey);
+  } catch (error) {
+    console.error('Error updating survey:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.issues
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { withRetry } from '@/lib/retry';
+import { getSession, requireRole } from '@/lib/auth';
+import { surveyVersionCreateSchema } from '@/lib/survey-definition';
+import { isUniqueConstraintError } from '@/lib/prisma-errors';
+import { withIdempotency } from '@/lib/idempotency';
+import { z } from 'zod';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  const denied = await requireRole(request, 'VIEWER');
+  if (denied) return denied;
+
+  try {
+    const { slug } = await params;
+
+    const survey = await withRetry(() =>
+      prisma.survey.findUnique({
+        where: { slug },
+        include: {
+          versions: {
+            orderBy: { version: 'desc' },
+            include: { _count: { select: { responses: true } } },
+          },
+        },
+      })
+    );
+
+    if (!survey) {
+      return NextResponse.json(
+        { error: 'Survey not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(survey.versions);
+  } catch (error) {
+    console.error('Error fetching survey versions:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Publishing never edits an existing version, so earlier responses keep the
+// questions they were actually asked
+async function publishVersion(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  const denied = await requireRole(request, 'ADMIN');
+  if (denied) return denied;
+
+  try {
+    const { slug } = await params;
+    const session = (await getSession(request))!;
+    const body = await request.json();
+    const validatedData = surveyVersionCreateSchema.parse(body);
+
+    const survey = await withRetry(() =>
+      prisma.survey.findUnique({
+        where: { slug },
+        include: { versions: { orderBy: { version: 'desc' }, take: 1 } },
+      })
+    );
+
+    if (!survey) {
+      return NextResponse.json(
+        { error: 'Survey not found' },
+        { status: 404 }
+      );
+    }
+
+    const version = await withRetry(() =>
+      prisma.surveyVersion.create({
+        data: {
+          surveyId: survey.id,
+          version: (survey.versions[0]?.version ?? 0) + 1,
+          definition: validatedData.definition as Prisma.InputJsonObject,
+          createdBy: session.email,
+        },
+      })
+    );
+
+    return NextResponse.json(version, { status: 201 });
+  } catch (error) {
+    console.error('Error publishing survey version:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.issues
+        },
+        { status: 400 }
+      );
+    }
+
+    if (isUniqueConstraintError(error)) {
+      return NextResponse.json(
+        { error: 'Another version was published at the same time, reload and try again' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withIdempotency(publishVersion);
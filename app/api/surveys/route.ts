@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { withRetry } from '@/lib/retry';
+import { getSession, requireRole } from '@/lib/auth';
+import { surveyCreateSchema } from '@/lib/survey-definition';
+import { isUniqueConstraintError } from '@/lib/prisma-errors';
+import { surveyListInclude } from '@/lib/surveys';
+import { withIdempotency } from '@/lib/idempotency';
+import { z } from 'zod';
+
+export async function GET(request: NextRequest) {
+  const denied = await requireRole(request, 'VIEWER');
+  if (denied) return denied;
+
+  try {
+    const surveys = await withRetry(() =>
+      prisma.survey.findMany({
+        include: surveyListInclude,
+        orderBy: { createdAt: 'desc' },
+      })
+    );
+
+    return NextResponse.json(surveys);
+  } catch (error) {
+    console.error('Error fetching surveys:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+async function createSurvey(request: NextRequest) {
+  const denied = await requireRole(request, 'ADMIN');
+  if (denied) return denied;
+
+  try {
+    const session = (await getSession(request))!;
+    const body = await request.json();
+    const validatedData = surveyCreateSchema.parse(body);
+
+    const survey = await withRetry(() =>
+      prisma.survey.create({
+        data: {
+          slug: validatedData.slug,
+          title: validatedData.title,
+          description: validatedData.description || null,
+          versions: {
+            create: {
+              version: 1,
+              definition: validatedData.definition as Prisma.InputJsonObject,
+              createdBy: session.email,
+            },
+          },
+        },
+        include: surveyListInclude,
+      })
+    );
+
+    return NextResponse.json(survey, { status: 201 });
+  } catch (error) {
+    console.error('Error creating survey:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.issues
+        },
+        { status: 400 }
+      );
+    }
+
+    if (isUniqueConstraintError(error)) {
+      return NextResponse.json(
+        { error: 'A survey with this slug already exists' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withIdempotency(createSurvey);
@@ -1,7 +1,11 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { requireRole } from '@/lib/auth';
+
+export async function GET(request: NextRequest) {
+  const denied = await requireRole(request, 'ADMIN');
+  if (denied) return denied;
 
-export async function GET() {
   try {
     // Test database connection
     await prisma.$connect();
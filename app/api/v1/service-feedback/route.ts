@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { createServiceFeedback, serviceFeedbackSubmissionSchema } from '@/lib/feedback-submissions';
+import { DuplicateSubmissionError, serviceFeedbackContacts } from '@/lib/duplicate-submissions';
+import { withIdempotency } from '@/lib/idempotency';
+import { notifySubmission } from '@/lib/notifications';
+import { emitWebhookEvent } from '@/lib/webhooks';
+import { localeFrom, validationErrorMap } from '@/lib/i18n';
+import {
+  PayloadTooLargeError,
+  limitByContact,
+  moderationFor,
+  payloadTooLargeResponse,
+  readJsonBody,
+} from '@/lib/spam-protection';
+import { z } from 'zod';
+
+async function submitServiceFeedback(request: NextRequest) {
+  try {
+    const body = await readJsonBody(request);
+
+    // `kind` is implied by the endpoint; a conflicting one fails validation
+    const submission = serviceFeedbackSubmissionSchema.parse(
+      { kind: 'service', ...body },
+      { error: validationErrorMap(localeFrom(body?.locale)) }
+    );
+
+    const contactLimited = await limitByContact('feedback', serviceFeedbackContacts(submission));
+    if (contactLimited) return contactLimited;
+
+    const serviceFeedback = await createServiceFeedback(submission, moderationFor(request, body));
+    after(() => notifySubmission({ type: 'service', record: serviceFeedback }));
+    after(() => emitWebhookEvent('service_feedback.created', serviceFeedback));
+
+    return NextResponse.json(
+      {
+        message: 'Service feedback submitted successfully',
+        id: serviceFeedback.id
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Service feedback submission error:', error);
+
+    if (error instanceof PayloadTooLargeError) {
+      return payloadTooLargeResponse();
+    }
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: 'Request body must be valid JSON' },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof DuplicateSubmissionError) {
+      return NextResponse.json(
+        {
+          error: 'Duplicate submission',
+          duplicateOfId: error.duplicateOfId
+        },
+        { status: 409 }
+      );
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.issues
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withIdempotency(submitServiceFeedback, { rateLimitScope: 'feedback' });
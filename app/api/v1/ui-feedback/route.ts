@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { createUIFeedback, uiFeedbackSubmissionSchema } from '@/lib/feedback-submissions';
+import { DuplicateSubmissionError, uiFeedbackContacts } from '@/lib/duplicate-submissions';
+import { withIdempotency } from '@/lib/idempotency';
+import { notifySubmission } from '@/lib/notifications';
+import { emitWebhookEvent } from '@/lib/webhooks';
+import {
+  PayloadTooLargeError,
+  limitByContact,
+  moderationFor,
+  payloadTooLargeResponse,
+  readJsonBody,
+} from '@/lib/spam-protection';
+import { z } from 'zod';
+
+async function submitUIFeedback(request: NextRequest) {
+  try {
+    const body = await readJsonBody(request);
+
+    // `kind` is implied by the endpoint; a conflicting one fails validation
+    const submission = uiFeedbackSubmissionSchema.parse({ kind: 'ui', ...body });
+
+    const contactLimited = await limitByContact('feedback', uiFeedbackContacts(submission));
+    if (contactLimited) return contactLimited;
+
+    const feedback = await createUIFeedback(submission, moderationFor(request, body));
+    after(() => notifySubmission({ type: 'ui', record: feedback }));
+    after(() => emitWebhookEvent('ui_feedback.created', feedback));
+
+    return NextResponse.json(
+      {
+        message: 'Feedback submitted successfully',
+        id: feedback.id
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('UI feedback submission error:', error);
+
+    if (error instanceof PayloadTooLargeError) {
+      return payloadTooLargeResponse();
+    }
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: 'Request body must be valid JSON' },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof DuplicateSubmissionError) {
+      return NextResponse.json(
+        {
+          error: 'Duplicate submission',
+          duplicateOfId: error.duplicateOfId
+        },
+        { status: 409 }
+      );
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.issues
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withIdempotency(submitUIFeedback, { rateLimitScope: 'feedback' });
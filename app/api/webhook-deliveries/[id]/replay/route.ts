@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { withRetry } from '@/lib/retry';
+import { requireRole } from '@/lib/auth';
+import { replayDelivery } from '@/lib/webhooks';
+
+// Sends a failed delivery once more and answers with the outcome
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const denied = await requireRole(request, 'ADMIN');
+  if (denied) return denied;
+
+  try {
+    const { id } = await params;
+
+    const existing = await withRetry(() =>
+      prisma.webhookDelivery.findUnique({ where: { id }, select: { id: true } })
+    );
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Webhook delivery not found' },
+        { status: 404 }
+      );
+    }
+
+    const delivery = await replayDelivery(id);
+
+    if (!delivery) {
+      return NextResponse.json(
+        { error: 'Only failed deliveries can be replayed' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(delivery);
+  } catch (error) {
+    console.error('Error replaying webhook delivery:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { timingSafeEqual } from 'crypto';
+import { requireRole } from '@/lib/auth';
+import { retryDueDeliveries } from '@/lib/webhooks';
+
+// Schedulers authenticate with `Authorization: Bearer $CRON_SECRET` instead of a session
+function isScheduler(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return false;
+
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const actual = Buffer.from(request.headers.get('authorization') ?? '');
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+// Sends the deliveries whose retry time has come
+export async function POST(request: NextRequest) {
+  if (!isScheduler(request)) {
+    const denied = await requireRole(request, 'ADMIN');
+    if (denied) return denied;
+  }
+
+  try {
+    const attempted = await retryDueDeliveries();
+
+    return NextResponse.json({ attempted });
+  } catch (error) {
+    console.error('Error retrying webhook deliveries:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
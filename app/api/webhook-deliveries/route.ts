@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { WebhookDeliveryStatus } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { withRetry } from '@/lib/retry';
+import { requireRole } from '@/lib/auth';
+import { z } from 'zod';
+
+const DELIVERY_LIMIT = 100;
+
+const deliveryQuerySchema = z.object({
+  status: z.enum(WebhookDeliveryStatus).optional(),
+  endpointId: z.string().optional(),
+});
+
+// Latest deliveries, newest first, optionally for one endpoint or status
+export async function GET(request: NextRequest) {
+  const denied = await requireRole(request, 'ADMIN');
+  if (denied) return denied;
+
+  try {
+    const query = deliveryQuerySchema.parse(Object.fromEntries(request.nextUrl.searchParams));
+
+    const deliveries = await withRetry(() =>
+      prisma.webhookDelivery.findMany({
+        where: { status: query.status, endpointId: query.endpointId },
+        include: { endpoint: { select: { id: true, name: true, url: true } } },
+        orderBy: { createdAt: 'desc' },
+        take: DELIVERY_LIMIT,
+      })
+    );
+
+    return NextResponse.json(deliveries);
+  } catch (error) {
+    console.error('Error fetching webhook deliveries:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid query parameters',
+          details: error.issues
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { withRetry } from '@/lib/retry';
+import { requireRole } from '@/lib/auth';
+import { generateWebhookSecret, webhookEndpointSchema } from '@/lib/webhooks';
+import { z } from 'zod';
+
+const rotateSchema = z.object({
+  rotateSecret: z.boolean().optional(),
+});
+
+// Accepts any subset of the endpoint's fields, plus `rotateSecret: true` to issue a new secret
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const denied = await requireRole(request, 'ADMIN');
+  if (denied) return denied;
+
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    const existing = await withRetry(() =>
+      prisma.webhookEndpoint.findUnique({ where: { id } })
+    );
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Webhook endpoint not found' },
+        { status: 404 }
+      );
+    }
+
+    const validatedData = webhookEndpointSchema.parse({ ...existing, ...body });
+    const { rotateSecret } = rotateSchema.parse(body);
+
+    const endpoint = await withRetry(() =>
+      prisma.webhookEndpoint.update({
+        where: { id },
+        data: {
+          ...validatedData,
+          ...(rotateSecret && { secret: generateWebhookSecret() }),
+        },
+      })
+    );
+
+    return NextResponse.json(endpoint);
+  } catch (error) {
+    console.error('Error updating webhook endpoint:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.issues
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Removes the endpoint's delivery log with it
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const denied = await requireRole(request, 'ADMIN');
+  if (denied) return denied;
+
+  try {
+    const { id } = await params;
+
+    const { count } = await withRetry(() =>
+      prisma.webhookEndpoint.deleteMany({ where: { id } })
+    );
+
+    if (count === 0) {
+      return NextResponse.json(
+        { error: 'Webhook endpoint not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ message: 'Webhook endpoint deleted' });
+  } catch (error) {
+    console.error('Error deleting webhook endpoint:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { withRetry } from '@/lib/retry';
+import { requireRole } from '@/lib/auth';
+import { generateWebhookSecret, webhookEndpointSchema } from '@/lib/webhooks';
+import { z } from 'zod';
+
+export async function GET(request: NextRequest) {
+  const denied = await requireRole(request, 'ADMIN');
+  if (denied) return denied;
+
+  try {
+    const endpoints = await withRetry(() =>
+      prisma.webhookEndpoint.findMany({
+        orderBy: { createdAt: 'asc' },
+        include: { _count: { select: { deliveries: { where: { status: 'FAILED' } } } } },
+      })
+    );
+
+    return NextResponse.json(endpoints);
+  } catch (error) {
+    console.error('Error fetching webhook endpoints:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// The signing secret is generated here, never chosen by the caller
+export async function POST(request: NextRequest) {
+  const denied = await requireRole(request, 'ADMIN');
+  if (denied) return denied;
+
+  try {
+    const body = await request.json();
+    const validatedData = webhookEndpointSchema.parse(body);
+
+    const endpoint = await withRetry(() =>
+      prisma.webhookEndpoint.create({
+        data: { ...validatedData, secret: generateWebhookSecret() },
+      })
+    );
+
+    return NextResponse.json(endpoint, { status: 201 });
+  } catch (error) {
+    console.error('Error creating webhook endpoint:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.issues
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
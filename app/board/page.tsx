@@ -0,0 +1,254 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChevronDownIcon, ChevronUpIcon, MessageSquareIcon } from "lucide-react";
+import { toast } from "sonner";
+import Header from "../header";
+
+interface BoardItem {
+  id: string;
+  title: string;
+  description: string;
+  feedbackType: string;
+  status: string;
+  createdAt: string;
+  upvotes: number;
+  downvotes: number;
+  score: number;
+  myVote: "UPVOTE" | "DOWNVOTE" | null;
+  responses: {
+    id: string;
+    authorName?: string;
+    authorRole?: string;
+    response: string;
+    createdAt: string;
+  }[];
+}
+
+const VOTER_EMAIL_KEY = "feedback-board-voter-email";
+
+const statusLabels: Record<string, string> = {
+  OPEN: "Under Review",
+  IN_PROGRESS: "In Progress",
+  RESOLVED: "Shipped",
+  CLOSED: "Closed",
+  WONT_FIX: "Not Planned",
+};
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+
+export default function FeedbackBoardPage() {
+  const [items, setItems] = useState<BoardItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [sort, setSort] = useState<"score" | "recent">("score");
+  const [voterEmail, setVoterEmail] = useState("");
+  const [emailInput, setEmailInput] = useState("");
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  // The voter email is remembered in this browser so it needn't be typed again
+  useEffect(() => {
+    const saved = window.localStorage.getItem(VOTER_EMAIL_KEY);
+    if (saved) {
+      setVoterEmail(saved);
+      setEmailInput(saved);
+    }
+  }, []);
+
+  const fetchItems = useCallback(async () => {
+    try {
+      // Your own votes come from the cookie the vote endpoint sets, not from the email
+      const params = new URLSearchParams({ sort });
+
+      const response = await fetch(`/api/board?${params}`);
+      if (!response.ok) {
+        throw new Error("Failed to load the feedback board");
+      }
+      setItems(await response.json());
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to load the feedback board");
+    } finally {
+      setLoading(false);
+    }
+  }, [sort]);
+
+  useEffect(() => {
+    fetchItems();
+  }, [fetchItems]);
+
+  const saveEmail = () => {
+    const email = emailInput.trim().toLowerCase();
+    if (!/^\S+@\S+\.\S+$/.test(email)) {
+      toast.error("Please enter a valid email to vote");
+      return;
+    }
+    window.localStorage.setItem(VOTER_EMAIL_KEY, email);
+    setVoterEmail(email);
+  };
+
+  const vote = async (item: BoardItem, voteType: "UPVOTE" | "DOWNVOTE") => {
+    if (!voterEmail) {
+      toast.error("Enter your email above to vote");
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/board/${item.id}/vote`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ voterEmail, voteType }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result?.error || "Failed to record vote");
+      }
+
+      setItems(prev => prev.map(existing => (existing.id === result.id ? result : existing)));
+    } catch (error) {
+      toast.error("Could not record your vote", {
+        description: error instanceof Error ? error.message : "Please try again later.",
+      });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-zinc-50 font-sans dark:bg-black">
+      <Header />
+      <div className="w-full max-w-4xl mx-auto p-4 space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold">Feature Requests & Improvements</h1>
+          <p className="text-muted-foreground">
+            Vote for the requests that matter most to you. One vote per person on each request.
+          </p>
+        </div>
+
+        <Card>
+          <CardContent className="flex flex-col md:flex-row md:items-end gap-4 pt-6">
+            <div className="flex-1 space-y-2">
+              <Label htmlFor="voterEmail">Your email</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="voterEmail"
+                  type="email"
+                  placeholder="you@company.com"
+                  value={emailInput}
+                  onChange={(e) => setEmailInput(e.target.value)}
+                />
+                <Button variant="outline" onClick={saveEmail}>
+                  {voterEmail ? "Update" : "Start Voting"}
+                </Button>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Sort By</Label>
+              <Select value={sort} onValueChange={(value) => setSort(value as "score" | "recent")}>
+                <SelectTrigger className="w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="score">Top voted</SelectItem>
+                  <SelectItem value="recent">Most recent</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </CardContent>
+        </Card>
+
+        {loading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="text-lg">Loading requests...</div>
+          </div>
+        ) : items.length === 0 ? (
+          <Card>
+            <CardContent className="p-6 text-center text-muted-foreground">
+              No feature requests yet.
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid gap-4">
+            {items.map((item) => (
+              <Card key={item.id}>
+                <CardHeader className="flex flex-row gap-4 space-y-0">
+                  {/* Voting */}
+                  <div className="flex flex-col items-center">
+                    <Button
+                      variant={item.myVote === "UPVOTE" ? "default" : "ghost"}
+                      size="icon"
+                      onClick={() => vote(item, "UPVOTE")}
+                      aria-label="Upvote"
+                    >
+                      <ChevronUpIcon className="h-5 w-5" />
+                    </Button>
+                    <span className="font-semibold" title={`${item.upvotes} up, ${item.downvotes} down`}>
+                      {item.score}
+                    </span>
+                    <Button
+                      variant={item.myVote === "DOWNVOTE" ? "default" : "ghost"}
+                      size="icon"
+                      onClick={() => vote(item, "DOWNVOTE")}
+                      aria-label="Downvote"
+                    >
+                      <ChevronDownIcon className="h-5 w-5" />
+                    </Button>
+                  </div>
+
+                  <div className="flex-1 space-y-2">
+                    <div className="flex flex-wrap items-start justify-between gap-2">
+                      <CardTitle className="text-lg">{item.title}</CardTitle>
+                      <div className="flex gap-2">
+                        <Badge variant="outline">
+                          {item.feedbackType === "FEATURE_REQUEST" ? "Feature" : "Improvement"}
+                        </Badge>
+                        <Badge variant="secondary">{statusLabels[item.status] || item.status}</Badge>
+                      </div>
+                    </div>
+                    <CardDescription className="whitespace-pre-wrap">{item.description}</CardDescription>
+                    <div className="flex items-center gap-4 text-xs text-muted-foreground">
+                      <span>{formatDate(item.createdAt)}</span>
+                      {item.responses.length > 0 && (
+                        <button
+                          type="button"
+                          className="flex items-center gap-1 hover:underline"
+                          onClick={() => setExpanded(expanded === item.id ? null : item.id)}
+                        >
+                          <MessageSquareIcon className="h-3 w-3" />
+                          {item.responses.length} {item.responses.length === 1 ? "reply" : "replies"} from our team
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                </CardHeader>
+
+                {expanded === item.id && (
+                  <CardContent className="space-y-2">
+                    {item.responses.map((response) => (
+                      <div key={response.id} className="text-sm bg-muted p-3 rounded-md">
+                        <p className="whitespace-pre-wrap">{response.response}</p>
+                        <div className="text-xs text-muted-foreground mt-1">
+                          {response.authorName || "Our team"} • {formatDate(response.createdAt)}
+                        </div>
+                      </div>
+                    ))}
+                  </CardContent>
+                )}
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
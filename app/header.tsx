@@ -1,10 +1,20 @@
 "use client";
 import Link from "next/link";
+import { usePathname } from "next/navigation";
 import { Button } from "@/components/ui/button";
 import { ModeToggle } from "@/app/mode-toggle";
+import { LanguageSwitcher } from "@/app/language-switcher";
+import { useI18n } from "@/components/i18n-provider";
+import { NotificationBell } from "@/components/notification-bell";
 
 export default function Header() {
-  const links = [{ to: "/", label: "Service Feedback" }] as const;
+  const { messages } = useI18n();
+  // Only staff pages check for notifications
+  const isAdmin = usePathname().startsWith("/admin");
+  const links = [
+    { to: "/", label: messages.header.serviceFeedback },
+    { to: "/board", label: messages.header.featureBoard },
+  ] as const;
 
   return (
     <div>
@@ -19,11 +29,13 @@ export default function Header() {
           })}
         </nav>
         <div className="flex items-center gap-2">
-          <Link href="/admin">
-            <Button variant="outline" size="sm" className="hidden">
-              View Registrations Admin
+          <Link href="/admin/registrations">
+            <Button variant="outline" size="sm">
+              {messages.header.registrationsAdmin}
             </Button>
           </Link>
+          {isAdmin && <NotificationBell />}
+          <LanguageSwitcher />
           <ModeToggle />
         </div>
       </div>
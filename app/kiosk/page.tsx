@@ -0,0 +1,367 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState, useSyncExternalStore } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import Link from "next/link";
+import { toast } from "sonner";
+import RegistrationForm from "@/components/registration-form";
+import CoffeeEventRatingForm from "@/components/ui-feedback-form";
+import { useI18n } from "@/components/i18n-provider";
+import { LanguageSwitcher } from "@/app/language-switcher";
+
+// Kept on the device so a reloaded or rebooted tablet comes straight back into kiosk mode
+const CONFIG_KEY = "kiosk-config";
+const CONFIG_EVENT = "kiosk-config-change";
+
+// Untouched forms are cleared and the kiosk goes back to the first form after this long
+const IDLE_TIMEOUT_MS = 90 * 1000;
+
+// Labels come from the locale, see kiosk.forms in lib/locales
+const kioskForms = [{ id: "registration" }, { id: "event-rating" }] as const;
+
+type KioskFormId = (typeof kioskForms)[number]["id"];
+
+interface KioskConfig {
+  sourceEvent: string;
+  forms: KioskFormId[];
+  token: string; // From POST /api/kiosk; carries the signed exit PIN and lifts the per-IP limit
+  expiresAt: string;
+}
+
+// An expired kiosk goes back to setup, which needs a staff member to sign in again
+function parseConfig(raw: string | null): KioskConfig | null {
+  if (!raw) return null;
+  try {
+    const config = JSON.parse(raw);
+    const forms = kioskForms.map(({ id }) => id).filter((id) => config.forms?.includes(id));
+    if (typeof config.sourceEvent !== "string" || typeof config.token !== "string" || forms.length === 0) return null;
+    if (!(new Date(config.expiresAt).getTime() > Date.now())) return null;
+    return { sourceEvent: config.sourceEvent, forms, token: config.token, expiresAt: config.expiresAt };
+  } catch {
+    return null;
+  }
+}
+
+function saveConfig(config: KioskConfig | null) {
+  if (config) {
+    localStorage.setItem(CONFIG_KEY, JSON.stringify(config));
+  } else {
+    localStorage.removeItem(CONFIG_KEY);
+  }
+  window.dispatchEvent(new Event(CONFIG_EVENT));
+}
+
+function subscribeToConfig(listener: () => void) {
+  window.addEventListener(CONFIG_EVENT, listener);
+  return () => window.removeEventListener(CONFIG_EVENT, listener);
+}
+
+// Calls onIdle once nobody has touched the screen for timeoutMs
+function useIdleTimeout(timeoutMs: number, onIdle: () => void) {
+  useEffect(() => {
+    const activity = ["pointerdown", "keydown", "input", "scroll"] as const;
+    let timer = setTimeout(onIdle, timeoutMs);
+
+    const restart = () => {
+      clearTimeout(timer);
+      timer = setTimeout(onIdle, timeoutMs);
+    };
+
+    activity.forEach((type) => window.addEventListener(type, restart, { passive: true }));
+    return () => {
+      clearTimeout(timer);
+      activity.forEach((type) => window.removeEventListener(type, restart));
+    };
+  }, [timeoutMs, onIdle]);
+}
+
+/**
+ * Needs a signed-in staff member, whose session ends when the kiosk starts.
+ * The PIN they choose is asked for to leave kiosk mode again.
+ */
+function KioskSetup({ onStart }: { onStart: (config: KioskConfig) => void }) {
+  const t = useI18n().messages.kiosk;
+  const [sourceEvent, setSourceEvent] = useState("");
+  const [forms, setForms] = useState<KioskFormId[]>(kioskForms.map(({ id }) => id));
+  const [pin, setPin] = useState("");
+  const [starting, setStarting] = useState(false);
+  const [signedOut, setSignedOut] = useState(false);
+
+  const toggleForm = (id: KioskFormId, checked: boolean) =>
+    setForms((current) => (checked ? [...current, id] : current.filter((form) => form !== id)));
+
+  const canStart = sourceEvent.trim() !== "" && forms.length > 0 && /^\d{4,8}$/.test(pin) && !starting;
+
+  const start = async () => {
+    setStarting(true);
+    try {
+      const response = await fetch("/api/kiosk", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ sourceEvent: sourceEvent.trim(), pin }),
+      });
+      if (response.status === 401) {
+        setSignedOut(true);
+        return;
+      }
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || t.startFailed);
+      }
+      onStart({ sourceEvent: result.sourceEvent, forms, token: result.token, expiresAt: result.expiresAt });
+    } catch (error) {
+      toast.error(t.startFailed, {
+        description: error instanceof Error ? error.message : t.tryAgain,
+      });
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-zinc-50 font-sans dark:bg-black flex items-center justify-center p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>{t.setupTitle}</CardTitle>
+          <CardDescription>{t.setupDescription}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {signedOut && (
+            <p className="mb-4 text-sm text-red-600">
+              {t.staffOnly}{" "}
+              <Link href="/login?from=/kiosk" className="underline">
+                {t.signIn}
+              </Link>
+            </p>
+          )}
+          <form
+            className="space-y-6"
+            onSubmit={(event) => {
+              event.preventDefault();
+              if (canStart) start();
+            }}
+          >
+            <div className="space-y-2">
+              <Label htmlFor="kiosk-event">{t.event}</Label>
+              <Input
+                id="kiosk-event"
+                placeholder={t.eventPlaceholder}
+                maxLength={100}
+                value={sourceEvent}
+                onChange={(event) => setSourceEvent(event.target.value)}
+              />
+            </div>
+            <div className="space-y-3">
+              <Label>{t.formsToShow}</Label>
+              {kioskForms.map(({ id }) => (
+                <div key={id} className="flex items-center gap-3">
+                  <Checkbox
+                    id={`kiosk-form-${id}`}
+                    checked={forms.includes(id)}
+                    onCheckedChange={(checked) => toggleForm(id, checked === true)}
+                  />
+                  <Label htmlFor={`kiosk-form-${id}`} className="font-normal">
+                    {t.forms[id]}
+                  </Label>
+                </div>
+              ))}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="kiosk-pin">{t.pin}</Label>
+              <Input
+                id="kiosk-pin"
+                type="password"
+                inputMode="numeric"
+                autoComplete="off"
+                placeholder={t.pinPlaceholder}
+                maxLength={8}
+                value={pin}
+                onChange={(event) => setPin(event.target.value.replace(/\D/g, ""))}
+              />
+              <p className="text-xs text-muted-foreground">{t.pinHint}</p>
+            </div>
+            <Button type="submit" className="w-full" disabled={!canStart}>
+              {starting ? t.starting : t.start}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+// Leaving kiosk mode takes the PIN chosen at setup, checked by the server
+function KioskExit({ token, onExit }: { token: string; onExit: () => void }) {
+  const t = useI18n().messages.kiosk;
+  const [open, setOpen] = useState(false);
+  const [pin, setPin] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const close = () => {
+    setOpen(false);
+    setPin("");
+    setError(null);
+  };
+
+  const exit = async () => {
+    try {
+      const response = await fetch("/api/kiosk/exit", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token, pin }),
+      });
+      if (response.ok) {
+        onExit();
+        return;
+      }
+      const result = await response.json().catch(() => null);
+      setError(result?.error || t.pinCheckFailed);
+      setPin("");
+    } catch {
+      setError(t.pinCheckFailed);
+    }
+  };
+
+  if (!open) {
+    return (
+      <button type="button" className="text-xs text-muted-foreground/40" onClick={() => setOpen(true)}>
+        {t.exitKiosk}
+      </button>
+    );
+  }
+
+  return (
+    <form
+      className="flex flex-wrap items-center gap-2"
+      onSubmit={(event) => {
+        event.preventDefault();
+        if (pin) exit();
+      }}
+    >
+      {error && <span className="text-sm text-red-600">{error}</span>}
+      <Input
+        aria-label={t.pin}
+        type="password"
+        inputMode="numeric"
+        autoComplete="off"
+        placeholder={t.pinShort}
+        maxLength={8}
+        className="w-28"
+        autoFocus
+        value={pin}
+        onChange={(event) => setPin(event.target.value.replace(/\D/g, ""))}
+      />
+      <Button type="submit" size="sm" disabled={!pin}>
+        {t.exit}
+      </Button>
+      <Button type="button" size="sm" variant="outline" onClick={close}>
+        {t.cancel}
+      </Button>
+    </form>
+  );
+}
+
+function KioskRunner({ config, onExit }: { config: KioskConfig; onExit: () => void }) {
+  const t = useI18n().messages.kiosk;
+  const [formIndex, setFormIndex] = useState(0);
+  // Bumped to remount the current form, which clears anything left in it
+  const [round, setRound] = useState(0);
+
+  const current = config.forms[formIndex % config.forms.length];
+
+  const showForm = (index: number) => {
+    setFormIndex(index);
+    setRound((value) => value + 1);
+  };
+
+  const reset = useCallback(() => {
+    setFormIndex(0);
+    setRound((value) => value + 1);
+  }, []);
+
+  useIdleTimeout(IDLE_TIMEOUT_MS, reset);
+
+  // Each submission hands the tablet on with the next form, scrolled to the top
+  const next = () => {
+    showForm((formIndex + 1) % config.forms.length);
+    window.scrollTo({ top: 0 });
+  };
+
+  return (
+    <div className="min-h-screen bg-zinc-50 font-sans dark:bg-black flex flex-col">
+      <div className="flex flex-wrap items-center justify-between gap-4 px-6 py-4">
+        <div>
+          <p className="text-sm text-muted-foreground">{t.welcome}</p>
+          <h1 className="text-2xl font-bold">{config.sourceEvent}</h1>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          {config.forms.length > 1 &&
+            config.forms.map((id, index) => (
+              <Button
+                key={id}
+                size="lg"
+                variant={id === current ? "default" : "outline"}
+                onClick={() => id !== current && showForm(index)}
+              >
+                {t.forms[id]}
+              </Button>
+            ))}
+          {/* Visitors pick their own language; the choice stays for the next one */}
+          <LanguageSwitcher />
+        </div>
+      </div>
+
+      <div className="flex-1 p-4">
+        <div className="w-full max-w-3xl mx-auto">
+          {current === "registration" ? (
+            <RegistrationForm
+              key={round}
+              sourceEvent={config.sourceEvent}
+              kioskToken={config.token}
+              onSubmitted={next}
+            />
+          ) : (
+            <CoffeeEventRatingForm
+              key={round}
+              sourceEvent={config.sourceEvent}
+              kioskToken={config.token}
+              onSubmitted={next}
+            />
+          )}
+        </div>
+      </div>
+
+      <div className="flex justify-end px-6 py-3">
+        <KioskExit key={round} token={config.token} onExit={onExit} />
+      </div>
+    </div>
+  );
+}
+
+export default function KioskPage() {
+  const rawConfig = useSyncExternalStore(
+    subscribeToConfig,
+    () => localStorage.getItem(CONFIG_KEY),
+    () => null
+  );
+  const config = useMemo(() => parseConfig(rawConfig), [rawConfig]);
+
+  const start = (next: KioskConfig) => {
+    saveConfig(next);
+    // Needs the click that started the kiosk; tablets that refuse still get the kiosk layout
+    document.documentElement.requestFullscreen?.().catch(() => {});
+  };
+
+  const exit = () => {
+    saveConfig(null);
+    if (document.fullscreenElement) {
+      document.exitFullscreen().catch(() => {});
+    }
+  };
+
+  return config ? <KioskRunner config={config} onExit={exit} /> : <KioskSetup onStart={start} />;
+}
@@ -0,0 +1,36 @@
+"use client";
+
+import { Languages } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useI18n } from "@/components/i18n-provider";
+import { localeNames, locales } from "@/lib/i18n";
+
+export function LanguageSwitcher() {
+  const { locale, messages, setLocale } = useI18n();
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Languages className="h-[1.2rem] w-[1.2rem]" />
+          {localeNames[locale]}
+          <span className="sr-only">{messages.header.language}</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {locales.map((option) => (
+          <DropdownMenuItem key={option} lang={option} onClick={() => setLocale(option)}>
+            {localeNames[option]}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -1,6 +1,7 @@
 "use client";
 
 import { zodResolver } from "@hookform/resolvers/zod";
+import { useRef } from "react";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
 import { Button } from "@/components/ui/button";
@@ -16,6 +17,7 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { toast } from "sonner";
+import { newIdempotencyKey } from "@/lib/utils";
 import Header from "./header";
 import UIFeedbackForm from "@/components/ui-feedback-form";
 import ServiceFeedbackForm from "@/components/service-feedback-form";
@@ -38,12 +40,15 @@ export default function Home() {
     },
   });
 
+  const idempotencyKey = useRef(newIdempotencyKey());
+
   const onSubmit = async (data: FormData) => {
     try {
       const response = await fetch("/api/registration", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
+          "Idempotency-Key": idempotencyKey.current,
         },
         body: JSON.stringify(data),
       });
@@ -66,6 +71,7 @@ export default function Home() {
 
       // Reset form after successful submission
       form.reset();
+      idempotencyKey.current = newIdempotencyKey();
       
       toast.success("Feedback submitted!", {
         description: "Thank you for your feedback.",
@@ -0,0 +1,56 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+import { Card, CardContent } from "@/components/ui/card";
+import Header from "../../header";
+import SurveyForm, { type SurveyFormSurvey } from "@/components/survey-form";
+
+export default function SurveyPage() {
+  const { slug } = useParams<{ slug: string }>();
+  const [survey, setSurvey] = useState<SurveyFormSurvey | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchSurvey = async () => {
+      try {
+        const response = await fetch(`/api/surveys/${slug}`);
+        if (response.status === 404) {
+          throw new Error("This survey is not available.");
+        }
+        if (!response.ok) {
+          throw new Error("Failed to load the survey");
+        }
+        setSurvey(await response.json());
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "An error occurred");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchSurvey();
+  }, [slug]);
+
+  return (
+    <div className="min-h-screen bg-zinc-50 font-sans dark:bg-black">
+      <Header />
+      <div className="w-full p-4">
+        {loading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="text-lg">Loading survey...</div>
+          </div>
+        ) : error || !survey ? (
+          <Card className="max-w-md mx-auto">
+            <CardContent className="p-6 text-center text-muted-foreground">
+              {error || "This survey is not available."}
+            </CardContent>
+          </Card>
+        ) : (
+          <SurveyForm key={survey.version.id} survey={survey} />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,179 @@
+"use client";
+
+import { useId, type Dispatch, type SetStateAction } from "react";
+import { toast } from "sonner";
+import { FileTextIcon, PaperclipIcon, XIcon } from "lucide-react";
+import { Label } from "@/components/ui/label";
+import { useI18n } from "@/components/i18n-provider";
+import { newIdempotencyKey } from "@/lib/utils";
+
+// Mirrors the server's limits in lib/attachments.ts
+const MAX_ATTACHMENTS = 5;
+const MAX_ATTACHMENT_BYTES = 5 * 1024 * 1024;
+const ACCEPTED_TYPES = "image/png,image/jpeg,image/gif,image/webp,application/pdf";
+const THUMBNAIL_SIZE = 320;
+
+export interface PendingAttachment {
+  key: string;
+  fileName: string;
+  previewUrl: string | null; // Local copy of an image, shown while the form is open
+  id: string | null; // Set once the upload is stored
+}
+
+// Ids to send with the submission; uploads still running are left out
+export const uploadedAttachmentIds = (attachments: PendingAttachment[]) =>
+  attachments.flatMap((attachment) => (attachment.id ? [attachment.id] : []));
+
+// Small JPEG the admin view shows instead of the full photo. Null for files the browser can't draw.
+async function makeThumbnail(file: File): Promise<Blob | null> {
+  if (!file.type.startsWith("image/")) return null;
+
+  try {
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+
+    const context = canvas.getContext("2d");
+    if (!context) return null;
+    // JPEG has no transparency, so transparent areas would otherwise turn black
+    context.fillStyle = "#fff";
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+
+    return await new Promise((resolve) => canvas.toBlob(resolve, "image/jpeg", 0.8));
+  } catch {
+    return null;
+  }
+}
+
+async function uploadFile(file: File): Promise<string> {
+  const body = new FormData();
+  body.append("file", file);
+  const thumbnail = await makeThumbnail(file);
+  if (thumbnail) body.append("thumbnail", thumbnail, "thumbnail.jpg");
+
+  const response = await fetch("/api/attachments", { method: "POST", body });
+  const result = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(result?.error || `Upload failed with status ${response.status}`);
+  }
+  return result.id;
+}
+
+/**
+ * Uploads files as soon as they are picked, so the submission itself only
+ * carries their ids. The parent owns the list and clears it after submitting.
+ */
+export function AttachmentField({
+  value,
+  onChange,
+}: {
+  value: PendingAttachment[];
+  onChange: Dispatch<SetStateAction<PendingAttachment[]>>;
+}) {
+  const { messages } = useI18n();
+  const t = messages.attachments;
+  const inputId = useId();
+
+  const remove = (key: string) =>
+    onChange((current) =>
+      current.filter((attachment) => {
+        if (attachment.key !== key) return true;
+        if (attachment.previewUrl) URL.revokeObjectURL(attachment.previewUrl);
+        return false;
+      })
+    );
+
+  const addFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+    if (!navigator.onLine) {
+      toast.error(t.offline);
+      return;
+    }
+
+    const room = MAX_ATTACHMENTS - value.length;
+    if (files.length > room) toast.error(t.tooMany(MAX_ATTACHMENTS));
+
+    await Promise.all(
+      files.slice(0, room).map(async (file) => {
+        if (file.size > MAX_ATTACHMENT_BYTES) {
+          toast.error(t.tooLarge(file.name));
+          return;
+        }
+
+        const key = newIdempotencyKey();
+        const previewUrl = file.type.startsWith("image/") ? URL.createObjectURL(file) : null;
+        onChange((current) => [...current, { key, fileName: file.name, previewUrl, id: null }]);
+
+        try {
+          const id = await uploadFile(file);
+          onChange((current) => current.map((attachment) => (attachment.key === key ? { ...attachment, id } : attachment)));
+        } catch (error) {
+          remove(key);
+          toast.error(t.failed(file.name), {
+            description: error instanceof Error ? error.message : undefined,
+          });
+        }
+      })
+    );
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={inputId}>{t.label}</Label>
+      <p className="text-sm text-muted-foreground">{t.hint(MAX_ATTACHMENTS)}</p>
+      <div className="flex flex-wrap gap-2">
+        {value.map((attachment) => (
+          <div
+            key={attachment.key}
+            className={`relative h-20 w-20 overflow-hidden rounded-md border bg-muted ${attachment.id ? "" : "opacity-50"}`}
+            title={attachment.id ? attachment.fileName : t.uploading}
+          >
+            {attachment.previewUrl ? (
+              // eslint-disable-next-line @next/next/no-img-element -- a local blob: URL, which next/image can't optimise
+              <img src={attachment.previewUrl} alt={attachment.fileName} className="h-full w-full object-cover" />
+            ) : (
+              <div className="flex h-full flex-col items-center justify-center gap-1 p-1 text-xs">
+                <FileTextIcon className="h-5 w-5 shrink-0" />
+                <span className="w-full truncate text-center">{attachment.fileName}</span>
+              </div>
+            )}
+            {attachment.id && (
+              <button
+                type="button"
+                aria-label={t.remove(attachment.fileName)}
+                onClick={() => remove(attachment.key)}
+                className="absolute top-1 right-1 rounded-full bg-black/60 p-0.5 text-white"
+              >
+                <XIcon className="h-3 w-3" />
+              </button>
+            )}
+          </div>
+        ))}
+        {value.length < MAX_ATTACHMENTS && (
+          <label
+            htmlFor={inputId}
+            className="flex h-20 w-20 cursor-pointer flex-col items-center justify-center gap-1 rounded-md border border-dashed text-xs text-muted-foreground hover:bg-muted"
+          >
+            <PaperclipIcon className="h-4 w-4" />
+            {t.add}
+          </label>
+        )}
+      </div>
+      <input
+        id={inputId}
+        type="file"
+        accept={ACCEPTED_TYPES}
+        multiple
+        className="sr-only"
+        onChange={(event) => {
+          addFiles(Array.from(event.target.files ?? []));
+          event.target.value = "";
+        }}
+      />
+    </div>
+  );
+}
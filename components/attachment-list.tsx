@@ -0,0 +1,53 @@
+import { FileTextIcon } from "lucide-react";
+
+export interface AttachmentSummary {
+  id: string;
+  fileName: string;
+  contentType: string;
+  size: number;
+}
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+// Staff view of a submission's files: thumbnails for images, a download link for anything else
+export function AttachmentList({ attachments }: { attachments: AttachmentSummary[] }) {
+  if (attachments.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {attachments.map((attachment) => {
+        const url = `/api/attachments/${attachment.id}`;
+
+        return attachment.contentType.startsWith("image/") ? (
+          <a
+            key={attachment.id}
+            href={url}
+            target="_blank"
+            rel="noopener noreferrer"
+            title={`${attachment.fileName} (${formatSize(attachment.size)})`}
+            className="block h-20 w-20 overflow-hidden rounded-md border bg-muted"
+          >
+            {/* eslint-disable-next-line @next/next/no-img-element -- served by a signed-in API route, which next/image can't fetch */}
+            <img
+              src={`${url}?variant=thumbnail`}
+              alt={attachment.fileName}
+              loading="lazy"
+              className="h-full w-full object-cover"
+            />
+          </a>
+        ) : (
+          <a
+            key={attachment.id}
+            href={url}
+            className="flex h-20 items-center gap-2 rounded-md border px-3 text-sm hover:bg-muted"
+          >
+            <FileTextIcon className="h-4 w-4 shrink-0" />
+            <span className="max-w-40 truncate">{attachment.fileName}</span>
+            <span className="text-muted-foreground">{formatSize(attachment.size)}</span>
+          </a>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { LockIcon } from "lucide-react";
+import { toast } from "sonner";
+
+interface FeedbackResponse {
+  id: string;
+  authorName?: string;
+  authorEmail?: string;
+  authorRole?: string;
+  response: string;
+  isInternal: boolean;
+  createdAt: string;
+}
+
+const formatDateTime = (dateString: string) =>
+  new Date(dateString).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+// Staff conversation on a UI feedback item: public replies and internal-only notes
+export default function FeedbackConversation({ feedbackId }: { feedbackId: string }) {
+  const [responses, setResponses] = useState<FeedbackResponse[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [message, setMessage] = useState("");
+  const [isInternal, setIsInternal] = useState(false);
+  const [posting, setPosting] = useState(false);
+
+  const fetchResponses = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/feedback/ui/${feedbackId}/responses`);
+      if (!response.ok) {
+        throw new Error("Failed to load conversation");
+      }
+      setResponses(await response.json());
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to load conversation");
+    } finally {
+      setLoading(false);
+    }
+  }, [feedbackId]);
+
+  useEffect(() => {
+    fetchResponses();
+  }, [fetchResponses]);
+
+  const postResponse = async () => {
+    setPosting(true);
+    try {
+      const response = await fetch(`/api/feedback/ui/${feedbackId}/responses`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ response: message, isInternal }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result?.error || "Failed to post response");
+      }
+
+      setResponses(prev => [...prev, result]);
+      setMessage("");
+      setIsInternal(false);
+    } catch (error) {
+      toast.error("Could not post response", {
+        description: error instanceof Error ? error.message : "Please try again later.",
+      });
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <h4 className="font-semibold text-sm text-muted-foreground">Conversation</h4>
+
+      {loading ? (
+        <p className="text-sm text-muted-foreground">Loading conversation...</p>
+      ) : responses.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No responses yet.</p>
+      ) : (
+        <ol className="space-y-3">
+          {responses.map((response) => (
+            <li
+              key={response.id}
+              className={`text-sm p-3 rounded-md ${
+                response.isInternal
+                  ? "bg-yellow-50 dark:bg-yellow-900/20 border border-dashed border-yellow-300"
+                  : "bg-muted"
+              }`}
+            >
+              <div className="flex justify-between items-center mb-1">
+                <span className="font-medium">
+                  {response.authorName || response.authorEmail || "Staff"}
+                </span>
+                {response.isInternal && (
+                  <Badge variant="outline" className="gap-1">
+                    <LockIcon className="h-3 w-3" />
+                    Internal
+                  </Badge>
+                )}
+              </div>
+              <p className="whitespace-pre-wrap">{response.response}</p>
+              <div className="text-xs text-muted-foreground mt-1">{formatDateTime(response.createdAt)}</div>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <div className="space-y-2">
+        <Textarea
+          placeholder={isInternal ? "Write an internal note for the team..." : "Write a reply to the submitter..."}
+          className="resize-none"
+          rows={3}
+          value={message}
+          onChange={(e) => setMessage(e.target.value)}
+        />
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id={`internal-${feedbackId}`}
+              checked={isInternal}
+              onCheckedChange={(checked) => setIsInternal(checked === true)}
+            />
+            <Label htmlFor={`internal-${feedbackId}`} className="font-normal">
+              Internal note (staff only)
+            </Label>
+          </div>
+          <Button size="sm" onClick={postResponse} disabled={posting || !message.trim()}>
+            {posting ? "Posting..." : isInternal ? "Add Note" : "Reply"}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+"use client";
+
+import { useEffect, useId, useRef, type Ref } from "react";
+import { FILL_TIME_HEADER, HONEYPOT_FIELD } from "@/lib/spam-signals";
+
+// Collects the bot signals a public form sends with its submission
+export function useSpamSignals() {
+  const honeypotRef = useRef<HTMLInputElement>(null);
+  const startedAt = useRef(0);
+
+  useEffect(() => {
+    startedAt.current = Date.now();
+  }, []);
+
+  return {
+    honeypotRef,
+    // Added to the request body
+    fields: () => ({ [HONEYPOT_FIELD]: honeypotRef.current?.value ?? "" }),
+    // Added to the request headers
+    headers: () => ({ [FILL_TIME_HEADER]: String(Date.now() - startedAt.current) }),
+    // Restart the clock when the form is cleared for the next submission
+    restart: () => {
+      startedAt.current = Date.now();
+    },
+  };
+}
+
+// Moved off-screen rather than display: none, which some bots know to skip
+export function HoneypotField({ ref }: { ref: Ref<HTMLInputElement> }) {
+  const id = useId();
+
+  return (
+    <div aria-hidden="true" className="absolute -left-[9999px] h-px w-px overflow-hidden">
+      <label htmlFor={id}>Leave this field empty</label>
+      <input id={id} name={HONEYPOT_FIELD} type="text" tabIndex={-1} autoComplete="off" ref={ref} />
+    </div>
+  );
+}
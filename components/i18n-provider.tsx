@@ -0,0 +1,45 @@
+"use client";
+
+import { createContext, useContext, useEffect, useSyncExternalStore, type ReactNode } from "react";
+import { LOCALE_COOKIE, defaultLocale, localeFrom, messagesFor, type Locale } from "@/lib/i18n";
+
+const I18nContext = createContext<Locale>(defaultLocale);
+
+const LOCALE_EVENT = "locale-change";
+
+function readLocale(): Locale {
+  const cookie = document.cookie.split("; ").find((entry) => entry.startsWith(`${LOCALE_COOKIE}=`));
+  return localeFrom(cookie?.slice(LOCALE_COOKIE.length + 1));
+}
+
+function subscribeToLocale(listener: () => void) {
+  window.addEventListener(LOCALE_EVENT, listener);
+  return () => window.removeEventListener(LOCALE_EVENT, listener);
+}
+
+/**
+ * Reads the locale cookie in the browser rather than on the server, so pages
+ * stay static and the service worker can cache the form. The server renders
+ * the default language; a saved choice takes over once the page hydrates.
+ */
+export function I18nProvider({ children }: { children: ReactNode }) {
+  const locale = useSyncExternalStore(subscribeToLocale, readLocale, () => defaultLocale);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  return <I18nContext.Provider value={locale}>{children}</I18nContext.Provider>;
+}
+
+export function useI18n() {
+  const locale = useContext(I18nContext);
+
+  // Remembered for a year; switching re-renders in place without losing form input
+  const setLocale = (next: Locale) => {
+    document.cookie = `${LOCALE_COOKIE}=${next}; path=/; max-age=${60 * 60 * 24 * 365}; samesite=lax`;
+    window.dispatchEvent(new Event(LOCALE_EVENT));
+  };
+
+  return { locale, messages: messagesFor(locale), setLocale };
+}
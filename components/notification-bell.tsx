@@ -0,0 +1,124 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Bell } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+
+interface Notification {
+  id: string;
+  title: string;
+  message: string;
+  link: string | null;
+  read: boolean;
+  createdAt: string;
+}
+
+const POLL_INTERVAL_MS = 60 * 1000;
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+// Staff-only: renders nothing until the notifications API answers for a signed-in user
+export function NotificationBell() {
+  const router = useRouter();
+  const [items, setItems] = useState<Notification[] | null>(null);
+  const [unread, setUnread] = useState(0);
+
+  const fetchNotifications = useCallback(async () => {
+    try {
+      const response = await fetch("/api/notifications");
+      if (!response.ok) {
+        setItems(null);
+        return;
+      }
+      const data = await response.json();
+      setItems(data.items);
+      setUnread(data.unread);
+    } catch (error) {
+      console.error("Error fetching notifications:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    const timeout = setTimeout(fetchNotifications, 0);
+    const interval = setInterval(fetchNotifications, POLL_INTERVAL_MS);
+    return () => {
+      clearTimeout(timeout);
+      clearInterval(interval);
+    };
+  }, [fetchNotifications]);
+
+  const markRead = async (ids?: string[]) => {
+    await fetch("/api/notifications/read", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ids }),
+    }).catch((error) => console.error("Error marking notifications read:", error));
+    fetchNotifications();
+  };
+
+  const open = (notification: Notification) => {
+    if (!notification.read) markRead([notification.id]);
+    if (notification.link) router.push(notification.link);
+  };
+
+  if (!items) return null;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="icon" className="relative">
+          <Bell className="h-[1.2rem] w-[1.2rem]" />
+          {unread > 0 && (
+            <span className="absolute -top-1 -right-1 min-w-5 h-5 rounded-full bg-red-600 px-1 text-xs leading-5 text-white">
+              {unread > 99 ? "99+" : unread}
+            </span>
+          )}
+          <span className="sr-only">Notifications</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <DropdownMenuLabel className="flex items-center justify-between">
+          Notifications
+          {unread > 0 && (
+            <button type="button" className="text-xs font-normal text-muted-foreground hover:underline" onClick={() => markRead()}>
+              Mark all read
+            </button>
+          )}
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {items.length === 0 ? (
+          <div className="p-4 text-center text-sm text-muted-foreground">No notifications yet.</div>
+        ) : (
+          items.map((notification) => (
+            <DropdownMenuItem
+              key={notification.id}
+              className="flex flex-col items-start gap-1"
+              onClick={() => open(notification)}
+            >
+              <span className={notification.read ? "text-muted-foreground" : "font-semibold"}>
+                {notification.title}
+              </span>
+              <span className="text-xs text-muted-foreground line-clamp-2 whitespace-pre-line">{notification.message}</span>
+              <span className="text-xs text-muted-foreground">{formatDate(notification.createdAt)}</span>
+            </DropdownMenuItem>
+          ))
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,79 @@
+"use client";
+
+import { useCallback, useEffect, useState, useSyncExternalStore } from "react";
+import { toast } from "sonner";
+import { readQueue, subscribeToQueue, syncQueue, type QueuedSubmission } from "@/lib/offline-queue";
+import { useI18n } from "@/components/i18n-provider";
+
+// How often to retry while submissions are waiting and the browser claims to be online
+const RETRY_INTERVAL_MS = 60 * 1000;
+
+const pendingCount = () => readQueue().filter((item) => !item.failed).length;
+const failedCount = () => readQueue().filter((item) => item.failed).length;
+
+// Saves the refused submissions as a JSON file, e.g. to send to the office
+function downloadFailed() {
+  const failed = readQueue().filter((item) => item.failed);
+  const blob = new Blob([JSON.stringify(failed, null, 2)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `unsent-service-feedback-${new Date().toISOString().slice(0, 10)}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// The oldest refused submission, to be corrected in the form. It stays queued
+// until the corrected one is accepted, so closing the tab never loses it.
+function nextFailed(): QueuedSubmission | null {
+  return readQueue().find((queued) => queued.failed) ?? null;
+}
+
+/**
+ * Keeps the offline queue draining: on load, whenever the browser comes back
+ * online and on an interval while anything is pending. Also registers the
+ * service worker that lets the form load without a connection.
+ */
+export function useOfflineQueue() {
+  const pending = useSyncExternalStore(subscribeToQueue, pendingCount, () => 0);
+  const failed = useSyncExternalStore(subscribeToQueue, failedCount, () => 0);
+  const [syncing, setSyncing] = useState(false);
+  const { messages } = useI18n();
+
+  const sync = useCallback(async () => {
+    if (!navigator.onLine || pendingCount() === 0) return;
+
+    setSyncing(true);
+    try {
+      const result = await syncQueue();
+      if (result.sent > 0) {
+        toast.success(messages.offlineQueue.sent(result.sent));
+      }
+      for (const { error } of result.rejected) {
+        toast.error(messages.offlineQueue.rejected, { description: error });
+      }
+    } finally {
+      setSyncing(false);
+    }
+  }, [messages]);
+
+  useEffect(() => {
+    const timeout = setTimeout(sync, 0);
+    const interval = setInterval(sync, RETRY_INTERVAL_MS);
+    window.addEventListener("online", sync);
+    return () => {
+      clearTimeout(timeout);
+      clearInterval(interval);
+      window.removeEventListener("online", sync);
+    };
+  }, [sync]);
+
+  useEffect(() => {
+    if (process.env.NODE_ENV !== "production" || !("serviceWorker" in navigator)) return;
+    navigator.serviceWorker
+      .register("/sw.js")
+      .catch((error) => console.error("Service worker registration failed:", error));
+  }, []);
+
+  return { pending, failed, syncing, sync, downloadFailed, nextFailed };
+}
@@ -0,0 +1,212 @@
+"use client";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useRef } from "react";
+import { useForm } from "react-hook-form";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { toast } from "sonner";
+import { newIdempotencyKey } from "@/lib/utils";
+import { HoneypotField, useSpamSignals } from "@/components/honeypot-field";
+import { useI18n } from "@/components/i18n-provider";
+import { KIOSK_TOKEN_HEADER } from "@/lib/spam-signals";
+import { registrationSchema, type RegistrationInput } from "@/lib/schemas";
+import { validationErrorMap } from "@/lib/i18n";
+
+type TextField = Exclude<keyof RegistrationInput, "followUp" | "followUpDate" | "sourceEvent" | "comment">;
+
+// Labels come from the locale, see registrationForm.fields in lib/locales
+const textFields: { name: TextField; type?: string; placeholder?: string }[] = [
+  { name: "name" },
+  { name: "companyName" },
+  { name: "jobTitle" },
+  { name: "email", type: "email" },
+  { name: "mobileNumber", type: "tel", placeholder: "+251 911 234 567" },
+  { name: "officePhone", type: "tel" },
+  { name: "website", placeholder: "example.com" },
+  { name: "country" },
+  { name: "industry" },
+  { name: "officeAddress" },
+];
+
+interface RegistrationFormProps {
+  // Tags the registration with an event and hides the event field, e.g. on a kiosk
+  sourceEvent?: string;
+  // Issued when staff start a kiosk; lets the device send more than the per-IP limit
+  kioskToken?: string;
+  onSubmitted?: () => void;
+}
+
+export default function RegistrationForm({ sourceEvent, kioskToken, onSubmitted }: RegistrationFormProps) {
+  const { locale, messages } = useI18n();
+  const t = messages.registrationForm;
+
+  const form = useForm<RegistrationInput>({
+    resolver: zodResolver(registrationSchema, { error: validationErrorMap(locale) }),
+    defaultValues: {
+      name: "",
+      companyName: "",
+      jobTitle: "",
+      mobileNumber: "",
+      officePhone: "",
+      email: "",
+      website: "",
+      officeAddress: "",
+      country: "",
+      industry: "",
+      sourceEvent: sourceEvent ?? "",
+      followUp: false,
+      comment: "",
+    },
+  });
+
+  const idempotencyKey = useRef(newIdempotencyKey());
+  const spamSignals = useSpamSignals();
+
+  const onSubmit = async (data: RegistrationInput) => {
+    try {
+      const response = await fetch("/api/registration", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Idempotency-Key": idempotencyKey.current,
+          ...spamSignals.headers(),
+          ...(kioskToken && { [KIOSK_TOKEN_HEADER]: kioskToken }),
+        },
+        body: JSON.stringify({ ...data, ...spamSignals.fields() }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        if (result.details) {
+          // Handle validation errors from the server
+          result.details.forEach((error: { path: PropertyKey[]; message: string }) => {
+            form.setError(error.path[0] as keyof RegistrationInput, {
+              type: "manual",
+              message: error.message,
+            });
+          });
+        }
+
+        throw new Error(result.error || t.failed);
+      }
+
+      form.reset();
+      idempotencyKey.current = newIdempotencyKey();
+      spamSignals.restart();
+
+      toast.success(t.submitted, {
+        description: t.submittedDescription,
+      });
+      onSubmitted?.();
+    } catch (error) {
+      console.error("Submission error:", error);
+      toast.error(t.failed, {
+        description: error instanceof Error ? error.message : t.tryAgain,
+      });
+    }
+  };
+
+  return (
+    <Card className="w-full rounded-sm">
+      <CardHeader>
+        <CardTitle>{t.title}</CardTitle>
+        <CardDescription>{t.description}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+            <HoneypotField ref={spamSignals.honeypotRef} />
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              {textFields.map(({ name, type, placeholder }) => (
+                <FormField
+                  key={name}
+                  control={form.control}
+                  name={name}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{t.fields[name]}</FormLabel>
+                      <FormControl>
+                        <Input type={type} placeholder={placeholder} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ))}
+
+              {!sourceEvent && (
+                <FormField
+                  control={form.control}
+                  name="sourceEvent"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{t.sourceEvent}</FormLabel>
+                      <FormControl>
+                        <Input placeholder={t.sourceEventPlaceholder} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+            </div>
+
+            <FormField
+              control={form.control}
+              name="comment"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{t.comment}</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      placeholder={t.commentPlaceholder}
+                      className="resize-none"
+                      rows={3}
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="followUp"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-center gap-3 space-y-0">
+                  <FormControl>
+                    <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+                  </FormControl>
+                  <FormLabel className="font-normal">{t.followUp}</FormLabel>
+                </FormItem>
+              )}
+            />
+
+            <Button
+              type="submit"
+              className="w-full rounded-md"
+              disabled={form.formState.isSubmitting}
+            >
+              {form.formState.isSubmitting ? t.submitting : t.submit}
+            </Button>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,8 +1,8 @@
 "use client";
 
 import { zodResolver } from "@hookform/resolvers/zod";
-import { useForm } from "react-hook-form";
-import { z } from "zod";
+import { useState } from "react";
+import { useForm, useFormContext } from "react-hook-form";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Textarea } from "@/components/ui/textarea";
@@ -25,68 +25,75 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { toast } from "sonner";
+import { CloudOffIcon, DownloadIcon } from "lucide-react";
+import { newIdempotencyKey } from "@/lib/utils";
+import { HoneypotField, useSpamSignals } from "@/components/honeypot-field";
+import { useOfflineQueue } from "@/components/offline-sync";
+import { useI18n } from "@/components/i18n-provider";
+import { AttachmentField, uploadedAttachmentIds, type PendingAttachment } from "@/components/attachment-field";
+import { enqueue, removeFromQueue, sendSubmission, type QueuedSubmission } from "@/lib/offline-queue";
+import {
+  serviceFeedbackSchema,
+  type ServiceFeedbackFormValues,
+  type ServiceFeedbackInput,
+} from "@/lib/schemas";
+import { ratingDimensions } from "@/lib/service-feedback-fields";
+import { validationErrorMap } from "@/lib/i18n";
+
+// Labels come from the dictionary for the current locale
+const serviceTypeOptions = ["fuel-delivery", "lubricant-supply", "technical-support", "other"] as const;
+const contactMethodOptions = ["email", "phone", "other"] as const;
+
+// Reads the form from context so it can live outside ServiceFeedbackForm
+function RatingField({
+  name,
+  label,
+}: {
+  name: keyof ServiceFeedbackFormValues;
+  label: string;
+}) {
+  const form = useFormContext<ServiceFeedbackFormValues>();
+  const { messages } = useI18n();
 
-const serviceFeedbackSchema = z.object({
-  // Section 1: Customer Information
-  customerName: z.string().optional(),
-  companyName: z.string().optional(),
-  contactInfo: z.string().optional(),
-  serviceDate: z.string().min(1, "Service date is required"),
-  serviceType: z.array(z.string()).min(1, "Please select at least one service type"),
-  serviceTypeOther: z.string().optional(),
-
-  // Section 2: Service Quality Ratings (1-5 scale)
-  easeOfOrdering: z.number().min(1).max(5),
-  orderProcessingAccuracy: z.number().min(1).max(5),
-  orderChannelKnowledge: z.number().min(1).max(5),
-  serviceTimeliness: z.number().min(1).max(5),
-  orderAccuracy: z.number().min(1).max(5),
-  productQuality: z.number().min(1).max(5),
-  quantityAccuracy: z.number().min(1).max(5),
-  staffProfessionalism: z.number().min(1).max(5),
-  responsiveness: z.number().min(1).max(5),
-  overallSatisfaction: z.number().min(1).max(5),
-  priceCompetitiveness: z.number().min(1).max(5),
-  stockAvailability: z.number().min(1).max(5),
-  technicalInstruction: z.number().min(1).max(5),
-
-  // Section 3: Open-Ended Questions
-  mostLiked: z.string().optional(),
-  overallExperience: z.string().optional(),
-  expectationsMet: z.string().optional(),
-  improvementAreas: z.string().optional(),
-  issuesExperienced: z.string().optional(),
-  wouldRecommend: z.string().optional(),
-
-  // Section 4: Future Expectations
-  additionalServices: z.string().optional(),
-  futureExpectations: z.string().optional(),
-  serviceQualityRecommendations: z.string().optional(),
-
-  // Section 5: Follow-Up
-  followUpRequested: z.boolean(),
-  preferredContactMethod: z.string().optional(),
-  preferredContactOther: z.string().optional(),
-});
-
-type ServiceFeedbackFormData = z.infer<typeof serviceFeedbackSchema>;
-
-const serviceTypeOptions = [
-  { id: "fuel-delivery", label: "Fuel Delivery" },
-  { id: "lubricant-supply", label: "Lubricant Supply" },
-  { id: "technical-support", label: "Technical Support" },
-  { id: "other", label: "Other" },
-];
-
-const contactMethodOptions = [
-  { value: "email", label: "Email" },
-  { value: "phone", label: "Phone" },
-  { value: "other", label: "Other" },
-];
+  return (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel className="text-sm font-medium">{label}</FormLabel>
+          <FormControl>
+            <div className="flex gap-2">
+              {[1, 2, 3, 4, 5].map((rating) => (
+                <Button
+                  key={rating}
+                  type="button"
+                  variant={field.value === rating ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => field.onChange(rating)}
+                  className="w-10 h-10"
+                >
+                  {rating}
+                </Button>
+              ))}
+            </div>
+          </FormControl>
+          <FormDescription className="text-xs">
+            {messages.serviceForm.ratingHint}
+          </FormDescription>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+}
 
 export default function ServiceFeedbackForm() {
-  const form = useForm<ServiceFeedbackFormData>({
-    resolver: zodResolver(serviceFeedbackSchema),
+  const { locale, messages } = useI18n();
+  const t = messages.serviceForm;
+
+  const form = useForm<ServiceFeedbackFormValues, unknown, ServiceFeedbackInput>({
+    resolver: zodResolver(serviceFeedbackSchema, { error: validationErrorMap(locale) }),
     defaultValues: {
       customerName: "",
       companyName: "",
@@ -112,6 +119,7 @@ export default function ServiceFeedbackForm() {
       expectationsMet: "",
       improvementAreas: "",
       issuesExperienced: "",
+      recommendScore: undefined,
       wouldRecommend: "",
       additionalServices: "",
       futureExpectations: "",
@@ -122,93 +130,129 @@ export default function ServiceFeedbackForm() {
     },
   });
 
-  const onSubmit = async (data: ServiceFeedbackFormData) => {
+  const [idempotencyKey, setIdempotencyKey] = useState(newIdempotencyKey);
+  // The ref is kept apart so the React Compiler does not treat the other signals as refs
+  const { honeypotRef, ...spamSignals } = useSpamSignals();
+  const offlineQueue = useOfflineQueue();
+  const [attachments, setAttachments] = useState<PendingAttachment[]>([]);
+  // The refused submission loaded for correcting; removed from the queue once its replacement is accepted
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const uploading = attachments.some((attachment) => attachment.id === null);
+
+  const onSubmit = async (data: ServiceFeedbackInput) => {
     try {
-      const feedbackData = {
-        ...data,
-        submissionDate: new Date().toISOString(),
+      const submission: QueuedSubmission = {
+        id: idempotencyKey,
+        url: "/api/v1/service-feedback",
+        body: JSON.stringify({
+          ...data,
+          ...spamSignals.fields(),
+          attachmentIds: uploadedAttachmentIds(attachments),
+          locale,
+          clientSubmissionId: idempotencyKey,
+          submittedAt: new Date().toISOString(),
+        }),
+        headers: spamSignals.headers(),
+        queuedAt: new Date().toISOString(),
       };
 
-      const response = await fetch("/api/feedback", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(feedbackData),
-      });
+      const outcome = navigator.onLine ? await sendSubmission(submission) : { status: "unavailable" as const };
 
-      const result = await response.json();
+      if (outcome.status === "rejected") {
+        outcome.details?.forEach((issue) => {
+          form.setError(issue.path[0] as keyof ServiceFeedbackFormValues, { type: "server", message: issue.message });
+        });
+        toast.error(t.failed, { description: outcome.error });
+        return;
+      }
 
-      if (!response.ok) {
-        throw new Error(result?.error || "Failed to submit feedback");
+      // Kept on this device and sent by useOfflineQueue once the connection is back
+      const queued = outcome.status === "unavailable" || outcome.status === "in_progress";
+      if (queued) {
+        enqueue(submission);
+      }
+      if (editingId) {
+        removeFromQueue(editingId);
+        setEditingId(null);
       }
 
       form.reset();
-      
-      toast.success("Service feedback submitted successfully!", {
-        description: "Thank you for your valuable feedback.",
-      });
+      setAttachments([]);
+      setIdempotencyKey(newIdempotencyKey());
+      spamSignals.restart();
+
+      if (queued) {
+        toast.info(t.savedOffline, { description: t.savedOfflineDescription });
+      } else if (outcome.status === "duplicate") {
+        toast.info(t.duplicate, { description: t.duplicateDescription });
+      } else {
+        toast.success(t.submitted, { description: t.submittedDescription });
+      }
     } catch (error) {
+      // e.g. the device has no room left to keep the submission
       console.error("Submission error:", error);
-      toast.error("Failed to submit feedback", {
-        description: error instanceof Error ? error.message : "Please try again later.",
+      toast.error(t.failed, {
+        description: error instanceof Error ? error.message : t.tryAgain,
       });
     }
   };
 
-  const RatingField = ({ 
-    name, 
-    label 
-  }: { 
-    name: keyof ServiceFeedbackFormData, 
-    label: string 
-  }) => (
-    <FormField
-      control={form.control}
-      name={name}
-      render={({ field }) => (
-        <FormItem>
-          <FormLabel className="text-sm font-medium">{label}</FormLabel>
-          <FormControl>
-            <div className="flex gap-2">
-              {[1, 2, 3, 4, 5].map((rating) => (
-                <Button
-                  key={rating}
-                  type="button"
-                  variant={field.value === rating ? "default" : "outline"}
-                  size="sm"
-                  onClick={() => field.onChange(rating)}
-                  className="w-10 h-10"
-                >
-                  {rating}
-                </Button>
-              ))}
-            </div>
-          </FormControl>
-          <FormDescription className="text-xs">
-            Rate from 1 (poor) to 5 (excellent)
-          </FormDescription>
-          <FormMessage />
-        </FormItem>
-      )}
-    />
-  );
+  // Puts a submission the server refused back into the form to be corrected and sent again
+  const editFailed = () => {
+    const item = offlineQueue.nextFailed();
+    if (!item) return;
+    const { attachmentIds = [], ...values } = JSON.parse(item.body);
+    form.reset({ ...form.formState.defaultValues, ...values });
+    setAttachments(
+      (attachmentIds as string[]).map((id) => ({ key: id, fileName: messages.attachments.restored, previewUrl: null, id }))
+    );
+    setEditingId(item.id);
+    toast.info(messages.offlineQueue.editing, { description: item.failed?.error });
+  };
 
   return (
     <Card className="w-full max-w-4xl mx-auto">
       <CardHeader>
-        <CardTitle>Service Feedback Form</CardTitle>
+        <div className="flex flex-wrap justify-between items-start gap-2">
+          <CardTitle>{t.title}</CardTitle>
+          {offlineQueue.pending > 0 && (
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              disabled={offlineQueue.syncing}
+              onClick={offlineQueue.sync}
+              title={t.pendingHint}
+            >
+              <CloudOffIcon className="h-4 w-4 mr-1" />
+              {offlineQueue.syncing ? t.sending : t.pending(offlineQueue.pending)}
+            </Button>
+          )}
+        </div>
         <CardDescription>
-          Please provide your feedback about our fuel delivery and lubricant supply services.
+          {t.description}
         </CardDescription>
+        {offlineQueue.failed > 0 && (
+          <div className="flex flex-wrap items-center gap-2 rounded-md border border-destructive/50 p-2 text-sm">
+            <span className="text-destructive mr-auto">{messages.offlineQueue.failed(offlineQueue.failed)}</span>
+            <Button type="button" variant="outline" size="sm" onClick={editFailed}>
+              {messages.offlineQueue.edit}
+            </Button>
+            <Button type="button" variant="outline" size="sm" onClick={offlineQueue.downloadFailed}>
+              <DownloadIcon className="h-4 w-4 mr-1" />
+              {messages.offlineQueue.download}
+            </Button>
+          </div>
+        )}
       </CardHeader>
       <CardContent>
         <Form {...form}>
           <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-8">
+            <HoneypotField ref={honeypotRef} />
             
             {/* Section 1: Customer Information */}
             <div className="space-y-4">
-              <h3 className="text-lg font-semibold">Section 1: Customer Information</h3>
+              <h3 className="text-lg font-semibold">{t.customerSection}</h3>
               
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <FormField
@@ -216,9 +260,9 @@ export default function ServiceFeedbackForm() {
                   name="customerName"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Customer Name (Optional)</FormLabel>
+                      <FormLabel>{t.customerName}</FormLabel>
                       <FormControl>
-                        <Input placeholder="Enter your name" {...field} />
+                        <Input placeholder={t.customerNamePlaceholder} {...field} />
                       </FormControl>
                       <FormMessage />
                     </FormItem>
@@ -230,9 +274,9 @@ export default function ServiceFeedbackForm() {
                   name="companyName"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Company Name (if applicable)</FormLabel>
+                      <FormLabel>{t.companyName}</FormLabel>
                       <FormControl>
-                        <Input placeholder="Enter company name" {...field} />
+                        <Input placeholder={t.companyNamePlaceholder} {...field} />
                       </FormControl>
                       <FormMessage />
                     </FormItem>
@@ -244,9 +288,9 @@ export default function ServiceFeedbackForm() {
                   name="contactInfo"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Contact Information (Optional)</FormLabel>
+                      <FormLabel>{t.contactInfo}</FormLabel>
                       <FormControl>
-                        <Input placeholder="Email or phone number" {...field} />
+                        <Input placeholder={t.contactInfoPlaceholder} {...field} />
                       </FormControl>
                       <FormMessage />
                     </FormItem>
@@ -258,7 +302,7 @@ export default function ServiceFeedbackForm() {
                   name="serviceDate"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Date of Service Interaction *</FormLabel>
+                      <FormLabel>{t.serviceDate}</FormLabel>
                       <FormControl>
                         <Input type="date" {...field} />
                       </FormControl>
@@ -273,31 +317,31 @@ export default function ServiceFeedbackForm() {
                 name="serviceType"
                 render={() => (
                   <FormItem>
-                    <FormLabel>Type of Service Used *</FormLabel>
+                    <FormLabel>{t.serviceType}</FormLabel>
                     <div className="grid grid-cols-2 gap-2">
                       {serviceTypeOptions.map((service) => (
                         <FormField
-                          key={service.id}
+                          key={service}
                           control={form.control}
                           name="serviceType"
                           render={({ field }) => (
                             <FormItem className="flex flex-row items-start space-x-3 space-y-0">
                               <FormControl>
                                 <Checkbox
-                                  checked={field.value?.includes(service.id)}
+                                  checked={field.value?.includes(service)}
                                   onCheckedChange={(checked) => {
                                     return checked
-                                      ? field.onChange([...field.value, service.id])
+                                      ? field.onChange([...field.value, service])
                                       : field.onChange(
                                           field.value?.filter(
-                                            (value) => value !== service.id
+                                            (value) => value !== service
                                           )
                                         )
                                   }}
                                 />
                               </FormControl>
                               <FormLabel className="font-normal">
-                                {service.label}
+                                {t.serviceTypes[service]}
                               </FormLabel>
                             </FormItem>
                           )}
@@ -314,9 +358,9 @@ export default function ServiceFeedbackForm() {
                 name="serviceTypeOther"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Other Service (if selected above)</FormLabel>
+                    <FormLabel>{t.serviceTypeOther}</FormLabel>
                     <FormControl>
-                      <Input placeholder="Please specify" {...field} />
+                      <Input placeholder={t.specify} {...field} />
                     </FormControl>
                     <FormMessage />
                   </FormItem>
@@ -326,41 +370,31 @@ export default function ServiceFeedbackForm() {
 
             {/* Section 2: Service Quality Ratings */}
             <div className="space-y-6">
-              <h3 className="text-lg font-semibold">Section 2: Service Quality Ratings</h3>
+              <h3 className="text-lg font-semibold">{t.ratingSection}</h3>
               <p className="text-sm text-muted-foreground">
-                Rate the following aspects of our service on a scale of 1 to 5:
+                {t.ratingIntro}
               </p>
               
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                <RatingField name="easeOfOrdering" label="Ease of placing an order" />
-                <RatingField name="orderProcessingAccuracy" label="Processes orders accurately" />
-                <RatingField name="orderChannelKnowledge" label="The channel for placing orders is known" />
-                <RatingField name="serviceTimeliness" label="Timeliness of service delivery" />
-                <RatingField name="orderAccuracy" label="Accuracy of order fulfillment (products/services delivered as requested)" />
-                <RatingField name="productQuality" label="Quality of products received" />
-                <RatingField name="quantityAccuracy" label="Delivered quantities are same as invoiced quantities" />
-                <RatingField name="staffProfessionalism" label="Professionalism and courtesy of staff" />
-                <RatingField name="responsiveness" label="Responsiveness to inquiries and concerns" />
-                <RatingField name="overallSatisfaction" label="Overall satisfaction with our service" />
-                <RatingField name="priceCompetitiveness" label="Price of products compared to suppliers" />
-                <RatingField name="stockAvailability" label="Stock availability for your purchase request" />
-                <RatingField name="technicalInstruction" label="Technical instruction given from our company" />
+                {ratingDimensions.map(({ key }) => (
+                  <RatingField key={key} name={key} label={t.ratings[key]} />
+                ))}
               </div>
             </div>
 
             {/* Section 3: Open-Ended Questions */}
             <div className="space-y-4">
-              <h3 className="text-lg font-semibold">Section 3: Open-Ended Questions</h3>
+              <h3 className="text-lg font-semibold">{t.openSection}</h3>
               
               <FormField
                 control={form.control}
                 name="mostLiked"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>What did you like the most about our service?</FormLabel>
+                    <FormLabel>{t.mostLiked}</FormLabel>
                     <FormControl>
                       <Textarea
-                        placeholder="Please share what you liked most..."
+                        placeholder={t.mostLikedPlaceholder}
                         className="resize-none"
                         rows={3}
                         {...field}
@@ -376,10 +410,10 @@ export default function ServiceFeedbackForm() {
                 name="overallExperience"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>How would you describe your overall experience with our company?</FormLabel>
+                    <FormLabel>{t.overallExperience}</FormLabel>
                     <FormControl>
                       <Textarea
-                        placeholder="Please describe your overall experience..."
+                        placeholder={t.overallExperiencePlaceholder}
                         className="resize-none"
                         rows={3}
                         {...field}
@@ -395,10 +429,10 @@ export default function ServiceFeedbackForm() {
                 name="expectationsMet"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Did our product/service meet your expectations?</FormLabel>
+                    <FormLabel>{t.expectationsMet}</FormLabel>
                     <FormControl>
                       <Textarea
-                        placeholder="Please let us know if we met your expectations..."
+                        placeholder={t.expectationsMetPlaceholder}
                         className="resize-none"
                         rows={3}
                         {...field}
@@ -414,10 +448,10 @@ export default function ServiceFeedbackForm() {
                 name="improvementAreas"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>What areas do you think need improvement?</FormLabel>
+                    <FormLabel>{t.improvementAreas}</FormLabel>
                     <FormControl>
                       <Textarea
-                        placeholder="Please suggest areas for improvement..."
+                        placeholder={t.improvementAreasPlaceholder}
                         className="resize-none"
                         rows={3}
                         {...field}
@@ -433,10 +467,10 @@ export default function ServiceFeedbackForm() {
                 name="issuesExperienced"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Have you experienced any issues with our services? If yes, please describe them.</FormLabel>
+                    <FormLabel>{t.issuesExperienced}</FormLabel>
                     <FormControl>
                       <Textarea
-                        placeholder="Please describe any issues you experienced..."
+                        placeholder={t.issuesExperiencedPlaceholder}
                         className="resize-none"
                         rows={3}
                         {...field}
@@ -447,15 +481,47 @@ export default function ServiceFeedbackForm() {
                 )}
               />
 
+              <AttachmentField value={attachments} onChange={setAttachments} />
+
+              <FormField
+                control={form.control}
+                name="recommendScore"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{t.recommendScore}</FormLabel>
+                    <FormControl>
+                      <div className="flex flex-wrap gap-2">
+                        {Array.from({ length: 11 }, (_, score) => (
+                          <Button
+                            key={score}
+                            type="button"
+                            variant={field.value === score ? "default" : "outline"}
+                            size="sm"
+                            onClick={() => field.onChange(score)}
+                            className="w-10 h-10"
+                          >
+                            {score}
+                          </Button>
+                        ))}
+                      </div>
+                    </FormControl>
+                    <FormDescription className="text-xs">
+                      {t.recommendScoreHint}
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
               <FormField
                 control={form.control}
                 name="wouldRecommend"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Would you recommend our services to others? Why or why not?</FormLabel>
+                    <FormLabel>{t.wouldRecommend}</FormLabel>
                     <FormControl>
                       <Textarea
-                        placeholder="Please let us know if you would recommend us..."
+                        placeholder={t.wouldRecommendPlaceholder}
                         className="resize-none"
                         rows={3}
                         {...field}
@@ -469,17 +535,17 @@ export default function ServiceFeedbackForm() {
 
             {/* Section 4: Future Expectations */}
             <div className="space-y-4">
-              <h3 className="text-lg font-semibold">Section 4: Future Expectations</h3>
+              <h3 className="text-lg font-semibold">{t.futureSection}</h3>
               
               <FormField
                 control={form.control}
                 name="additionalServices"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>What additional services or products would you like us to provide?</FormLabel>
+                    <FormLabel>{t.additionalServices}</FormLabel>
                     <FormControl>
                       <Textarea
-                        placeholder="Please suggest additional services or products..."
+                        placeholder={t.additionalServicesPlaceholder}
                         className="resize-none"
                         rows={3}
                         {...field}
@@ -495,10 +561,10 @@ export default function ServiceFeedbackForm() {
                 name="futureExpectations"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>How can we better meet your expectations in the future?</FormLabel>
+                    <FormLabel>{t.futureExpectations}</FormLabel>
                     <FormControl>
                       <Textarea
-                        placeholder="Please share how we can better serve you..."
+                        placeholder={t.futureExpectationsPlaceholder}
                         className="resize-none"
                         rows={3}
                         {...field}
@@ -514,10 +580,10 @@ export default function ServiceFeedbackForm() {
                 name="serviceQualityRecommendations"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>What do you recommend to increase the service quality?</FormLabel>
+                    <FormLabel>{t.serviceQualityRecommendations}</FormLabel>
                     <FormControl>
                       <Textarea
-                        placeholder="Please provide recommendations for service quality improvement..."
+                        placeholder={t.serviceQualityRecommendationsPlaceholder}
                         className="resize-none"
                         rows={3}
                         {...field}
@@ -531,7 +597,7 @@ export default function ServiceFeedbackForm() {
 
             {/* Section 5: Follow-Up */}
             <div className="space-y-4">
-              <h3 className="text-lg font-semibold">Section 5: Follow-Up (Optional)</h3>
+              <h3 className="text-lg font-semibold">{t.followUpSection}</h3>
               
               <FormField
                 control={form.control}
@@ -546,7 +612,7 @@ export default function ServiceFeedbackForm() {
                     </FormControl>
                     <div className="space-y-1 leading-none">
                       <FormLabel>
-                        Would you like us to follow up regarding your feedback?
+                        {t.followUpRequested}
                       </FormLabel>
                     </div>
                   </FormItem>
@@ -558,17 +624,17 @@ export default function ServiceFeedbackForm() {
                 name="preferredContactMethod"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Preferred contact method</FormLabel>
+                    <FormLabel>{t.preferredContactMethod}</FormLabel>
                     <Select onValueChange={field.onChange} defaultValue={field.value}>
                       <FormControl>
                         <SelectTrigger>
-                          <SelectValue placeholder="Select contact method" />
+                          <SelectValue placeholder={t.preferredContactMethodPlaceholder} />
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
                         {contactMethodOptions.map((method) => (
-                          <SelectItem key={method.value} value={method.value}>
-                            {method.label}
+                          <SelectItem key={method} value={method}>
+                            {t.contactMethods[method]}
                           </SelectItem>
                         ))}
                       </SelectContent>
@@ -583,9 +649,9 @@ export default function ServiceFeedbackForm() {
                 name="preferredContactOther"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Other contact method (if selected above)</FormLabel>
+                    <FormLabel>{t.preferredContactOther}</FormLabel>
                     <FormControl>
-                      <Input placeholder="Please specify" {...field} />
+                      <Input placeholder={t.specify} {...field} />
                     </FormControl>
                     <FormMessage />
                   </FormItem>
@@ -596,9 +662,9 @@ export default function ServiceFeedbackForm() {
             <Button 
               type="submit" 
               className="w-full" 
-              disabled={form.formState.isSubmitting}
+              disabled={form.formState.isSubmitting || uploading}
             >
-              {form.formState.isSubmitting ? "Submitting..." : "Submit Feedback"}
+              {form.formState.isSubmitting ? t.submitting : uploading ? messages.attachments.uploading : t.submit}
             </Button>
           </form>
         </Form>
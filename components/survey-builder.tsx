@@ -0,0 +1,319 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowDownIcon, ArrowUpIcon, PlusIcon, TrashIcon } from "lucide-react";
+import {
+  questionTypeLabels,
+  questionTypes,
+  type QuestionType,
+  type SurveyDefinition,
+  type SurveyQuestion,
+  type SurveySection,
+} from "@/lib/survey-definition";
+
+const toIdentifier = (label: string, fallback: string) => {
+  const slug = label
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return /^[a-z]/.test(slug) ? slug : `${fallback}-${slug || "option"}`;
+};
+
+// Picks the next free id like "q4" so answers never collide across sections
+const nextId = (prefix: string, taken: string[]) => {
+  let n = taken.length + 1;
+  while (taken.includes(`${prefix}${n}`)) n++;
+  return `${prefix}${n}`;
+};
+
+const withType = (question: SurveyQuestion, type: QuestionType): SurveyQuestion => {
+  const base = {
+    id: question.id,
+    label: question.label,
+    description: question.description,
+    required: question.required,
+  };
+  switch (type) {
+    case "TEXT":
+      return { ...base, type, multiline: false, maxLength: 1000 };
+    case "MULTI_SELECT":
+      return { ...base, type, options: question.type === "MULTI_SELECT" ? question.options : [] };
+    default:
+      return { ...base, type };
+  }
+};
+
+const move = <T,>(items: T[], index: number, offset: number) => {
+  const target = index + offset;
+  if (target < 0 || target >= items.length) return items;
+  const next = [...items];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+};
+
+export const starterDefinition: SurveyDefinition = {
+  sections: [
+    {
+      id: "s1",
+      title: "General",
+      questions: [
+        { id: "q1", type: "RATING", label: "Overall, how satisfied are you?", required: true },
+      ],
+    },
+  ],
+};
+
+// Editor for a draft survey definition; publishing is left to the page
+export default function SurveyBuilder({
+  definition,
+  onChange,
+}: {
+  definition: SurveyDefinition;
+  onChange: (definition: SurveyDefinition) => void;
+}) {
+  const questionIds = definition.sections.flatMap((section) => section.questions.map((question) => question.id));
+
+  const updateSections = (sections: SurveySection[]) => onChange({ ...definition, sections });
+
+  const updateSection = (sectionIndex: number, changes: Partial<SurveySection>) =>
+    updateSections(
+      definition.sections.map((section, index) => (index === sectionIndex ? { ...section, ...changes } : section))
+    );
+
+  const updateQuestion = (sectionIndex: number, questionIndex: number, question: SurveyQuestion) =>
+    updateSection(sectionIndex, {
+      questions: definition.sections[sectionIndex].questions.map((existing, index) =>
+        index === questionIndex ? question : existing
+      ),
+    });
+
+  const addSection = () =>
+    updateSections([
+      ...definition.sections,
+      {
+        id: nextId("s", definition.sections.map((section) => section.id)),
+        title: "New section",
+        questions: [{ id: nextId("q", questionIds), type: "RATING", label: "", required: false }],
+      },
+    ]);
+
+  const addQuestion = (sectionIndex: number) =>
+    updateSection(sectionIndex, {
+      questions: [
+        ...definition.sections[sectionIndex].questions,
+        { id: nextId("q", questionIds), type: "RATING", label: "", required: false },
+      ],
+    });
+
+  // Options are edited one per line; existing option values are kept so answers stay comparable
+  const setOptions = (sectionIndex: number, questionIndex: number, question: SurveyQuestion, text: string) => {
+    if (question.type !== "MULTI_SELECT") return;
+    const options = text
+      .split("\n")
+      .map((line) => line.trim())
+      .filter(Boolean)
+      .map((label, index) => ({
+        label,
+        value:
+          question.options.find((option) => option.label === label)?.value ?? toIdentifier(label, `o${index + 1}`),
+      }));
+    updateQuestion(sectionIndex, questionIndex, { ...question, options });
+  };
+
+  return (
+    <div className="space-y-4">
+      {definition.sections.map((section, sectionIndex) => (
+        <Card key={section.id}>
+          <CardHeader className="space-y-3">
+            <div className="flex items-end gap-2">
+              <div className="flex-1 space-y-2">
+                <Label>Section {sectionIndex + 1} title</Label>
+                <Input
+                  value={section.title}
+                  onChange={(e) => updateSection(sectionIndex, { title: e.target.value })}
+                />
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                aria-label="Move section up"
+                onClick={() => updateSections(move(definition.sections, sectionIndex, -1))}
+              >
+                <ArrowUpIcon className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                aria-label="Move section down"
+                onClick={() => updateSections(move(definition.sections, sectionIndex, 1))}
+              >
+                <ArrowDownIcon className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                aria-label="Remove section"
+                disabled={definition.sections.length === 1}
+                onClick={() => updateSections(definition.sections.filter((_, index) => index !== sectionIndex))}
+              >
+                <TrashIcon className="h-4 w-4" />
+              </Button>
+            </div>
+            <Textarea
+              placeholder="Section description (optional)"
+              className="resize-none"
+              rows={2}
+              value={section.description || ""}
+              onChange={(e) => updateSection(sectionIndex, { description: e.target.value || undefined })}
+            />
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {section.questions.map((question, questionIndex) => (
+              <div key={question.id} className="space-y-3 rounded-md border p-3">
+                <div className="flex flex-wrap items-end gap-2">
+                  <div className="flex-1 min-w-64 space-y-2">
+                    <Label>Question</Label>
+                    <Input
+                      placeholder="What would you like to ask?"
+                      value={question.label}
+                      onChange={(e) =>
+                        updateQuestion(sectionIndex, questionIndex, { ...question, label: e.target.value })
+                      }
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Type</Label>
+                    <Select
+                      value={question.type}
+                      onValueChange={(value) =>
+                        updateQuestion(sectionIndex, questionIndex, withType(question, value as QuestionType))
+                      }
+                    >
+                      <SelectTrigger className="w-40">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {questionTypes.map((type) => (
+                          <SelectItem key={type} value={type}>
+                            {questionTypeLabels[type]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Answer key</Label>
+                    <Input
+                      className="w-28"
+                      defaultValue={question.id}
+                      onBlur={(e) =>
+                        updateQuestion(sectionIndex, questionIndex, { ...question, id: e.target.value.trim() })
+                      }
+                    />
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    aria-label="Move question up"
+                    onClick={() => updateSection(sectionIndex, { questions: move(section.questions, questionIndex, -1) })}
+                  >
+                    <ArrowUpIcon className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    aria-label="Move question down"
+                    onClick={() => updateSection(sectionIndex, { questions: move(section.questions, questionIndex, 1) })}
+                  >
+                    <ArrowDownIcon className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    aria-label="Remove question"
+                    disabled={section.questions.length === 1}
+                    onClick={() =>
+                      updateSection(sectionIndex, {
+                        questions: section.questions.filter((_, index) => index !== questionIndex),
+                      })
+                    }
+                  >
+                    <TrashIcon className="h-4 w-4" />
+                  </Button>
+                </div>
+
+                <Input
+                  placeholder="Help text (optional)"
+                  value={question.description || ""}
+                  onChange={(e) =>
+                    updateQuestion(sectionIndex, questionIndex, {
+                      ...question,
+                      description: e.target.value || undefined,
+                    })
+                  }
+                />
+
+                {question.type === "MULTI_SELECT" && (
+                  <div className="space-y-2">
+                    <Label>Options (one per line)</Label>
+                    <Textarea
+                      className="resize-none"
+                      rows={3}
+                      defaultValue={question.options.map((option) => option.label).join("\n")}
+                      onBlur={(e) => setOptions(sectionIndex, questionIndex, question, e.target.value)}
+                    />
+                  </div>
+                )}
+
+                <div className="flex flex-wrap gap-6">
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id={`required-${question.id}`}
+                      checked={question.required}
+                      onCheckedChange={(checked) =>
+                        updateQuestion(sectionIndex, questionIndex, { ...question, required: checked === true })
+                      }
+                    />
+                    <Label htmlFor={`required-${question.id}`} className="font-normal">
+                      Required
+                    </Label>
+                  </div>
+                  {question.type === "TEXT" && (
+                    <div className="flex items-center gap-2">
+                      <Checkbox
+                        id={`multiline-${question.id}`}
+                        checked={question.multiline}
+                        onCheckedChange={(checked) =>
+                          updateQuestion(sectionIndex, questionIndex, { ...question, multiline: checked === true })
+                        }
+                      />
+                      <Label htmlFor={`multiline-${question.id}`} className="font-normal">
+                        Long answer
+                      </Label>
+                    </div>
+                  )}
+                </div>
+              </div>
+            ))}
+
+            <Button variant="outline" size="sm" onClick={() => addQuestion(sectionIndex)}>
+              <PlusIcon className="h-4 w-4 mr-1" />
+              Add Question
+            </Button>
+          </CardContent>
+        </Card>
+      ))}
+
+      <Button variant="outline" onClick={addSection}>
+        <PlusIcon className="h-4 w-4 mr-1" />
+        Add Section
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,256 @@
+"use client";
+
+import { useMemo, useRef } from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Textarea } from "@/components/ui/textarea";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { toast } from "sonner";
+import { newIdempotencyKey } from "@/lib/utils";
+import {
+  buildSurveyAnswersSchema,
+  type SurveyDefinition,
+  type SurveyQuestion,
+} from "@/lib/survey-definition";
+
+export interface SurveyFormSurvey {
+  slug: string;
+  title: string;
+  description?: string | null;
+  version: {
+    id: string;
+    version: number;
+    definition: SurveyDefinition;
+  };
+}
+
+type SurveyFormValues = Record<string, unknown>;
+
+const emptyAnswer = (question: SurveyQuestion) => {
+  switch (question.type) {
+    case "TEXT":
+      return "";
+    case "MULTI_SELECT":
+      return [];
+    default:
+      return undefined;
+  }
+};
+
+// Renders any published survey version; the questions come from its definition
+export default function SurveyForm({
+  survey,
+  preview = false,
+}: {
+  survey: SurveyFormSurvey;
+  preview?: boolean;
+}) {
+  const { definition } = survey.version;
+  const answersSchema = useMemo(() => buildSurveyAnswersSchema(definition), [definition]);
+  const defaultValues = useMemo(
+    () =>
+      Object.fromEntries(
+        definition.sections.flatMap((section) =>
+          section.questions.map((question) => [question.id, emptyAnswer(question)])
+        )
+      ) as SurveyFormValues,
+    [definition]
+  );
+
+  const form = useForm<SurveyFormValues>({
+    resolver: zodResolver(answersSchema),
+    defaultValues,
+  });
+
+  const idempotencyKey = useRef(newIdempotencyKey());
+
+  const onSubmit = async (answers: SurveyFormValues) => {
+    if (preview) {
+      toast.success("Preview looks good", {
+        description: "Answers are not saved while previewing.",
+      });
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/surveys/${survey.slug}/responses`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Idempotency-Key": idempotencyKey.current,
+        },
+        body: JSON.stringify({ surveyVersionId: survey.version.id, answers }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result?.error || "Failed to submit survey");
+      }
+
+      form.reset(defaultValues);
+      idempotencyKey.current = newIdempotencyKey();
+
+      toast.success("Survey submitted successfully!", {
+        description: "Thank you for your valuable feedback.",
+      });
+    } catch (error) {
+      console.error("Submission error:", error);
+      toast.error("Failed to submit survey", {
+        description: error instanceof Error ? error.message : "Please try again later.",
+      });
+    }
+  };
+
+  const renderQuestion = (question: SurveyQuestion) => (
+    <FormField
+      key={question.id}
+      control={form.control}
+      name={question.id}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>
+            {question.label}
+            {question.required && " *"}
+          </FormLabel>
+
+          {question.type === "RATING" && (
+            <FormControl>
+              <div className="flex gap-2">
+                {[1, 2, 3, 4, 5].map((rating) => (
+                  <Button
+                    key={rating}
+                    type="button"
+                    variant={field.value === rating ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => field.onChange(rating)}
+                    className="w-10 h-10"
+                  >
+                    {rating}
+                  </Button>
+                ))}
+              </div>
+            </FormControl>
+          )}
+
+          {question.type === "YES_NO" && (
+            <FormControl>
+              <div className="flex gap-2">
+                {[true, false].map((answer) => (
+                  <Button
+                    key={String(answer)}
+                    type="button"
+                    variant={field.value === answer ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => field.onChange(answer)}
+                  >
+                    {answer ? "Yes" : "No"}
+                  </Button>
+                ))}
+              </div>
+            </FormControl>
+          )}
+
+          {question.type === "TEXT" && (
+            <FormControl>
+              {question.multiline ? (
+                <Textarea
+                  className="resize-none"
+                  rows={3}
+                  maxLength={question.maxLength}
+                  {...field}
+                  value={(field.value as string) ?? ""}
+                />
+              ) : (
+                <Input maxLength={question.maxLength} {...field} value={(field.value as string) ?? ""} />
+              )}
+            </FormControl>
+          )}
+
+          {question.type === "MULTI_SELECT" && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+              {question.options.map((option) => {
+                const selected = (field.value as string[] | undefined) ?? [];
+                return (
+                  <div key={option.value} className="flex flex-row items-start space-x-3">
+                    <Checkbox
+                      id={`${question.id}-${option.value}`}
+                      checked={selected.includes(option.value)}
+                      onCheckedChange={(checked) =>
+                        field.onChange(
+                          checked
+                            ? [...selected, option.value]
+                            : selected.filter((value) => value !== option.value)
+                        )
+                      }
+                    />
+                    <label htmlFor={`${question.id}-${option.value}`} className="text-sm leading-none">
+                      {option.label}
+                    </label>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {question.type === "RATING" ? (
+            <FormDescription className="text-xs">
+              {question.description || "Rate from 1 (poor) to 5 (excellent)"}
+            </FormDescription>
+          ) : (
+            question.description && (
+              <FormDescription className="text-xs">{question.description}</FormDescription>
+            )
+          )}
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <Card className="w-full max-w-4xl mx-auto">
+      <CardHeader>
+        <CardTitle>{survey.title}</CardTitle>
+        {survey.description && <CardDescription>{survey.description}</CardDescription>}
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-8">
+            {definition.sections.map((section, index) => (
+              <div key={section.id} className="space-y-4">
+                <h3 className="text-lg font-semibold">
+                  Section {index + 1}: {section.title}
+                </h3>
+                {section.description && (
+                  <p className="text-sm text-muted-foreground">{section.description}</p>
+                )}
+                <div className="space-y-6">{section.questions.map(renderQuestion)}</div>
+              </div>
+            ))}
+
+            <Button
+              type="submit"
+              className="w-full"
+              disabled={form.formState.isSubmitting}
+            >
+              {form.formState.isSubmitting ? "Submitting..." : preview ? "Check Answers" : "Submit Survey"}
+            </Button>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
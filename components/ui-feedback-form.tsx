@@ -1,8 +1,8 @@
 "use client";
 
 import { zodResolver } from "@hookform/resolvers/zod";
+import { useRef } from "react";
 import { useForm } from "react-hook-form";
-import { z } from "zod";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Textarea } from "@/components/ui/textarea";
@@ -16,24 +16,13 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { toast } from "sonner";
-
-const feedbackSchema = z.object({
-  // Ratings (1-5 scale) - all required for feedback
-  overallRating: z.number().min(1).max(5),
-  contentQualityRating: z.number().min(1).max(5),
-  speakerRating: z.number().min(1).max(5),
-  venueRating: z.number().min(1).max(5),
-  organizationRating: z.number().min(1).max(5),
-  networkingRating: z.number().min(1).max(5),
-  coffeeQualityRating: z.number().min(1).max(5),
-  vendorRating: z.number().min(1).max(5),
-  workshopRating: z.number().min(1).max(5),
-  
-  // Additional Comments (optional)
-  additionalComments: z.string().optional(),
-});
-
-type FeedbackFormData = z.infer<typeof feedbackSchema>;
+import { newIdempotencyKey } from "@/lib/utils";
+import { HoneypotField, useSpamSignals } from "@/components/honeypot-field";
+import { useI18n } from "@/components/i18n-provider";
+import { KIOSK_TOKEN_HEADER } from "@/lib/spam-signals";
+import { eventRatingDimensions } from "@/lib/event-feedback-fields";
+import { eventFeedbackSchema, type EventFeedbackInput } from "@/lib/schemas";
+import { validationErrorMap } from "@/lib/i18n";
 
 const feedbackTypeOptions = [
   { value: "OVERALL_EVENT", label: "🎪 Overall Event", description: "General feedback about the entire event" },
@@ -86,9 +75,20 @@ const hearAboutEventOptions = [
   "Other"
 ];
 
-export default function CoffeeEventRatingForm() {
-  const form = useForm<FeedbackFormData>({
-    resolver: zodResolver(feedbackSchema),
+interface CoffeeEventRatingFormProps {
+  // Tags the ratings with an event, e.g. the one a kiosk is set up for
+  sourceEvent?: string;
+  // Issued when staff start a kiosk; lets the device send more than the per-IP limit
+  kioskToken?: string;
+  onSubmitted?: () => void;
+}
+
+export default function CoffeeEventRatingForm({ sourceEvent, kioskToken, onSubmitted }: CoffeeEventRatingFormProps) {
+  const { locale, messages } = useI18n();
+  const t = messages.eventForm;
+
+  const form = useForm<EventFeedbackInput>({
+    resolver: zodResolver(eventFeedbackSchema, { error: validationErrorMap(locale) }),
     defaultValues: {
       overallRating: undefined,
       contentQualityRating: undefined,
@@ -103,41 +103,45 @@ export default function CoffeeEventRatingForm() {
     },
   });
 
-  const onSubmit = async (data: FeedbackFormData) => {
-    try {
-      const feedbackData = {
-        ...data,
-        submissionDate: new Date().toISOString(),
-      };
+  const idempotencyKey = useRef(newIdempotencyKey());
+  const spamSignals = useSpamSignals();
 
-      const response = await fetch("/api/feedback", {
+  const onSubmit = async (data: EventFeedbackInput) => {
+    try {
+      const response = await fetch("/api/event-feedback", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
+          "Idempotency-Key": idempotencyKey.current,
+          ...spamSignals.headers(),
+          ...(kioskToken && { [KIOSK_TOKEN_HEADER]: kioskToken }),
         },
-        body: JSON.stringify(feedbackData),
+        body: JSON.stringify({ ...data, sourceEvent, ...spamSignals.fields() }),
       });
 
       const result = await response.json();
 
       if (!response.ok) {
-        throw new Error(result.error || "Failed to submit feedback");
+        throw new Error(result.error || t.failed);
       }
 
       form.reset();
+      idempotencyKey.current = newIdempotencyKey();
+      spamSignals.restart();
       
-      toast.success("Coffee event ratings submitted successfully!", {
-        description: "Thank you for your feedback.",
+      toast.success(t.submitted, {
+        description: t.submittedDescription,
       });
+      onSubmitted?.();
     } catch (error) {
       console.error("Submission error:", error);
-      toast.error("Failed to submit ratings", {
-        description: error instanceof Error ? error.message : "Please try again later.",
+      toast.error(t.failed, {
+        description: error instanceof Error ? error.message : t.tryAgain,
       });
     }
   };
 
-  const RatingField = ({ name, label }: { name: keyof FeedbackFormData, label: string }) => (
+  const RatingField = ({ name, label }: { name: keyof EventFeedbackInput, label: string }) => (
     <FormField
       control={form.control}
       name={name}
@@ -161,7 +165,7 @@ export default function CoffeeEventRatingForm() {
             </div>
           </FormControl>
           <FormDescription>
-            Rate from 1 (poor) to 5 (excellent)
+            {t.ratingHint}
           </FormDescription>
           <FormMessage />
         </FormItem>
@@ -172,26 +176,21 @@ export default function CoffeeEventRatingForm() {
   return (
     <Card className="w-full rounded-sm">
       <CardHeader>
-        <CardTitle>Coffee Event Rating</CardTitle>
+        <CardTitle>{t.title}</CardTitle>
         <CardDescription>
-          Please rate your coffee event experience on a scale of 1-5.
+          {t.description}
         </CardDescription>
       </CardHeader>
       <CardContent>
         <Form {...form}>
           <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+            <HoneypotField ref={spamSignals.honeypotRef} />
             
             {/* All Rating Fields */}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-              <RatingField name="overallRating" label="Overall Coffee Event" />
-              <RatingField name="contentQualityRating" label="Coffee Education Quality" />
-              <RatingField name="speakerRating" label="Coffee Experts & Presentations" />
-              <RatingField name="venueRating" label="Venue & Facilities" />
-              <RatingField name="organizationRating" label="Event Organization" />
-              <RatingField name="networkingRating" label="Coffee Community Networking" />
-              <RatingField name="coffeeQualityRating" label="Coffee Quality & Variety" />
-              <RatingField name="vendorRating" label="Coffee Vendors & Exhibitors" />
-              <RatingField name="workshopRating" label="Coffee Workshops & Demos" />
+              {eventRatingDimensions.map(({ key }) => (
+                <RatingField key={key} name={key} label={t.ratings[key]} />
+              ))}
             </div>
 
             {/* Additional Comments */}
@@ -200,10 +199,10 @@ export default function CoffeeEventRatingForm() {
               name="additionalComments"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Additional Comments (Optional)</FormLabel>
+                  <FormLabel>{t.additionalComments}</FormLabel>
                   <FormControl>
                     <Textarea
-                      placeholder="Any additional feedback about the coffee event..."
+                      placeholder={t.additionalCommentsPlaceholder}
                       className="resize-none"
                       rows={4}
                       {...field}
@@ -219,7 +218,7 @@ export default function CoffeeEventRatingForm() {
               className="w-full rounded-md" 
               disabled={form.formState.isSubmitting}
             >
-              {form.formState.isSubmitting ? "Submitting..." : "Submit Coffee Event Ratings"}
+              {form.formState.isSubmitting ? t.submitting : t.submit}
             </Button>
           </form>
         </Form>
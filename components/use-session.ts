@@ -0,0 +1,41 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+export type StaffRole = "ADMIN" | "ANALYST" | "VIEWER";
+
+export interface SessionUser {
+  email: string;
+  name: string | null;
+  role: StaffRole;
+}
+
+// Mirrors lib/auth.ts; the API still checks every request, this only hides controls
+const roleRank: Record<StaffRole, number> = {
+  VIEWER: 1,
+  ANALYST: 2,
+  ADMIN: 3,
+};
+
+export const hasRole = (user: SessionUser | null, minimumRole: StaffRole) =>
+  !!user && roleRank[user.role] >= roleRank[minimumRole];
+
+// The signed-in staff member, or null until /api/auth/session answers for one
+export function useSession() {
+  const [user, setUser] = useState<SessionUser | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch("/api/auth/session")
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => {
+        if (!cancelled) setUser(data?.user ?? null);
+      })
+      .catch((error) => console.error("Error fetching session:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return user;
+}
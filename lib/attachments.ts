@@ -0,0 +1,211 @@
+import { randomUUID } from 'crypto';
+import type { Attachment, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { withRetry } from '@/lib/retry';
+import { getStorage } from '@/lib/storage';
+import { z } from 'zod';
+
+export const MAX_ATTACHMENT_BYTES = 5 * 1024 * 1024;
+export const MAX_THUMBNAIL_BYTES = 200 * 1024;
+export const MAX_ATTACHMENTS_PER_SUBMISSION = 5;
+// One file, its thumbnail and the multipart framing around them
+export const MAX_UPLOAD_REQUEST_BYTES = MAX_ATTACHMENT_BYTES + MAX_THUMBNAIL_BYTES + 64 * 1024;
+
+// Long enough for a submission queued offline the same day to still find its uploads
+const UNLINKED_TTL_MS = 24 * 60 * 60 * 1000;
+// Uploads one client (an IP, or a kiosk) may have waiting to be claimed: beyond
+// this its new uploads are refused until a submission claims some or they expire
+const MAX_UNCLAIMED_BYTES_PER_CLIENT = 100 * 1024 * 1024;
+const MAX_UNCLAIMED_UPLOADS_PER_CLIENT = 50;
+const EXPIRED_BATCH_SIZE = 100;
+
+export class AttachmentError extends Error {
+  constructor(message: string, readonly status = 400) {
+    super(message);
+  }
+}
+
+// Accepted types, recognised by their first bytes. SVG and HTML are never
+// accepted: they can carry scripts that would run when staff open them.
+const signatures: { contentType: string; matches: (data: Buffer) => boolean }[] = [
+  {
+    contentType: 'image/png',
+    matches: (data) => data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])),
+  },
+  { contentType: 'image/jpeg', matches: (data) => data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff },
+  { contentType: 'image/gif', matches: (data) => ['GIF87a', 'GIF89a'].includes(data.toString('latin1', 0, 6)) },
+  {
+    contentType: 'image/webp',
+    matches: (data) => data.toString('latin1', 0, 4) === 'RIFF' && data.toString('latin1', 8, 12) === 'WEBP',
+  },
+  { contentType: 'application/pdf', matches: (data) => data.toString('latin1', 0, 5) === '%PDF-' },
+];
+
+export function detectContentType(data: Buffer): string | null {
+  return signatures.find(({ matches }) => matches(data))?.contentType ?? null;
+}
+
+// Sent with a submission to attach files uploaded through POST /api/attachments
+export const attachmentIdsSchema = z.object({
+  attachmentIds: z.array(z.string().max(100)).max(MAX_ATTACHMENTS_PER_SUBMISSION).optional(),
+});
+
+export type AttachmentIds = z.infer<typeof attachmentIdsSchema>;
+
+// What the admin views show; the files themselves are fetched by URL
+export const attachmentSelect = {
+  id: true,
+  fileName: true,
+  contentType: true,
+  size: true,
+} satisfies Prisma.AttachmentSelect;
+
+export function attachmentUrl(id: string): string {
+  return `/api/attachments/${id}`;
+}
+
+// Keeps the name readable while dropping folders and characters that break headers
+function cleanFileName(name: string): string {
+  const base = name.split(/[\\/]/).pop() ?? '';
+  return base.replace(/[\u0000-\u001f\u007f"]/g, '').trim().slice(0, 200) || 'attachment';
+}
+
+async function removeFiles(attachment: Pick<Attachment, 'storageKey' | 'thumbnailKey'>) {
+  const storage = getStorage();
+  await storage.delete(attachment.storageKey);
+  if (attachment.thumbnailKey) await storage.delete(attachment.thumbnailKey);
+}
+
+// Uploads racing this check can overshoot the quota by a few files, which is fine for a disk guard
+async function assertUnclaimedQuota(uploader: string, size: number) {
+  const unclaimed = await withRetry(() =>
+    prisma.attachment.aggregate({
+      where: { uploader, uiFeedbackId: null, serviceFeedbackId: null },
+      _count: true,
+      _sum: { size: true },
+    })
+  );
+
+  if (
+    unclaimed._count >= MAX_UNCLAIMED_UPLOADS_PER_CLIENT ||
+    (unclaimed._sum.size ?? 0) + size > MAX_UNCLAIMED_BYTES_PER_CLIENT
+  ) {
+    throw new AttachmentError('Too many files are waiting to be sent with a submission, please try again later', 429);
+  }
+}
+
+/**
+ * Validates and stores an upload. The type is taken from the file's contents,
+ * whatever the browser claimed. A thumbnail is kept only for images and must
+ * itself be a small JPEG.
+ */
+export async function storeAttachment(file: File, thumbnail: File | null, uploader: string): Promise<Attachment> {
+  if (file.size === 0) {
+    throw new AttachmentError('The file is empty');
+  }
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    throw new AttachmentError(`Files must be at most ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB`, 413);
+  }
+  await assertUnclaimedQuota(uploader, file.size);
+
+  const data = Buffer.from(await file.arrayBuffer());
+  const contentType = detectContentType(data);
+  if (!contentType) {
+    throw new AttachmentError('Only PNG, JPEG, GIF and WebP images and PDF files can be attached', 415);
+  }
+
+  let thumbnailData: Buffer | null = null;
+  if (thumbnail && contentType.startsWith('image/')) {
+    if (thumbnail.size > MAX_THUMBNAIL_BYTES) {
+      throw new AttachmentError(`Thumbnails must be at most ${MAX_THUMBNAIL_BYTES / 1024} KB`, 413);
+    }
+    thumbnailData = Buffer.from(await thumbnail.arrayBuffer());
+    if (detectContentType(thumbnailData) !== 'image/jpeg') {
+      throw new AttachmentError('Thumbnails must be JPEG images', 415);
+    }
+  }
+
+  const storage = getStorage();
+  const storageKey = `attachments/${new Date().toISOString().slice(0, 7)}/${randomUUID()}`;
+  const thumbnailKey = thumbnailData ? `${storageKey}-thumbnail` : null;
+
+  await storage.put(storageKey, data, contentType);
+  if (thumbnailData && thumbnailKey) {
+    await storage.put(thumbnailKey, thumbnailData, 'image/jpeg');
+  }
+
+  try {
+    return await withRetry(() =>
+      prisma.attachment.create({
+        data: { fileName: cleanFileName(file.name), contentType, size: data.length, storageKey, thumbnailKey, uploader },
+      })
+    );
+  } catch (error) {
+    await removeFiles({ storageKey, thumbnailKey }).catch(() => {});
+    throw error;
+  }
+}
+
+type AttachmentOwner = { uiFeedbackId: string } | { serviceFeedbackId: string };
+
+/**
+ * Links a new submission's uploads to it, in the transaction that creates it.
+ * Only uploads that exist and belong to no other record are taken, checked in
+ * the same UPDATE so two submissions naming one upload can't both claim it.
+ * Other ids are skipped rather than failing the submission, since a submission
+ * queued offline may arrive after its uploads expired. Returns the ids claimed,
+ * in the order given.
+ */
+export async function claimAttachments(
+  tx: Prisma.TransactionClient,
+  ids: string[] | undefined,
+  owner: AttachmentOwner
+): Promise<string[]> {
+  if (!ids?.length) return [];
+
+  await tx.attachment.updateMany({
+    where: { id: { in: ids }, uiFeedbackId: null, serviceFeedbackId: null },
+    data: owner,
+  });
+  const claimed = await tx.attachment.findMany({
+    where: { id: { in: ids }, ...owner },
+    select: { id: true },
+  });
+
+  const claimedIds = new Set(claimed.map(({ id }) => id));
+  return ids.filter(id => claimedIds.has(id));
+}
+
+// The file's bytes, or its thumbnail's when asked for and one exists
+export function readAttachment(attachment: Attachment, thumbnail: boolean) {
+  const key = thumbnail && attachment.thumbnailKey ? attachment.thumbnailKey : attachment.storageKey;
+  return getStorage().get(key);
+}
+
+// Removes uploads no submission claimed. Runs after each upload attempt, so it needs no scheduler.
+export async function deleteExpiredUploads() {
+  try {
+    const expired = await withRetry(() =>
+      prisma.attachment.findMany({
+        where: {
+          uiFeedbackId: null,
+          serviceFeedbackId: null,
+          createdAt: { lt: new Date(Date.now() - UNLINKED_TTL_MS) },
+        },
+        take: EXPIRED_BATCH_SIZE,
+      })
+    );
+
+    for (const attachment of expired) {
+      // Checked again, in case a submission claimed it in the meantime
+      const { count } = await withRetry(() =>
+        prisma.attachment.deleteMany({
+          where: { id: attachment.id, uiFeedbackId: null, serviceFeedbackId: null },
+        })
+      );
+      if (count > 0) await removeFiles(attachment);
+    }
+  } catch (error) {
+    console.error('Error deleting expired uploads:', error);
+  }
+}
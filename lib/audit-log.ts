@@ -0,0 +1,131 @@
+import type { Prisma } from '@prisma/client';
+import type { Session } from '@/lib/auth';
+import { nextDay, toDateOnly } from '@/lib/dates';
+import { z } from 'zod';
+
+export const auditRecordTypes = [
+  'registration',
+  'service_feedback',
+  'ui_feedback',
+  'event_feedback',
+  'follow_up',
+  'customer',
+] as const;
+
+export type AuditRecordType = (typeof auditRecordTypes)[number];
+
+export type AuditChanges = Record<string, { from: unknown; to: unknown }>;
+
+const isoDate = z.iso.date({ error: 'Date must be in YYYY-MM-DD format' });
+
+export const auditQuerySchema = z.object({
+  // Filters
+  recordType: z.enum(auditRecordTypes).optional(),
+  recordId: z.string().optional(),
+  action: z.string().optional(),
+  actor: z.string().trim().max(100).optional(),
+  dateFrom: isoDate.optional(),
+  dateTo: isoDate.optional(),
+
+  // Cursor pagination, newest first
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+export type AuditQuery = z.infer<typeof auditQuerySchema>;
+
+// Parse URL search params, treating empty values as absent
+export function parseAuditQuery(searchParams: URLSearchParams): AuditQuery {
+  const params = Object.fromEntries(
+    [...searchParams.entries()].filter(([, value]) => value !== '')
+  );
+
+  return auditQuerySchema.parse(params);
+}
+
+// Bookkeeping columns that change with every update and say nothing about it
+const ignoredFields = new Set(['updatedAt']);
+
+// JSON form of a value, so dates and arrays compare by content and store as they print
+function toJson(value: unknown): unknown {
+  return value === undefined ? null : JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * Columns whose value differs between the row before and after a change.
+ * Only keys present in both are compared, so `after` may be a row with
+ * included relations or counts.
+ */
+export function diffRecords(before: object, after: object): AuditChanges {
+  const changes: AuditChanges = {};
+  const previous = before as Record<string, unknown>;
+
+  for (const [field, value] of Object.entries(after)) {
+    if (ignoredFields.has(field) || !(field in previous)) continue;
+
+    const from = toJson(previous[field]);
+    const to = toJson(value);
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[field] = { from, to };
+    }
+  }
+
+  return changes;
+}
+
+interface AuditChange {
+  recordType: AuditRecordType;
+  recordId: string;
+  action: string;
+  actor: Session;
+  before: object;
+  after: object;
+}
+
+/**
+ * Appends an audit entry for a change, using the same transaction as the
+ * change itself so one is never stored without the other. Nothing is written
+ * when no column actually changed.
+ */
+export async function recordChange(tx: Prisma.TransactionClient, change: AuditChange) {
+  const changes = diffRecords(change.before, change.after);
+  if (Object.keys(changes).length === 0) return null;
+
+  return tx.auditEntry.create({
+    data: {
+      recordType: change.recordType,
+      recordId: change.recordId,
+      action: change.action,
+      actorId: change.actor.userId,
+      actorName: change.actor.name,
+      actorEmail: change.actor.email,
+      changes: changes as Prisma.InputJsonValue,
+    },
+  });
+}
+
+export function buildAuditWhere(query: AuditQuery): Prisma.AuditEntryWhereInput {
+  const where: Prisma.AuditEntryWhereInput = {
+    recordType: query.recordType,
+    recordId: query.recordId,
+    action: query.action,
+  };
+
+  // Matches the actor's name or email
+  if (query.actor) {
+    where.OR = [
+      { actorName: { contains: query.actor, mode: 'insensitive' } },
+      { actorEmail: { contains: query.actor, mode: 'insensitive' } },
+    ];
+  }
+
+  // dateTo is inclusive
+  if (query.dateFrom || query.dateTo) {
+    where.createdAt = {
+      ...(query.dateFrom && { gte: toDateOnly(query.dateFrom) }),
+      ...(query.dateTo && { lt: nextDay(query.dateTo) }),
+    };
+  }
+
+  return where;
+}
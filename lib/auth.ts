@@ -0,0 +1,164 @@
+import { createHmac, randomBytes, scryptSync, timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import type { UserRole } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { withRetry } from '@/lib/retry';
+
+export const SESSION_COOKIE = 'nelliys_session';
+export const SESSION_MAX_AGE = 60 * 60 * 8; // 8 hours, in seconds
+
+// Higher rank includes every permission of the lower ones
+const roleRank: Record<UserRole, number> = {
+  VIEWER: 1,
+  ANALYST: 2,
+  ADMIN: 3,
+};
+
+export interface Session {
+  userId: string;
+  email: string;
+  name: string | null;
+  role: UserRole;
+  expiresAt: number; // epoch milliseconds
+}
+
+function getSecret(): string {
+  const secret = process.env.AUTH_SECRET;
+  if (!secret) {
+    throw new Error('AUTH_SECRET environment variable is not set');
+  }
+  return secret;
+}
+
+// Passwords are stored as "scrypt:<salt>:<hash>" (hex), matching scripts/create-user.mjs
+export function hashPassword(password: string): string {
+  const salt = randomBytes(16).toString('hex');
+  const hash = scryptSync(password, salt, 64).toString('hex');
+  return `scrypt:${salt}:${hash}`;
+}
+
+export function verifyPassword(password: string, stored: string): boolean {
+  const [algorithm, salt, hash] = stored.split(':');
+  if (algorithm !== 'scrypt' || !salt || !hash) return false;
+
+  const expected = Buffer.from(hash, 'hex');
+  const actual = scryptSync(password, salt, expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+function sign(value: string): string {
+  return createHmac('sha256', getSecret()).update(value).digest('base64url');
+}
+
+function signaturesMatch(expected: string, actual: string): boolean {
+  const a = Buffer.from(expected);
+  const b = Buffer.from(actual);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * A keyed hash of a short secret such as a kiosk PIN. Unlike a plain hash it
+ * can be handed to the client: without AUTH_SECRET nobody can test guesses
+ * against it offline.
+ */
+export function signValue(purpose: string, value: string): string {
+  return sign(`${purpose}.${value}`);
+}
+
+export function verifySignedValue(purpose: string, value: string, signature: string): boolean {
+  return signaturesMatch(signValue(purpose, value), signature);
+}
+
+/**
+ * A readable but tamper-proof token carrying `payload` until its `expiresAt`.
+ * `purpose` is signed along with it, so a token made for one use (a session,
+ * a kiosk) is never accepted as another.
+ */
+export function signPayload<T extends { expiresAt: number }>(purpose: string, payload: T): string {
+  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${encoded}.${sign(`${purpose}.${encoded}`)}`;
+}
+
+export function verifyPayload<T extends { expiresAt: number }>(purpose: string, token: string | undefined): T | null {
+  if (!token) return null;
+
+  const [encoded, signature] = token.split('.');
+  if (!encoded || !signature) return null;
+
+  if (!signaturesMatch(sign(`${purpose}.${encoded}`), signature)) return null;
+
+  try {
+    const payload = JSON.parse(Buffer.from(encoded, 'base64url').toString()) as T;
+    return payload.expiresAt > Date.now() ? payload : null;
+  } catch {
+    return null;
+  }
+}
+
+export function createSessionToken(session: Omit<Session, 'expiresAt'>): string {
+  return signPayload<Session>('session', {
+    ...session,
+    expiresAt: Date.now() + SESSION_MAX_AGE * 1000,
+  });
+}
+
+export function verifySessionToken(token: string | undefined): Session | null {
+  return verifyPayload<Session>('session', token);
+}
+
+// One lookup per request, however many times a route asks for the session
+const sessionsByRequest = new WeakMap<NextRequest, Promise<Session | null>>();
+
+/**
+ * The signed-in user, checked against their account on every request: a
+ * deactivated user is signed out at once, and a role change applies to the
+ * next request rather than when the cookie expires.
+ */
+export function getSession(request: NextRequest): Promise<Session | null> {
+  let session = sessionsByRequest.get(request);
+  if (!session) {
+    session = loadSession(request);
+    sessionsByRequest.set(request, session);
+  }
+  return session;
+}
+
+async function loadSession(request: NextRequest): Promise<Session | null> {
+  const token = verifySessionToken(request.cookies.get(SESSION_COOKIE)?.value);
+  if (!token) return null;
+
+  const user = await withRetry(() =>
+    prisma.user.findUnique({
+      where: { id: token.userId },
+      select: { email: true, name: true, role: true, isActive: true },
+    })
+  );
+  if (!user?.isActive) return null;
+
+  return { ...token, email: user.email, name: user.name, role: user.role };
+}
+
+export function hasRole(session: Session | null, minimumRole: UserRole): session is Session {
+  return !!session && roleRank[session.role] >= roleRank[minimumRole];
+}
+
+// Returns an error response when the request is not allowed, or null to continue
+export async function requireRole(request: NextRequest, minimumRole: UserRole): Promise<NextResponse | null> {
+  const session = await getSession(request);
+
+  if (!session) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  if (!hasRole(session, minimumRole)) {
+    return NextResponse.json(
+      { error: 'Insufficient permissions' },
+      { status: 403 }
+    );
+  }
+
+  return null;
+}
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import {
+  extractContacts,
+  normalizeCompanyName,
+  normalizeEmail,
+  normalizePhone,
+  parseMatchCursor,
+  satisfactionTrend,
+} from '@/lib/customers';
+
+describe('normalizeEmail', () => {
+  it('lowercases and trims', () => {
+    expect(normalizeEmail('  Abebe@Example.COM ')).toBe('abebe@example.com');
+  });
+
+  it('rejects text that is not an address', () => {
+    expect(normalizeEmail('abebe at example')).toBeNull();
+    expect(normalizeEmail('abebe@localhost')).toBeNull();
+  });
+});
+
+describe('normalizePhone', () => {
+  it('matches local and international forms of the same number', () => {
+    expect(normalizePhone('+251 911 234567')).toBe('911234567');
+    expect(normalizePhone('0911-23-45-67')).toBe('911234567');
+  });
+
+  it('rejects numbers too short to identify anyone', () => {
+    expect(normalizePhone('12-34')).toBeNull();
+  });
+});
+
+describe('normalizeCompanyName', () => {
+  it('ignores case, punctuation and legal-form suffixes', () => {
+    expect(normalizeCompanyName('Abay Coffee P.L.C.')).toBe('abay coffee');
+    expect(normalizeCompanyName('ABAY COFFEE plc')).toBe('abay coffee');
+    expect(normalizeCompanyName('Abay Coffee Share Company')).toBe('abay coffee');
+  });
+
+  it('strips stacked suffixes', () => {
+    expect(normalizeCompanyName('Abay Trading Co. Ltd.')).toBe('abay trading');
+  });
+
+  it('spells out ampersands', () => {
+    expect(normalizeCompanyName('Abay & Sons')).toBe('abay and sons');
+  });
+
+  it('keeps non-Latin names', () => {
+    expect(normalizeCompanyName('አባይ ቡና')).toBe('አባይ ቡና');
+  });
+
+  it('returns null when only a suffix is left', () => {
+    expect(normalizeCompanyName('PLC')).toBeNull();
+  });
+});
+
+describe('extractContacts', () => {
+  it('separates emails from phone numbers in free text', () => {
+    expect(extractContacts('Call +251 911 234567 or mail sales@abay.et')).toEqual({
+      emails: ['sales@abay.et'],
+      phones: ['+251 911 234567'],
+    });
+  });
+
+  it('does not read the digits of an email as a phone number', () => {
+    expect(extractContacts('office1234567@abay.et').phones).toEqual([]);
+  });
+
+  it('handles an empty field', () => {
+    expect(extractContacts(null)).toEqual({ emails: [], phones: [] });
+  });
+});
+
+describe('satisfactionTrend', () => {
+  it('averages by month, oldest first, skipping missing recommend scores', () => {
+    expect(
+      satisfactionTrend([
+        { createdAt: new Date('2026-02-10T00:00:00Z'), overallSatisfaction: 4, recommendScore: null },
+        { createdAt: new Date('2026-01-03T00:00:00Z'), overallSatisfaction: 5, recommendScore: 9 },
+        { createdAt: new Date('2026-01-20T00:00:00Z'), overallSatisfaction: 2, recommendScore: 6 },
+      ])
+    ).toEqual([
+      { month: '2026-01', responses: 2, overallSatisfaction: 3.5, recommendScore: 7.5 },
+      { month: '2026-02', responses: 1, overallSatisfaction: 4, recommendScore: null },
+    ]);
+  });
+});
+
+describe('parseMatchCursor', () => {
+  it('starts with registrations without a cursor', () => {
+    expect(parseMatchCursor(null)).toEqual({ table: 'registration' });
+  });
+
+  it('reads back the cursor a previous call returned', () => {
+    expect(parseMatchCursor('service_feedback:clx123')).toEqual({ table: 'service_feedback', after: 'clx123' });
+    expect(parseMatchCursor('service_feedback:')).toEqual({ table: 'service_feedback', after: undefined });
+  });
+
+  it('rejects anything else', () => {
+    expect(parseMatchCursor('customer:clx123')).toBeNull();
+  });
+});
@@ -0,0 +1,326 @@
+import { CustomerContactType } from '@prisma/client';
+import type { Session } from '@/lib/auth';
+import { recordChange } from '@/lib/audit-log';
+import { prisma } from '@/lib/prisma';
+import { isUniqueConstraintError } from '@/lib/prisma-errors';
+import { withRetry } from '@/lib/retry';
+
+export interface CustomerDetails {
+  name?: string | null;
+  companyName?: string | null;
+  emails: string[];
+  phones: string[];
+}
+
+interface NormalizedContact {
+  type: CustomerContactType;
+  value: string;
+  display: string;
+}
+
+const EMAIL_PATTERN = /[^\s<>(),;:]+@[^\s<>(),;:]+\.[a-z]{2,}/gi;
+const PHONE_PATTERN = /\+?\d[\d\s\-().]{5,}\d/g;
+
+// Legal-form suffixes that people add or leave off when typing a company name
+const COMPANY_SUFFIXES = /\b(plc|p\.l\.c|ltd|limited|llc|inc|corp|co|sc|s\.c|share company|private limited company)\.?$/;
+
+// Compare only the subscriber part of a number so "+251 911 234567" and "0911234567" match
+const PHONE_MATCH_DIGITS = 9;
+
+export function normalizeEmail(value: string): string | null {
+  const email = value.trim().toLowerCase();
+  return /^\S+@\S+\.\S+$/.test(email) ? email : null;
+}
+
+export function normalizePhone(value: string): string | null {
+  const digits = value.replace(/\D/g, '');
+  return digits.length >= 7 ? digits.slice(-PHONE_MATCH_DIGITS) : null;
+}
+
+export function normalizeCompanyName(value: string): string | null {
+  let name = value
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^\p{L}\p{N}\s.]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  let previous;
+  do {
+    previous = name;
+    name = name.replace(COMPANY_SUFFIXES, '').trim();
+  } while (name !== previous);
+
+  name = name.replace(/\./g, '').replace(/\s+/g, ' ').trim();
+  return name || null;
+}
+
+// Pull emails and phone numbers out of a free-text field like ServiceFeedback.contactInfo
+export function extractContacts(text: string | null | undefined): Pick<CustomerDetails, 'emails' | 'phones'> {
+  if (!text) return { emails: [], phones: [] };
+
+  const emails = text.match(EMAIL_PATTERN) ?? [];
+  const phones = text.replace(EMAIL_PATTERN, ' ').match(PHONE_PATTERN) ?? [];
+  return { emails, phones };
+}
+
+function normalizeContacts(details: CustomerDetails): NormalizedContact[] {
+  const contacts = new Map<string, NormalizedContact>();
+
+  for (const email of details.emails) {
+    const value = normalizeEmail(email);
+    if (value) contacts.set(`EMAIL:${value}`, { type: 'EMAIL', value, display: email.trim() });
+  }
+  for (const phone of details.phones) {
+    const value = normalizePhone(phone);
+    if (value) contacts.set(`PHONE:${value}`, { type: 'PHONE', value, display: phone.trim() });
+  }
+
+  return [...contacts.values()];
+}
+
+async function findOrCreateCustomer(details: CustomerDetails): Promise<string | null> {
+  const contacts = normalizeContacts(details);
+  const companyName = details.companyName?.trim() || null;
+  const normalizedName = companyName ? normalizeCompanyName(companyName) : null;
+
+  if (contacts.length === 0 && !normalizedName) return null;
+
+  // Contact details identify a customer more reliably than a typed company name
+  const byContact = contacts.length
+    ? await prisma.customerContact.findFirst({
+        where: { OR: contacts.map(({ type, value }) => ({ type, value })) },
+        orderBy: { type: 'asc' }, // EMAIL before PHONE
+        select: { customerId: true },
+      })
+    : null;
+
+  const customerId =
+    byContact?.customerId ??
+    (normalizedName
+      ? (await prisma.customer.findUnique({ where: { normalizedName }, select: { id: true } }))?.id
+      : undefined);
+
+  if (customerId) {
+    await prisma.customerContact.createMany({
+      data: contacts.map(contact => ({ ...contact, customerId })),
+      skipDuplicates: true,
+    });
+    return customerId;
+  }
+
+  const customer = await prisma.customer.create({
+    data: {
+      name: companyName || details.name?.trim() || contacts[0].display,
+      normalizedName,
+      contacts: { create: contacts },
+    },
+    select: { id: true },
+  });
+  return customer.id;
+}
+
+/**
+ * Finds the customer a submission belongs to, creating one when nothing
+ * matches. Returns null when the submission has nothing to match on.
+ */
+export async function resolveCustomerId(details: CustomerDetails): Promise<string | null> {
+  try {
+    return await withRetry(() => findOrCreateCustomer(details));
+  } catch (error) {
+    // Another submission created the same customer or contact first; match against it
+    if (isUniqueConstraintError(error)) {
+      return withRetry(() => findOrCreateCustomer(details));
+    }
+    throw error;
+  }
+}
+
+export function registrationCustomerDetails(registration: {
+  name?: string | null;
+  companyName?: string | null;
+  email?: string | null;
+  mobileNumber?: string | null;
+  officePhone?: string | null;
+}): CustomerDetails {
+  return {
+    name: registration.name,
+    companyName: registration.companyName,
+    emails: registration.email ? [registration.email] : [],
+    phones: [registration.mobileNumber, registration.officePhone].filter((phone): phone is string => !!phone),
+  };
+}
+
+export function serviceFeedbackCustomerDetails(feedback: {
+  customerName?: string | null;
+  companyName?: string | null;
+  contactInfo?: string | null;
+}): CustomerDetails {
+  return {
+    name: feedback.customerName,
+    companyName: feedback.companyName,
+    ...extractContacts(feedback.contactInfo),
+  };
+}
+
+export interface SatisfactionPoint {
+  month: string; // YYYY-MM
+  responses: number;
+  overallSatisfaction: number | null;
+  recommendScore: number | null;
+}
+
+const averageOf = (values: number[]) =>
+  values.length ? Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 100) / 100 : null;
+
+// Monthly averages by submission date, oldest first
+export function satisfactionTrend(
+  feedback: { createdAt: Date; overallSatisfaction: number; recommendScore: number | null }[]
+): SatisfactionPoint[] {
+  const byMonth = new Map<string, typeof feedback>();
+  for (const item of feedback) {
+    const month = item.createdAt.toISOString().slice(0, 7);
+    const group = byMonth.get(month);
+    if (group) {
+      group.push(item);
+    } else {
+      byMonth.set(month, [item]);
+    }
+  }
+
+  return [...byMonth]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([month, items]) => ({
+      month,
+      responses: items.length,
+      overallSatisfaction: averageOf(items.map(item => item.overallSatisfaction)),
+      recommendScore: averageOf(
+        items.flatMap(item => (item.recommendScore == null ? [] : [item.recommendScore]))
+      ),
+    }));
+}
+
+const MATCH_BATCH_SIZE = 100;
+
+// Submissions looked at per call, so one request stays short however large the backlog is
+export const MATCH_LIMIT = 500;
+
+export interface MatchResult {
+  registrations: number;
+  serviceFeedback: number;
+  unmatched: number;
+  next: string | null; // Pass back as `after` to continue; null once every submission has been looked at
+}
+
+// Registrations are walked first, then service feedback, each in id order
+export type MatchCursor = { table: 'registration' | 'service_feedback'; after?: string };
+
+export function parseMatchCursor(value: string | null | undefined): MatchCursor | null {
+  if (!value) return { table: 'registration' };
+  const match = /^(registration|service_feedback):(\w*)$/.exec(value);
+  return match ? { table: match[1] as MatchCursor['table'], after: match[2] || undefined } : null;
+}
+
+async function linkRegistrationBatch(actor: Session, after: string | undefined, take: number) {
+  const registrations = await withRetry(() =>
+    prisma.registration.findMany({
+      where: { customerId: null, ...(after && { id: { gt: after } }) },
+      select: { id: true, customerId: true, name: true, companyName: true, email: true, mobileNumber: true, officePhone: true },
+      orderBy: { id: 'asc' },
+      take,
+    })
+  );
+
+  let linked = 0;
+  for (const registration of registrations) {
+    const customerId = await resolveCustomerId(registrationCustomerDetails(registration));
+    if (!customerId) continue;
+    await withRetry(() =>
+      prisma.$transaction(async (tx) => {
+        const updated = await tx.registration.update({ where: { id: registration.id }, data: { customerId } });
+        await recordChange(tx, {
+          recordType: 'registration',
+          recordId: registration.id,
+          action: 'customer_match',
+          actor,
+          before: registration,
+          after: updated,
+        });
+      })
+    );
+    linked++;
+  }
+
+  return { seen: registrations.length, linked, last: registrations.at(-1)?.id };
+}
+
+async function linkServiceFeedbackBatch(actor: Session, after: string | undefined, take: number) {
+  const feedback = await withRetry(() =>
+    prisma.serviceFeedback.findMany({
+      where: { customerId: null, ...(after && { id: { gt: after } }) },
+      select: { id: true, customerId: true, customerName: true, companyName: true, contactInfo: true },
+      orderBy: { id: 'asc' },
+      take,
+    })
+  );
+
+  let linked = 0;
+  for (const item of feedback) {
+    const customerId = await resolveCustomerId(serviceFeedbackCustomerDetails(item));
+    if (!customerId) continue;
+    await withRetry(() =>
+      prisma.$transaction(async (tx) => {
+        const updated = await tx.serviceFeedback.update({ where: { id: item.id }, data: { customerId } });
+        await recordChange(tx, {
+          recordType: 'service_feedback',
+          recordId: item.id,
+          action: 'customer_match',
+          actor,
+          before: item,
+          after: updated,
+        });
+      })
+    );
+    linked++;
+  }
+
+  return { seen: feedback.length, linked, last: feedback.at(-1)?.id };
+}
+
+// Matches registrations and service feedback that have no customer yet, e.g.
+// those submitted before customers existed, in batches of up to MATCH_LIMIT
+// per call. Each link is audited as the actor's change. Returns how many were
+// linked and where the next call should continue.
+export async function linkUnmatchedSubmissions(actor: Session, cursor: MatchCursor): Promise<MatchResult> {
+  const result: MatchResult = { registrations: 0, serviceFeedback: 0, unmatched: 0, next: null };
+  let { table, after } = cursor;
+  let budget = MATCH_LIMIT;
+
+  while (budget > 0) {
+    const take = Math.min(MATCH_BATCH_SIZE, budget);
+    const batch =
+      table === 'registration'
+        ? await linkRegistrationBatch(actor, after, take)
+        : await linkServiceFeedbackBatch(actor, after, take);
+
+    if (table === 'registration') {
+      result.registrations += batch.linked;
+    } else {
+      result.serviceFeedback += batch.linked;
+    }
+    result.unmatched += batch.seen - batch.linked;
+    budget -= batch.seen;
+
+    if (batch.seen < take) {
+      // This table is done; move on to the next one, or stop after the last
+      if (table === 'service_feedback') return result;
+      table = 'service_feedback';
+      after = undefined;
+    } else {
+      after = batch.last;
+    }
+  }
+
+  result.next = `${table}:${after ?? ''}`;
+  return result;
+}
@@ -0,0 +1,19 @@
+// Helpers for calendar-date columns (Postgres `date`), which Prisma reads as
+// midnight UTC and the JSON APIs return as ISO timestamps.
+
+// 'YYYY-MM-DD' from a form or query string -> midnight UTC on that day
+export function toDateOnly(value: string): Date {
+  return new Date(`${value}T00:00:00.000Z`);
+}
+
+// Midnight UTC on the day after, for exclusive upper bounds
+export function nextDay(value: string): Date {
+  const date = toDateOnly(value);
+  date.setUTCDate(date.getUTCDate() + 1);
+  return date;
+}
+
+// Date or ISO timestamp -> 'YYYY-MM-DD', the value a date input expects
+export function formatDateOnly(value: Date | string): string {
+  return (typeof value === 'string' ? value : value.toISOString()).slice(0, 10);
+}
@@ -0,0 +1,96 @@
+import { createHash } from 'node:crypto';
+import { extractContacts, normalizeCompanyName, normalizeEmail, normalizePhone } from '@/lib/customers';
+import type { RegistrationInput, ServiceFeedbackInput, UIFeedbackInput } from '@/lib/schemas';
+
+// Matching submissions from the same contact inside this window are treated as resubmissions
+export const DUPLICATE_WINDOW_MINUTES = 30;
+
+export class DuplicateSubmissionError extends Error {
+  constructor(readonly duplicateOfId: string) {
+    super(`Duplicate of submission ${duplicateOfId}`);
+  }
+}
+
+const unique = (values: (string | null | undefined)[]) =>
+  [...new Set(values.filter((value): value is string => !!value))].sort();
+
+// Case, whitespace, key order and array order don't make two submissions different
+function normalizeValue(value: unknown): unknown {
+  if (typeof value === 'string') return value.trim().replace(/\s+/g, ' ').toLowerCase() || null;
+  if (Array.isArray(value)) return value.map(item => JSON.stringify(normalizeValue(item))).sort();
+  if (value instanceof Date) return value.toISOString();
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map(key => [key, normalizeValue((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value ?? null;
+}
+
+/**
+ * Hash of who submitted and what they said. Anonymous submissions get no
+ * fingerprint: two people can legitimately give identical answers.
+ */
+function submissionFingerprint(contacts: string[], content: object): string | null {
+  if (contacts.length === 0) return null;
+
+  return createHash('sha256')
+    .update(JSON.stringify([contacts, normalizeValue(content)]))
+    .digest('hex');
+}
+
+// Normalized emails and phone numbers that identify who sent a submission
+export function serviceFeedbackContacts(feedback: ServiceFeedbackInput): string[] {
+  const { emails, phones } = extractContacts(feedback.contactInfo);
+  const contacts = [...emails.map(normalizeEmail), ...phones.map(normalizePhone)];
+
+  // Without contact details fall back to who they said they are
+  const name = feedback.customerName?.trim().toLowerCase();
+  const company = feedback.companyName ? normalizeCompanyName(feedback.companyName) : null;
+  if (!contacts.some(Boolean) && name) contacts.push(`${name}@${company ?? ''}`);
+
+  return unique(contacts);
+}
+
+export function uiFeedbackContacts(feedback: UIFeedbackInput): string[] {
+  return unique([feedback.userEmail ? normalizeEmail(feedback.userEmail) : null]);
+}
+
+export function registrationContacts(registration: RegistrationInput): string[] {
+  return unique([
+    registration.email ? normalizeEmail(registration.email) : null,
+    registration.mobileNumber ? normalizePhone(registration.mobileNumber) : null,
+    registration.officePhone ? normalizePhone(registration.officePhone) : null,
+  ]);
+}
+
+export function serviceFeedbackFingerprint(feedback: ServiceFeedbackInput) {
+  return submissionFingerprint(serviceFeedbackContacts(feedback), feedback);
+}
+
+export function uiFeedbackFingerprint(feedback: UIFeedbackInput) {
+  return submissionFingerprint(uiFeedbackContacts(feedback), feedback);
+}
+
+export function registrationFingerprint(registration: RegistrationInput) {
+  return submissionFingerprint(registrationContacts(registration), registration);
+}
+
+/**
+ * Throws DuplicateSubmissionError when `findRecent` finds a row with the same
+ * fingerprint created inside the window. Call it inside the same `withRetry`
+ * operation as the create, so a create that committed before the connection
+ * dropped is reported as a duplicate on retry instead of being stored twice.
+ */
+export async function assertNotDuplicate(
+  fingerprint: string | null,
+  findRecent: (where: { fingerprint: string; createdAt: { gte: Date } }) => Promise<{ id: string } | null>
+) {
+  if (!fingerprint) return;
+
+  const since = new Date(Date.now() - DUPLICATE_WINDOW_MINUTES * 60 * 1000);
+  const duplicate = await findRecent({ fingerprint, createdAt: { gte: since } });
+  if (duplicate) throw new DuplicateSubmissionError(duplicate.id);
+}
@@ -0,0 +1,15 @@
+// Rating questions on the coffee event form, in the order the form shows them
+
+export const eventRatingDimensions = [
+  { key: "overallRating", label: "Overall Coffee Event" },
+  { key: "contentQualityRating", label: "Coffee Education Quality" },
+  { key: "speakerRating", label: "Coffee Experts & Presentations" },
+  { key: "venueRating", label: "Venue & Facilities" },
+  { key: "organizationRating", label: "Event Organization" },
+  { key: "networkingRating", label: "Coffee Community Networking" },
+  { key: "coffeeQualityRating", label: "Coffee Quality & Variety" },
+  { key: "vendorRating", label: "Coffee Vendors & Exhibitors" },
+  { key: "workshopRating", label: "Coffee Workshops & Demos" },
+] as const;
+
+export type EventRatingDimension = (typeof eventRatingDimensions)[number]["key"];
@@ -0,0 +1,78 @@
+import { FeedbackStatus, FeedbackType, Prisma, VoteType } from '@prisma/client';
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { signPayload, verifyPayload } from '@/lib/auth';
+import { publicResponseSelect, publicResponseWhere } from '@/lib/feedback-responses';
+
+export const boardFeedbackTypes: FeedbackType[] = ['FEATURE_REQUEST', 'IMPROVEMENT'];
+
+// Duplicates are left off the board; their votes stay with them and are not merged into the original
+const hiddenStatuses: FeedbackStatus[] = ['DUPLICATE'];
+
+export const boardWhere = {
+  feedbackType: { in: boardFeedbackTypes },
+  status: { notIn: hiddenStatuses },
+  flagged: false, // Spam held for moderation is neither listed nor open to votes
+} satisfies Prisma.UIFeedbackWhereInput;
+
+export const boardQuerySchema = z.object({
+  sort: z.enum(['score', 'recent']).default('score'),
+});
+
+// Set when a vote is cast, so the board only shows a browser the votes it cast itself
+export const VOTER_COOKIE = 'board_voter';
+export const VOTER_TTL_MS = 365 * 24 * 60 * 60 * 1000;
+
+interface VoterToken {
+  voterEmail: string;
+  expiresAt: number; // epoch milliseconds
+}
+
+export function createVoterToken(voterEmail: string): string {
+  return signPayload<VoterToken>('board-voter', { voterEmail, expiresAt: Date.now() + VOTER_TTL_MS });
+}
+
+export function voterFromRequest(request: NextRequest): string | undefined {
+  return verifyPayload<VoterToken>('board-voter', request.cookies.get(VOTER_COOKIE)?.value)?.voterEmail;
+}
+
+export const voteSchema = z.object({
+  voterEmail: z.string().trim().toLowerCase().email("Please enter a valid email"),
+  voteType: z.enum(VoteType),
+});
+
+// Public fields only: no submitter or voter details
+export const boardItemSelect = {
+  id: true,
+  title: true,
+  description: true,
+  feedbackType: true,
+  status: true,
+  createdAt: true,
+  votes: { select: { voteType: true, voterEmail: true } },
+  responses: {
+    where: publicResponseWhere,
+    orderBy: { createdAt: 'asc' },
+    select: publicResponseSelect,
+  },
+} satisfies Prisma.UIFeedbackSelect;
+
+type BoardRow = Prisma.UIFeedbackGetPayload<{ select: typeof boardItemSelect }>;
+
+export function toBoardItem({ votes, ...item }: BoardRow, voterEmail?: string) {
+  const upvotes = votes.filter(vote => vote.voteType === 'UPVOTE').length;
+  const downvotes = votes.length - upvotes;
+  const myVote = voterEmail
+    ? votes.find(vote => vote.voterEmail === voterEmail)?.voteType ?? null
+    : null;
+
+  return {
+    ...item,
+    upvotes,
+    downvotes,
+    score: upvotes - downvotes,
+    myVote,
+  };
+}
+
+export type BoardItem = ReturnType<typeof toBoardItem>;
@@ -0,0 +1,18 @@
+import { Prisma } from '@prisma/client';
+import { z } from 'zod';
+
+export const responseCreateSchema = z.object({
+  response: z.string().trim().min(1, "Response is required").max(2000, "Response must be at most 2000 characters"),
+  isInternal: z.boolean().default(false),
+});
+
+// Internal notes are filtered out and staff emails are never exposed publicly
+export const publicResponseWhere = { isInternal: false } satisfies Prisma.FeedbackResponseWhereInput;
+
+export const publicResponseSelect = {
+  id: true,
+  authorName: true,
+  authorRole: true,
+  response: true,
+  createdAt: true,
+} satisfies Prisma.FeedbackResponseSelect;
@@ -0,0 +1,196 @@
+import { prisma } from '@/lib/prisma';
+import { withRetry } from '@/lib/retry';
+import { followUpCaseCreate } from '@/lib/follow-ups';
+import { toDateOnly } from '@/lib/dates';
+import { resolveCustomerId, serviceFeedbackCustomerDetails } from '@/lib/customers';
+import {
+  DuplicateSubmissionError,
+  assertNotDuplicate,
+  serviceFeedbackFingerprint,
+  uiFeedbackFingerprint,
+} from '@/lib/duplicate-submissions';
+import { isUniqueConstraintError } from '@/lib/prisma-errors';
+import { notFlagged, type Moderation } from '@/lib/spam-protection';
+import {
+  serviceFeedbackSchema,
+  uiFeedbackSchema,
+  type ServiceFeedbackInput,
+  type UIFeedbackInput,
+} from '@/lib/schemas';
+import { locales } from '@/lib/i18n';
+import {
+  attachmentIdsSchema,
+  attachmentUrl,
+  claimAttachments,
+  type AttachmentIds,
+} from '@/lib/attachments';
+import { z } from 'zod';
+
+// Sent by forms that queue submissions while offline, see lib/offline-queue.ts
+export const offlineSubmissionSchema = z.object({
+  clientSubmissionId: z.string().trim().min(1).max(100).optional(),
+  submittedAt: z.iso.datetime({ error: 'submittedAt must be an ISO timestamp' }).optional(),
+});
+
+export type OfflineSubmission = z.infer<typeof offlineSubmissionSchema>;
+
+// The language the form was shown in; older clients don't send one
+export const submissionLocaleSchema = z.object({
+  locale: z.enum(locales).optional(),
+});
+
+export type SubmissionLocale = z.infer<typeof submissionLocaleSchema>;
+
+// Request contract for typed submissions: the `kind` field names the feedback type
+export const serviceFeedbackSubmissionSchema = serviceFeedbackSchema
+  .extend({ kind: z.literal('service') })
+  .extend(offlineSubmissionSchema.shape)
+  .extend(submissionLocaleSchema.shape)
+  .extend(attachmentIdsSchema.shape);
+export const uiFeedbackSubmissionSchema = uiFeedbackSchema
+  .extend({ kind: z.literal('ui') })
+  .extend(attachmentIdsSchema.shape);
+
+export const feedbackSubmissionSchema = z.discriminatedUnion('kind', [
+  serviceFeedbackSubmissionSchema,
+  uiFeedbackSubmissionSchema,
+]);
+
+export type FeedbackSubmission = z.infer<typeof feedbackSubmissionSchema>;
+
+// A queued submission that was already stored, e.g. synced from another tab
+async function findSyncedSubmission(clientSubmissionId: string | undefined) {
+  if (!clientSubmissionId) return null;
+  return prisma.serviceFeedback.findUnique({ where: { clientSubmissionId }, select: { id: true } });
+}
+
+// Queued submissions keep the time they were filled in, but never a future one
+function submissionDateFrom(submittedAt: string | undefined) {
+  if (!submittedAt) return undefined;
+  const date = new Date(submittedAt);
+  return date < new Date() ? date : undefined;
+}
+
+export async function createServiceFeedback(
+  submission: ServiceFeedbackInput & OfflineSubmission & SubmissionLocale & AttachmentIds,
+  moderation: Moderation = notFlagged
+) {
+  const { clientSubmissionId, submittedAt, locale, attachmentIds, ...validatedData } = submission;
+  const customerId = await resolveCustomerId(serviceFeedbackCustomerDetails(validatedData));
+  const fingerprint = serviceFeedbackFingerprint(validatedData);
+
+  try {
+    return await withRetry(async () => {
+      const synced = await findSyncedSubmission(clientSubmissionId);
+      if (synced) throw new DuplicateSubmissionError(synced.id);
+
+      await assertNotDuplicate(fingerprint, where =>
+        prisma.serviceFeedback.findFirst({ where, select: { id: true } })
+      );
+
+      return prisma.$transaction(async (tx) => {
+        const feedback = await tx.serviceFeedback.create({
+          data: {
+            customerName: validatedData.customerName || null,
+            companyName: validatedData.companyName || null,
+            contactInfo: validatedData.contactInfo || null,
+            serviceDate: toDateOnly(validatedData.serviceDate),
+            serviceType: validatedData.serviceType,
+            serviceTypeOther: validatedData.serviceTypeOther || null,
+            easeOfOrdering: validatedData.easeOfOrdering,
+            orderProcessingAccuracy: validatedData.orderProcessingAccuracy,
+            orderChannelKnowledge: validatedData.orderChannelKnowledge,
+            serviceTimeliness: validatedData.serviceTimeliness,
+            orderAccuracy: validatedData.orderAccuracy,
+            productQuality: validatedData.productQuality,
+            quantityAccuracy: validatedData.quantityAccuracy,
+            staffProfessionalism: validatedData.staffProfessionalism,
+            responsiveness: validatedData.responsiveness,
+            overallSatisfaction: validatedData.overallSatisfaction,
+            priceCompetitiveness: validatedData.priceCompetitiveness,
+            stockAvailability: validatedData.stockAvailability,
+            technicalInstruction: validatedData.technicalInstruction,
+            mostLiked: validatedData.mostLiked || null,
+            overallExperience: validatedData.overallExperience || null,
+            expectationsMet: validatedData.expectationsMet || null,
+            improvementAreas: validatedData.improvementAreas || null,
+            issuesExperienced: validatedData.issuesExperienced || null,
+            wouldRecommend: validatedData.wouldRecommend || null,
+            recommendScore: validatedData.recommendScore ?? null,
+            additionalServices: validatedData.additionalServices || null,
+            futureExpectations: validatedData.futureExpectations || null,
+            serviceQualityRecommendations: validatedData.serviceQualityRecommendations || null,
+            followUpRequested: validatedData.followUpRequested,
+            preferredContactMethod: validatedData.preferredContactMethod || null,
+            preferredContactOther: validatedData.preferredContactOther || null,
+            followUpCase: followUpCaseCreate(validatedData.followUpRequested),
+            customerId,
+            fingerprint,
+            clientSubmissionId,
+            submissionDate: submissionDateFrom(submittedAt),
+            locale,
+            ...moderation,
+          },
+        });
+        await claimAttachments(tx, attachmentIds, { serviceFeedbackId: feedback.id });
+        return feedback;
+      });
+    });
+  } catch (error) {
+    // Two syncs of the same queued submission raced; the other one stored it
+    const synced = isUniqueConstraintError(error) ? await findSyncedSubmission(clientSubmissionId) : null;
+    if (synced) throw new DuplicateSubmissionError(synced.id);
+    throw error;
+  }
+}
+
+export async function createUIFeedback(
+  submission: UIFeedbackInput & AttachmentIds,
+  moderation: Moderation = notFlagged
+) {
+  const { attachmentIds, ...validatedData } = submission;
+  const fingerprint = uiFeedbackFingerprint(validatedData);
+
+  return withRetry(async () => {
+    await assertNotDuplicate(fingerprint, where =>
+      prisma.uIFeedback.findFirst({ where, select: { id: true } })
+    );
+
+    return prisma.$transaction(async (tx) => {
+      const feedback = await tx.uIFeedback.create({
+        data: {
+          userName: validatedData.userName || null,
+          userEmail: validatedData.userEmail || null,
+          userRole: validatedData.userRole || null,
+          pageUrl: validatedData.pageUrl || null,
+          componentName: validatedData.componentName || null,
+          browserInfo: validatedData.browserInfo || null,
+          deviceType: validatedData.deviceType || null,
+          screenResolution: validatedData.screenResolution || null,
+          feedbackType: validatedData.feedbackType || "OTHER",
+          severity: validatedData.severity || null,
+          title: validatedData.title || "Untitled Feedback",
+          description: validatedData.description || "",
+          stepsToReproduce: validatedData.stepsToReproduce || null,
+          expectedBehavior: validatedData.expectedBehavior || null,
+          actualBehavior: validatedData.actualBehavior || null,
+          usabilityRating: validatedData.usabilityRating || null,
+          designRating: validatedData.designRating || null,
+          performanceRating: validatedData.performanceRating || null,
+          overallRating: validatedData.overallRating || null,
+          tags: validatedData.tags || [],
+          priority: validatedData.priority || null,
+          fingerprint,
+          ...moderation,
+        },
+      });
+
+      const attachments = await claimAttachments(tx, attachmentIds, { uiFeedbackId: feedback.id });
+      if (attachments.length === 0) return feedback;
+      return tx.uIFeedback.update({
+        where: { id: feedback.id },
+        data: { attachmentUrls: attachments.map(attachmentUrl) },
+      });
+    });
+  });
+}
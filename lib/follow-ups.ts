@@ -0,0 +1,69 @@
+import { FollowUpStatus, Prisma } from '@prisma/client';
+import { attachmentSelect } from '@/lib/attachments';
+import { z } from 'zod';
+
+// Days a new follow-up case has before it shows as overdue
+export const FOLLOW_UP_DUE_DAYS = 2;
+
+export const openFollowUpStatuses: FollowUpStatus[] = ['OPEN', 'CONTACTED', 'IN_PROGRESS'];
+
+const closedFollowUpStatuses: FollowUpStatus[] = ['RESOLVED', 'CLOSED'];
+
+const isoDate = z.iso.date({ error: 'Date must be in YYYY-MM-DD format' });
+
+export const followUpUpdateSchema = z.object({
+  owner: z.string().trim().max(100).nullable().optional(),
+  status: z.enum(FollowUpStatus).optional(),
+  dueDate: isoDate.nullable().optional(),
+});
+
+export const followUpEventSchema = z.object({
+  type: z.enum(['NOTE', 'CONTACTED']),
+  note: z.string().trim().max(2000).optional(),
+  contactMethod: z.string().max(50).optional(),
+}).refine(event => event.type === 'CONTACTED' || !!event.note, {
+  message: 'Note is required',
+  path: ['note'],
+});
+
+export const followUpCaseInclude = {
+  serviceFeedback: {
+    select: {
+      id: true,
+      customerName: true,
+      companyName: true,
+      contactInfo: true,
+      serviceDate: true,
+      overallSatisfaction: true,
+      issuesExperienced: true,
+      improvementAreas: true,
+      preferredContactMethod: true,
+      preferredContactOther: true,
+      createdAt: true,
+      attachments: { select: attachmentSelect },
+    },
+  },
+} satisfies Prisma.FollowUpCaseInclude;
+
+export function defaultDueDate(from = new Date()): Date {
+  return new Date(from.getTime() + FOLLOW_UP_DUE_DAYS * 24 * 60 * 60 * 1000);
+}
+
+// Nested create used when a service feedback submission asks for follow-up
+export function followUpCaseCreate(followUpRequested: boolean) {
+  return followUpRequested
+    ? { create: { dueDate: defaultDueDate() } }
+    : undefined;
+}
+
+// Timestamps that follow from a status change
+export function statusTimestamps(
+  status: FollowUpStatus,
+  current: { contactedAt: Date | null; resolvedAt: Date | null }
+): Pick<Prisma.FollowUpCaseUpdateInput, 'contactedAt' | 'resolvedAt'> {
+  const now = new Date();
+  return {
+    ...(status === 'CONTACTED' && !current.contactedAt && { contactedAt: now }),
+    resolvedAt: closedFollowUpStatuses.includes(status) ? current.resolvedAt ?? now : null,
+  };
+}
@@ -0,0 +1,63 @@
+// Locales the public forms are translated into. Safe to import from client
+// components and API routes alike: it only depends on zod and the dictionaries.
+import type { z } from "zod";
+import en, { type Messages } from "@/lib/locales/en";
+import am from "@/lib/locales/am";
+
+export const locales = ["en", "am"] as const;
+
+export type Locale = (typeof locales)[number];
+
+export const defaultLocale: Locale = "en";
+
+// Set by the language switcher and read by I18nProvider in the browser
+export const LOCALE_COOKIE = "locale";
+
+// Each language named in itself, as the switcher shows it
+export const localeNames: Record<Locale, string> = {
+  en: "English",
+  am: "አማርኛ",
+};
+
+const dictionaries: Record<Locale, Messages> = { en, am };
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === "string" && (locales as readonly string[]).includes(value);
+}
+
+// Falls back to the default for missing or unknown values, e.g. from older clients
+export function localeFrom(value: unknown): Locale {
+  return isLocale(value) ? value : defaultLocale;
+}
+
+export function messagesFor(locale: Locale): Messages {
+  return dictionaries[locale];
+}
+
+/**
+ * zod error map with messages in the given locale. Pass it as the `error`
+ * option when parsing; messages set on the schema itself still take precedence.
+ */
+export function validationErrorMap(locale: Locale): z.core.$ZodErrorMap {
+  const messages = messagesFor(locale).validation;
+
+  return (issue) => {
+    const blank = issue.input === undefined || issue.input === null || issue.input === "";
+
+    switch (issue.code) {
+      case "invalid_type":
+        if (issue.expected === "number" || issue.expected === "int") return messages.rating;
+        return blank ? messages.required : messages.invalid;
+      case "invalid_format":
+        if (blank) return messages.required;
+        return issue.format === "date" ? messages.invalidDate : messages.invalid;
+      case "too_small":
+        if (issue.origin === "array") return messages.chooseOne;
+        return issue.origin === "string" ? messages.required : messages.rating;
+      case "too_big":
+        return issue.origin === "string" ? messages.tooLong(Number(issue.maximum)) : messages.rating;
+      default:
+        return messages.invalid;
+    }
+  };
+}
@@ -0,0 +1,179 @@
+import { createHash } from 'node:crypto';
+import { Prisma } from '@prisma/client';
+import { NextRequest, NextResponse } from 'next/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { IDEMPOTENCY_KEY_HEADER, withIdempotency } from '@/lib/idempotency';
+
+interface StoredKey {
+  scope: string;
+  key: string;
+  requestHash: string;
+  statusCode: number | null;
+  response: unknown;
+  createdAt: Date;
+}
+
+// An in-memory stand-in for the IdempotencyKey table
+const keys = vi.hoisted(() => new Map<string, StoredKey>());
+
+vi.mock('@/lib/prisma', async () => {
+  const { Prisma } = await import('@prisma/client');
+  const id = (scope: string, key: string) => `${scope}|${key}`;
+
+  return {
+    prisma: {
+      idempotencyKey: {
+        create: async ({ data }: { data: Pick<StoredKey, 'scope' | 'key' | 'requestHash'> }) => {
+          if (keys.has(id(data.scope, data.key))) {
+            throw new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+              code: 'P2002',
+              clientVersion: 'test',
+            });
+          }
+          keys.set(id(data.scope, data.key), { ...data, statusCode: null, response: null, createdAt: new Date() });
+        },
+        findUnique: async ({ where }: { where: { scope_key: { scope: string; key: string } } }) =>
+          keys.get(id(where.scope_key.scope, where.scope_key.key)) ?? null,
+        update: async ({
+          where,
+          data,
+        }: {
+          where: { scope_key: { scope: string; key: string } };
+          data: Pick<StoredKey, 'statusCode' | 'response'>;
+        }) => {
+          const row = keys.get(id(where.scope_key.scope, where.scope_key.key))!;
+          Object.assign(row, data);
+          return row;
+        },
+        // Releases a key; the expiry sweep never runs here since `after` is mocked
+        deleteMany: async ({ where }: { where: { scope: string; key: string } }) => ({
+          count: keys.delete(id(where.scope, where.key)) ? 1 : 0,
+        }),
+      },
+    },
+  };
+});
+
+// `after` needs a request scope that tests don't have
+vi.mock('next/server', async importOriginal => ({
+  ...(await importOriginal<typeof import('next/server')>()),
+  after: vi.fn(),
+}));
+
+function post(body: string, key?: string) {
+  return new NextRequest('http://localhost/api/feedback', {
+    method: 'POST',
+    body,
+    headers: key ? { [IDEMPOTENCY_KEY_HEADER]: key } : {},
+  });
+}
+
+describe('withIdempotency', () => {
+  let calls: number;
+  const handler = withIdempotency(async () => {
+    calls++;
+    return NextResponse.json({ id: `feedback-${calls}` }, { status: 201 });
+  });
+
+  beforeEach(() => {
+    keys.clear();
+    calls = 0;
+  });
+
+  it('runs the handler for every request without a key', async () => {
+    await handler(post('{"a":1}'), {});
+    await handler(post('{"a":1}'), {});
+
+    expect(calls).toBe(2);
+    expect(keys.size).toBe(0);
+  });
+
+  it('replays the first response for a repeated key and body', async () => {
+    const first = await handler(post('{"a":1}', 'key-1'), {});
+    const second = await handler(post('{"a":1}', 'key-1'), {});
+
+    expect(calls).toBe(1);
+    expect(second.status).toBe(201);
+    expect(second.headers.get('Idempotent-Replayed')).toBe('true');
+    expect(await second.json()).toEqual(await first.json());
+  });
+
+  it('rejects a key reused with a different body', async () => {
+    await handler(post('{"a":1}', 'key-1'), {});
+    const response = await handler(post('{"a":2}', 'key-1'), {});
+
+    expect(response.status).toBe(422);
+    expect(calls).toBe(1);
+  });
+
+  it('hashes the raw body, so the same JSON written differently is a different request', async () => {
+    await handler(post('{"a":1}', 'key-1'), {});
+    const response = await handler(post('{ "a": 1 }', 'key-1'), {});
+
+    expect(response.status).toBe(422);
+  });
+
+  it('answers 409 while the first request with the key is still running', async () => {
+    keys.set('POST /api/feedback|key-1', {
+      scope: 'POST /api/feedback',
+      key: 'key-1',
+      requestHash: createHash('sha256').update('{}').digest('hex'),
+      statusCode: null,
+      response: null,
+      createdAt: new Date(),
+    });
+    const response = await handler(post('{}', 'key-1'), {});
+
+    expect(response.status).toBe(409);
+    expect(calls).toBe(0);
+  });
+
+  it('releases the key when the handler fails, so the client can retry', async () => {
+    let fail = true;
+    const flaky = withIdempotency(async () => {
+      calls++;
+      return fail
+        ? NextResponse.json({ error: 'Validation failed' }, { status: 400 })
+        : NextResponse.json({ id: 'feedback' }, { status: 201 });
+    });
+
+    expect((await flaky(post('{"a":1}', 'key-1'), {})).status).toBe(400);
+    fail = false;
+    expect((await flaky(post('{"a":1}', 'key-1'), {})).status).toBe(201);
+    expect(calls).toBe(2);
+  });
+
+  it('keeps keys apart per path', async () => {
+    await handler(post('{"a":1}', 'key-1'), {});
+    const other = new NextRequest('http://localhost/api/registration', {
+      method: 'POST',
+      body: '{"a":2}',
+      headers: { [IDEMPOTENCY_KEY_HEADER]: 'key-1' },
+    });
+
+    expect((await handler(other, {})).status).toBe(201);
+    expect(calls).toBe(2);
+  });
+
+  it('rejects an overlong key', async () => {
+    const response = await handler(post('{}', 'k'.repeat(256)), {});
+
+    expect(response.status).toBe(400);
+    expect(calls).toBe(0);
+  });
+
+  it('refuses a body over the size cap before claiming the key', async () => {
+    const response = await handler(post(JSON.stringify({ text: 'x'.repeat(70 * 1024) }), 'key-1'), {});
+
+    expect(response.status).toBe(413);
+    expect(keys.size).toBe(0);
+    expect(calls).toBe(0);
+  });
+
+  it('stores a null response for a body that is not JSON', async () => {
+    const empty = withIdempotency(async () => new NextResponse(null, { status: 204 }));
+    await empty(post('{}', 'key-1'), {});
+
+    expect(keys.get('POST /api/feedback|key-1')?.response).toBe(Prisma.JsonNull);
+  });
+});
@@ -0,0 +1,169 @@
+import { createHash } from 'node:crypto';
+import { NextRequest, NextResponse, after } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { isUniqueConstraintError } from '@/lib/prisma-errors';
+import { withRetry } from '@/lib/retry';
+import {
+  PayloadTooLargeError,
+  limitByIp,
+  payloadTooLargeResponse,
+  readBodyText,
+} from '@/lib/spam-protection';
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+const MAX_KEY_LENGTH = 255;
+
+// After this a key is forgotten and reusing it starts a new request
+const KEY_TTL_MS = 24 * 60 * 60 * 1000;
+
+type RouteHandler<Context> = (request: NextRequest, context: Context) => Promise<NextResponse>;
+
+interface IdempotencyOptions {
+  // Public endpoints: checked with limitByIp before anything else, key or no key
+  rateLimitScope?: string;
+}
+
+const hashBody = (body: string) => createHash('sha256').update(body).digest('hex');
+
+// Records the key as in flight, or returns the response to send instead of running the handler
+async function claimKey(scope: string, key: string, requestHash: string, reclaimed = false): Promise<NextResponse | null> {
+  try {
+    // Not retried: a create that committed before the connection dropped would then conflict with itself
+    await prisma.idempotencyKey.create({ data: { scope, key, requestHash } });
+    return null;
+  } catch (error) {
+    if (!isUniqueConstraintError(error)) throw error;
+  }
+
+  const existing = await withRetry(() =>
+    prisma.idempotencyKey.findUnique({ where: { scope_key: { scope, key } } })
+  );
+
+  const expired = existing && existing.createdAt.getTime() < Date.now() - KEY_TTL_MS;
+  if (!existing || expired) {
+    if (reclaimed) throw new Error(`Could not claim idempotency key ${key}`);
+    if (expired) {
+      await withRetry(() =>
+        prisma.idempotencyKey.deleteMany({ where: { scope, key, createdAt: existing.createdAt } })
+      );
+    }
+    return claimKey(scope, key, requestHash, true);
+  }
+
+  if (existing.requestHash !== requestHash) {
+    return NextResponse.json(
+      { error: 'Idempotency key was already used with a different request body' },
+      { status: 422 }
+    );
+  }
+
+  if (existing.statusCode === null) {
+    return NextResponse.json(
+      { error: 'A request with this idempotency key is still being processed' },
+      { status: 409 }
+    );
+  }
+
+  return NextResponse.json(existing.response, {
+    status: existing.statusCode,
+    headers: { 'Idempotent-Replayed': 'true' },
+  });
+}
+
+// Forgets keys past their TTL. Runs after each stored response, so it needs no scheduler.
+async function deleteExpiredKeys() {
+  try {
+    await withRetry(() =>
+      prisma.idempotencyKey.deleteMany({
+        where: { createdAt: { lt: new Date(Date.now() - KEY_TTL_MS) } },
+      })
+    );
+  } catch (error) {
+    console.error('Error deleting expired idempotency keys:', error);
+  }
+}
+
+/**
+ * Wraps a create handler so a request carrying an `Idempotency-Key` header is
+ * handled at most once per method and path. Retrying with the same key and
+ * body replays the first successful response; a failed request releases the
+ * key so the client can retry it. Requests without the header are unaffected.
+ * The rate limit and the body size cap apply before a key is claimed, so a
+ * key never lets a request past either.
+ */
+export function withIdempotency<Context>(
+  handler: RouteHandler<Context>,
+  { rateLimitScope }: IdempotencyOptions = {}
+): RouteHandler<Context> {
+  return async (request, context) => {
+    if (rateLimitScope) {
+      const limited = await limitByIp(request, rateLimitScope);
+      if (limited) return limited;
+    }
+
+    const key = request.headers.get(IDEMPOTENCY_KEY_HEADER)?.trim();
+    if (!key) return handler(request, context);
+
+    if (key.length > MAX_KEY_LENGTH) {
+      return NextResponse.json(
+        { error: `${IDEMPOTENCY_KEY_HEADER} header must be at most ${MAX_KEY_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const scope = `${request.method} ${request.nextUrl.pathname}`;
+
+    try {
+      const requestHash = hashBody(await readBodyText(request.clone()));
+      const earlier = await claimKey(scope, key, requestHash);
+      if (earlier) return earlier;
+    } catch (error) {
+      if (error instanceof PayloadTooLargeError) return payloadTooLargeResponse();
+
+      console.error('Idempotency key error:', error);
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+
+    const release = () =>
+      withRetry(() => prisma.idempotencyKey.deleteMany({ where: { scope, key } })).catch((error) =>
+        console.error('Error releasing idempotency key:', error)
+      );
+
+    let response: NextResponse;
+    try {
+      response = await handler(request, context);
+    } catch (error) {
+      await release();
+      throw error;
+    }
+
+    if (!response.ok) {
+      await release();
+      return response;
+    }
+
+    try {
+      const body = await response.clone().json().catch(() => null);
+      await withRetry(() =>
+        prisma.idempotencyKey.update({
+          where: { scope_key: { scope, key } },
+          data: {
+            statusCode: response.status,
+            response: body === null ? Prisma.JsonNull : (body as Prisma.InputJsonValue),
+          },
+        })
+      );
+    } catch (error) {
+      // The request itself succeeded; a retry will just be told it is still in progress
+      console.error('Error storing idempotent response:', error);
+    }
+
+    after(deleteExpiredKeys);
+    return response;
+  };
+}
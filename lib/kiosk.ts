@@ -0,0 +1,51 @@
+import { randomUUID } from 'crypto';
+import { NextRequest } from 'next/server';
+import { signPayload, signValue, verifyPayload, verifySignedValue } from '@/lib/auth';
+import { KIOSK_TOKEN_HEADER } from '@/lib/spam-signals';
+import { z } from 'zod';
+
+// Long enough for a multi-day event; afterwards staff set the kiosk up again
+const KIOSK_TTL_MS = 14 * 24 * 60 * 60 * 1000;
+
+export const kioskSetupSchema = z.object({
+  sourceEvent: z.string().trim().min(1, 'Event is required').max(100),
+  pin: z.string().regex(/^\d{4,8}$/, 'PIN must be 4 to 8 digits'),
+});
+
+export const kioskExitSchema = z.object({
+  token: z.string(),
+  pin: z.string(),
+});
+
+interface KioskToken {
+  kioskId: string;
+  sourceEvent: string;
+  // HMAC of the kiosk id and PIN under AUTH_SECRET: the token sits in the kiosk's
+  // localStorage, so a plain hash of a few digits could be brute-forced from it
+  pinSignature: string;
+  expiresAt: number; // epoch milliseconds
+}
+
+export function createKioskToken(sourceEvent: string, pin: string) {
+  const expiresAt = Date.now() + KIOSK_TTL_MS;
+  const kioskId = randomUUID();
+  const token = signPayload<KioskToken>('kiosk', {
+    kioskId,
+    sourceEvent,
+    pinSignature: signValue('kiosk-pin', `${kioskId}.${pin}`),
+    expiresAt,
+  });
+  return { token, expiresAt };
+}
+
+export function verifyKioskToken(token: string | undefined): KioskToken | null {
+  return verifyPayload<KioskToken>('kiosk', token);
+}
+
+export function kioskFromRequest(request: NextRequest): KioskToken | null {
+  return verifyKioskToken(request.headers.get(KIOSK_TOKEN_HEADER) ?? undefined);
+}
+
+export function verifyKioskPin(kiosk: KioskToken, pin: string): boolean {
+  return verifySignedValue('kiosk-pin', `${kiosk.kioskId}.${pin}`, kiosk.pinSignature);
+}
@@ -0,0 +1,220 @@
+// Amharic strings for the public forms
+import type { Messages } from "@/lib/locales/en";
+
+const am: Messages = {
+  header: {
+    serviceFeedback: "የአገልግሎት አስተያየት",
+    featureBoard: "የሃሳብ ሰሌዳ",
+    registrationsAdmin: "የምዝገባዎች አስተዳደር",
+    language: "ቋንቋ",
+  },
+
+  validation: {
+    required: "ይህ መስክ መሞላት አለበት",
+    invalidDate: "እባክዎ ትክክለኛ ቀን ያስገቡ",
+    chooseOne: "እባክዎ ቢያንስ አንዱን ይምረጡ",
+    rating: "እባክዎ ደረጃ ይምረጡ",
+    tooLong: (maximum: number) => `ከ${maximum} ፊደላት መብለጥ የለበትም`,
+    invalid: "እባክዎ ይህን መስክ ያረጋግጡ",
+  },
+
+  serviceForm: {
+    title: "የአገልግሎት አስተያየት መስጫ ቅጽ",
+    description: "ስለ ነዳጅ አቅርቦትና የቅባት ዘይት አቅርቦት አገልግሎታችን አስተያየትዎን ያካፍሉን።",
+    pending: (count: number) => `${count} ለመላክ በመጠባበቅ ላይ`,
+    sending: "በመላክ ላይ...",
+    pendingHint: "ከመስመር ውጭ ሳሉ የተቀመጠ፤ ግንኙነት ሲመለስ በራሱ ይላካል",
+
+    customerSection: "ክፍል 1፦ የደንበኛ መረጃ",
+    customerName: "የደንበኛ ስም (አማራጭ)",
+    customerNamePlaceholder: "ስምዎን ያስገቡ",
+    companyName: "የድርጅት ስም (ካለ)",
+    companyNamePlaceholder: "የድርጅቱን ስም ያስገቡ",
+    contactInfo: "የመገኛ መረጃ (አማራጭ)",
+    contactInfoPlaceholder: "ኢሜይል ወይም ስልክ ቁጥር",
+    serviceDate: "አገልግሎቱን ያገኙበት ቀን *",
+    serviceType: "የተጠቀሙበት የአገልግሎት ዓይነት *",
+    serviceTypes: {
+      "fuel-delivery": "የነዳጅ አቅርቦት",
+      "lubricant-supply": "የቅባት ዘይት አቅርቦት",
+      "technical-support": "የቴክኒክ ድጋፍ",
+      other: "ሌላ",
+    },
+    serviceTypeOther: "ሌላ አገልግሎት (ከላይ ከተመረጠ)",
+    specify: "እባክዎ ይግለጹ",
+
+    ratingSection: "ክፍል 2፦ የአገልግሎት ጥራት ደረጃ",
+    ratingIntro: "የሚከተሉትን የአገልግሎታችን ገጽታዎች ከ1 እስከ 5 ባለው ሚዛን ይገምግሙ፦",
+    ratingHint: "ከ1 (ደካማ) እስከ 5 (እጅግ በጣም ጥሩ) ይገምግሙ",
+    ratings: {
+      easeOfOrdering: "ትዕዛዝ የማቅረብ ቀላልነት",
+      orderProcessingAccuracy: "ትዕዛዞችን በትክክል ማስተናገድ",
+      orderChannelKnowledge: "ትዕዛዝ የሚቀርብበት መንገድ የታወቀ ነው",
+      serviceTimeliness: "አገልግሎቱ በወቅቱ መሰጠቱ",
+      orderAccuracy: "የትዕዛዝ አፈጻጸም ትክክለኛነት (ምርቶች/አገልግሎቶች እንደተጠየቁት መቅረባቸው)",
+      productQuality: "የተረከቧቸው ምርቶች ጥራት",
+      quantityAccuracy: "የደረሰው መጠን በደረሰኙ ላይ ከተጠቀሰው ጋር ተመሳሳይ ነው",
+      staffProfessionalism: "የሠራተኞች ሙያዊ ብቃትና ትሕትና",
+      responsiveness: "ለጥያቄዎችና ለቅሬታዎች የሚሰጥ ምላሽ",
+      overallSatisfaction: "በአገልግሎታችን ያለዎት አጠቃላይ እርካታ",
+      priceCompetitiveness: "የምርቶች ዋጋ ከሌሎች አቅራቢዎች ጋር ሲነጻጸር",
+      stockAvailability: "ለግዢ ጥያቄዎ የሚሆን ክምችት መኖሩ",
+      technicalInstruction: "ከድርጅታችን የተሰጠ የቴክኒክ መመሪያ",
+    },
+
+    openSection: "ክፍል 3፦ ክፍት ጥያቄዎች",
+    mostLiked: "በአገልግሎታችን በጣም የወደዱት ምንድን ነው?",
+    mostLikedPlaceholder: "በጣም የወደዱትን ያካፍሉን...",
+    overallExperience: "ከድርጅታችን ጋር ያለዎትን አጠቃላይ ተሞክሮ እንዴት ይገልጹታል?",
+    overallExperiencePlaceholder: "አጠቃላይ ተሞክሮዎን ይግለጹ...",
+    expectationsMet: "ምርታችን/አገልግሎታችን የጠበቁትን አሟልቷል?",
+    expectationsMetPlaceholder: "የጠበቁትን አሟልተን እንደሆነ ያሳውቁን...",
+    improvementAreas: "መሻሻል ያለባቸው ዘርፎች የትኞቹ ናቸው ብለው ያስባሉ?",
+    improvementAreasPlaceholder: "መሻሻል ያለባቸውን ዘርፎች ይጠቁሙን...",
+    issuesExperienced: "በአገልግሎታችን ያጋጠመዎት ችግር አለ? ካለ እባክዎ ይግለጹ።",
+    issuesExperiencedPlaceholder: "ያጋጠመዎትን ችግር ይግለጹ...",
+    recommendScore: "አገልግሎታችንን ለጓደኛዎ ወይም ለሥራ ባልደረባዎ የመጠቆም ዕድልዎ ምን ያህል ነው?",
+    recommendScoreHint: "0 = በፍጹም አልጠቁምም፣ 10 = በእርግጠኝነት እጠቁማለሁ",
+    wouldRecommend: "ለሰጡት ነጥብ ዋናው ምክንያት ምንድን ነው?",
+    wouldRecommendPlaceholder: "እኛን የሚጠቁሙበትን ወይም የማይጠቁሙበትን ምክንያት ያሳውቁን...",
+
+    futureSection: "ክፍል 4፦ የወደፊት ፍላጎቶች",
+    additionalServices: "ሌላ ምን ዓይነት አገልግሎቶች ወይም ምርቶች እንድናቀርብ ይፈልጋሉ?",
+    additionalServicesPlaceholder: "ተጨማሪ አገልግሎቶችን ወይም ምርቶችን ይጠቁሙን...",
+    futureExpectations: "ወደፊት ፍላጎትዎን በተሻለ እንዴት ልናሟላ እንችላለን?",
+    futureExpectationsPlaceholder: "በተሻለ እንዴት ልናገለግልዎ እንደምንችል ያካፍሉን...",
+    serviceQualityRecommendations: "የአገልግሎት ጥራትን ለማሳደግ ምን ይመክራሉ?",
+    serviceQualityRecommendationsPlaceholder: "የአገልግሎት ጥራትን ለማሻሻል ምክረ ሃሳብዎን ያቅርቡ...",
+
+    followUpSection: "ክፍል 5፦ ክትትል (አማራጭ)",
+    followUpRequested: "ስለ አስተያየትዎ እንድናገኝዎ ይፈልጋሉ?",
+    preferredContactMethod: "የሚመርጡት የመገኛ መንገድ",
+    preferredContactMethodPlaceholder: "የመገኛ መንገድ ይምረጡ",
+    contactMethods: {
+      email: "ኢሜይል",
+      phone: "ስልክ",
+      other: "ሌላ",
+    },
+    preferredContactOther: "ሌላ የመገኛ መንገድ (ከላይ ከተመረጠ)",
+
+    submit: "አስተያየት ይላኩ",
+    submitting: "በመላክ ላይ...",
+
+    submitted: "የአገልግሎት አስተያየትዎ በተሳካ ሁኔታ ተልኳል!",
+    submittedDescription: "ለጠቃሚ አስተያየትዎ እናመሰግናለን።",
+    failed: "አስተያየቱን መላክ አልተቻለም",
+    tryAgain: "እባክዎ ቆይተው እንደገና ይሞክሩ።",
+    savedOffline: "በዚህ መሣሪያ ላይ ተቀምጧል",
+    savedOfflineDescription: "አሁን ግንኙነት የለም። ግንኙነት ሲመለስ አስተያየቱ በራሱ ይላካል።",
+    duplicate: "ይህ አስተያየት ቀድሞ ደርሶናል",
+    duplicateDescription: "ቀደም ብለው የላኩት አስተያየት ደርሶናል፤ ስለዚህ ሁለት ጊዜ አልተቀመጠም።",
+  },
+
+  eventForm: {
+    title: "የቡና ዝግጅት ደረጃ አሰጣጥ",
+    description: "እባክዎ የቡና ዝግጅቱን ተሞክሮዎን ከ1 እስከ 5 ደረጃ ይስጡ።",
+    ratingHint: "ከ1 (ደካማ) እስከ 5 (እጅግ በጣም ጥሩ) ደረጃ ይስጡ",
+    ratings: {
+      overallRating: "አጠቃላይ የቡና ዝግጅቱ",
+      contentQualityRating: "የቡና ትምህርት ጥራት",
+      speakerRating: "የቡና ባለሙያዎች እና ገለጻዎች",
+      venueRating: "ቦታ እና መገልገያዎች",
+      organizationRating: "የዝግጅቱ አደረጃጀት",
+      networkingRating: "ከቡና ማህበረሰብ ጋር መተዋወቅ",
+      coffeeQualityRating: "የቡና ጥራት እና ዓይነት",
+      vendorRating: "የቡና ሻጮች እና ኤግዚቢተሮች",
+      workshopRating: "የቡና ስልጠናዎች እና ማሳያዎች",
+    },
+    additionalComments: "ተጨማሪ አስተያየት (አማራጭ)",
+    additionalCommentsPlaceholder: "ስለ ቡና ዝግጅቱ ሌላ አስተያየት ካለዎት...",
+    submit: "ደረጃዎቹን ይላኩ",
+    submitting: "በመላክ ላይ...",
+
+    submitted: "የቡና ዝግጅት ደረጃዎችዎ በተሳካ ሁኔታ ተልከዋል!",
+    submittedDescription: "ለአስተያየትዎ እናመሰግናለን።",
+    failed: "ደረጃዎቹን መላክ አልተቻለም",
+    tryAgain: "እባክዎ ቆይተው እንደገና ይሞክሩ።",
+  },
+
+  registrationForm: {
+    title: "ምዝገባ",
+    description: "ስለ ምርቶቻችንና ዝግጅቶቻችን እንድናሳውቅዎ መረጃዎን ይተዉልን።",
+    fields: {
+      name: "ሙሉ ስም",
+      companyName: "ድርጅት",
+      jobTitle: "የሥራ መደብ",
+      email: "ኢሜይል",
+      mobileNumber: "የሞባይል ስልክ",
+      officePhone: "የቢሮ ስልክ",
+      website: "ድረ-ገጽ",
+      country: "አገር",
+      industry: "የሥራ ዘርፍ",
+      officeAddress: "የቢሮ አድራሻ",
+    },
+    sourceEvent: "የት አገኙን?",
+    sourceEventPlaceholder: "ለምሳሌ አዲስ የቡና ኤክስፖ",
+    comment: "አስተያየት (አማራጭ)",
+    commentPlaceholder: "እንድናውቀው የሚፈልጉት ነገር ካለ...",
+    followUp: "እንድታገኙኝ እፈልጋለሁ",
+    submit: "ይመዝገቡ",
+    submitting: "በመላክ ላይ...",
+
+    submitted: "ምዝገባው ተጠናቋል!",
+    submittedDescription: "ስለተመዘገቡ እናመሰግናለን። በቅርቡ እናገኝዎታለን።",
+    failed: "ምዝገባው አልተሳካም",
+    tryAgain: "እባክዎ ቆይተው እንደገና ይሞክሩ።",
+  },
+
+  attachments: {
+    label: "ፎቶዎች ወይም ሰነዶች (አማራጭ)",
+    hint: (maximum: number) =>
+      `እስከ ${maximum} ፎቶዎች (ለምሳሌ የተበላሸ ወይም የጎደለ ርክክብ) ወይም እያንዳንዳቸው እስከ 5 MB የሆኑ PDF ፋይሎችን ያያይዙ።`,
+    add: "ፋይሎችን ያክሉ",
+    uploading: "በመጫን ላይ...",
+    remove: (fileName: string) => `${fileName} ያስወግዱ`,
+    tooMany: (maximum: number) => `ማያያዝ የሚችሉት እስከ ${maximum} ፋይሎች ብቻ ነው`,
+    tooLarge: (fileName: string) => `${fileName} ከ5 MB በላይ ነው`,
+    failed: (fileName: string) => `${fileName} ማያያዝ አልተቻለም`,
+    offline: "ፋይሎችን ማያያዝ የሚቻለው ከኢንተርኔት ጋር ሲገናኙ ብቻ ነው",
+    restored: "ቀደም ብሎ የተያያዘ",
+  },
+
+  offlineQueue: {
+    sent: (count: number) => `${count} የተቀመጡ አስተያየቶች ተልከዋል`,
+    rejected: "የተቀመጠ አስተያየት ተቀባይነት አላገኘም፤ እንዲያስተካክሉት በዚህ መሣሪያ ላይ ተቀምጧል",
+    failed: (count: number) => `${count} የተቀመጡ አስተያየቶች ተቀባይነት አላገኙም`,
+    edit: "አስተካክለው እንደገና ይላኩ",
+    download: "አውርድ",
+    editing: "የተቀመጠው አስተያየት ተጭኗል። አስተካክለው እንደገና ያስገቡ።",
+  },
+
+  kiosk: {
+    welcome: "እንኳን ወደ",
+    forms: {
+      registration: "ይመዝገቡ",
+      "event-rating": "ዝግጅቱን ይገምግሙ",
+    },
+    setupTitle: "የኪዮስክ ዝግጅት",
+    setupDescription:
+      "በዚህ መሣሪያ የሚሰበሰብ እያንዳንዱ አስተያየት ከታች ባለው ዝግጅት ስም ይመዘገባል። ኪዮስኩን ማስጀመር በዚህ መሣሪያ ላይ ከመለያዎ ያስወጣዎታል።",
+    staffOnly: "ኪዮስክ ማዘጋጀት የሚችሉት ሠራተኞች ብቻ ናቸው።",
+    signIn: "መጀመሪያ ይግቡ",
+    event: "ዝግጅት",
+    eventPlaceholder: "ለምሳሌ አዲስ የቡና ኤክስፖ 2026",
+    formsToShow: "የሚታዩ ቅጾች",
+    pin: "የመውጫ ፒን",
+    pinPlaceholder: "ከ4 እስከ 8 አሃዞች",
+    pinHint: "ከኪዮስክ ሁነታ ሲወጡ ይጠየቃል።",
+    start: "ኪዮስኩን ያስጀምሩ",
+    starting: "በማስጀመር ላይ...",
+    startFailed: "ኪዮስኩን ማስጀመር አልተቻለም",
+    tryAgain: "እባክዎ እንደገና ይሞክሩ።",
+    exitKiosk: "ከኪዮስክ ውጣ",
+    pinShort: "ፒን",
+    exit: "ውጣ",
+    cancel: "ሰርዝ",
+    pinCheckFailed: "ፒኑን ማረጋገጥ አልተቻለም",
+  },
+};
+
+export default am;
@@ -0,0 +1,224 @@
+// English strings for the public forms. Other locales must provide every key.
+import type { RatingDimension } from "@/lib/service-feedback-fields";
+import type { EventRatingDimension } from "@/lib/event-feedback-fields";
+
+const en = {
+  header: {
+    serviceFeedback: "Service Feedback",
+    featureBoard: "Feature Board",
+    registrationsAdmin: "View Registrations Admin",
+    language: "Language",
+  },
+
+  validation: {
+    required: "This field is required",
+    invalidDate: "Please enter a valid date",
+    chooseOne: "Please select at least one option",
+    rating: "Please choose a rating",
+    tooLong: (maximum: number) => `Must be at most ${maximum} characters`,
+    invalid: "Please check this field",
+  },
+
+  serviceForm: {
+    title: "Service Feedback Form",
+    description: "Please provide your feedback about our fuel delivery and lubricant supply services.",
+    pending: (count: number) => `${count} waiting to send`,
+    sending: "Sending...",
+    pendingHint: "Saved while offline; sent automatically when the connection is back",
+
+    customerSection: "Section 1: Customer Information",
+    customerName: "Customer Name (Optional)",
+    customerNamePlaceholder: "Enter your name",
+    companyName: "Company Name (if applicable)",
+    companyNamePlaceholder: "Enter company name",
+    contactInfo: "Contact Information (Optional)",
+    contactInfoPlaceholder: "Email or phone number",
+    serviceDate: "Date of Service Interaction *",
+    serviceType: "Type of Service Used *",
+    serviceTypes: {
+      "fuel-delivery": "Fuel Delivery",
+      "lubricant-supply": "Lubricant Supply",
+      "technical-support": "Technical Support",
+      other: "Other",
+    },
+    serviceTypeOther: "Other Service (if selected above)",
+    specify: "Please specify",
+
+    ratingSection: "Section 2: Service Quality Ratings",
+    ratingIntro: "Rate the following aspects of our service on a scale of 1 to 5:",
+    ratingHint: "Rate from 1 (poor) to 5 (excellent)",
+    ratings: {
+      easeOfOrdering: "Ease of placing an order",
+      orderProcessingAccuracy: "Processes orders accurately",
+      orderChannelKnowledge: "The channel for placing orders is known",
+      serviceTimeliness: "Timeliness of service delivery",
+      orderAccuracy: "Accuracy of order fulfillment (products/services delivered as requested)",
+      productQuality: "Quality of products received",
+      quantityAccuracy: "Delivered quantities are same as invoiced quantities",
+      staffProfessionalism: "Professionalism and courtesy of staff",
+      responsiveness: "Responsiveness to inquiries and concerns",
+      overallSatisfaction: "Overall satisfaction with our service",
+      priceCompetitiveness: "Price of products compared to suppliers",
+      stockAvailability: "Stock availability for your purchase request",
+      technicalInstruction: "Technical instruction given from our company",
+    } satisfies Record<RatingDimension, string>,
+
+    openSection: "Section 3: Open-Ended Questions",
+    mostLiked: "What did you like the most about our service?",
+    mostLikedPlaceholder: "Please share what you liked most...",
+    overallExperience: "How would you describe your overall experience with our company?",
+    overallExperiencePlaceholder: "Please describe your overall experience...",
+    expectationsMet: "Did our product/service meet your expectations?",
+    expectationsMetPlaceholder: "Please let us know if we met your expectations...",
+    improvementAreas: "What areas do you think need improvement?",
+    improvementAreasPlaceholder: "Please suggest areas for improvement...",
+    issuesExperienced: "Have you experienced any issues with our services? If yes, please describe them.",
+    issuesExperiencedPlaceholder: "Please describe any issues you experienced...",
+    recommendScore: "How likely are you to recommend our services to a friend or colleague?",
+    recommendScoreHint: "0 = not at all likely, 10 = extremely likely",
+    wouldRecommend: "What is the main reason for your score?",
+    wouldRecommendPlaceholder: "Please let us know why you would or wouldn't recommend us...",
+
+    futureSection: "Section 4: Future Expectations",
+    additionalServices: "What additional services or products would you like us to provide?",
+    additionalServicesPlaceholder: "Please suggest additional services or products...",
+    futureExpectations: "How can we better meet your expectations in the future?",
+    futureExpectationsPlaceholder: "Please share how we can better serve you...",
+    serviceQualityRecommendations: "What do you recommend to increase the service quality?",
+    serviceQualityRecommendationsPlaceholder: "Please provide recommendations for service quality improvement...",
+
+    followUpSection: "Section 5: Follow-Up (Optional)",
+    followUpRequested: "Would you like us to follow up regarding your feedback?",
+    preferredContactMethod: "Preferred contact method",
+    preferredContactMethodPlaceholder: "Select contact method",
+    contactMethods: {
+      email: "Email",
+      phone: "Phone",
+      other: "Other",
+    },
+    preferredContactOther: "Other contact method (if selected above)",
+
+    submit: "Submit Feedback",
+    submitting: "Submitting...",
+
+    submitted: "Service feedback submitted successfully!",
+    submittedDescription: "Thank you for your valuable feedback.",
+    failed: "Failed to submit feedback",
+    tryAgain: "Please try again later.",
+    savedOffline: "Saved on this device",
+    savedOfflineDescription: "No connection right now. The feedback will be sent automatically once you're back online.",
+    duplicate: "We already have this feedback",
+    duplicateDescription: "Your earlier submission was received, so it wasn't stored twice.",
+  },
+
+  eventForm: {
+    title: "Coffee Event Rating",
+    description: "Please rate your coffee event experience on a scale of 1-5.",
+    ratingHint: "Rate from 1 (poor) to 5 (excellent)",
+    ratings: {
+      overallRating: "Overall Coffee Event",
+      contentQualityRating: "Coffee Education Quality",
+      speakerRating: "Coffee Experts & Presentations",
+      venueRating: "Venue & Facilities",
+      organizationRating: "Event Organization",
+      networkingRating: "Coffee Community Networking",
+      coffeeQualityRating: "Coffee Quality & Variety",
+      vendorRating: "Coffee Vendors & Exhibitors",
+      workshopRating: "Coffee Workshops & Demos",
+    } satisfies Record<EventRatingDimension, string>,
+    additionalComments: "Additional Comments (Optional)",
+    additionalCommentsPlaceholder: "Any additional feedback about the coffee event...",
+    submit: "Submit Coffee Event Ratings",
+    submitting: "Submitting...",
+
+    submitted: "Coffee event ratings submitted successfully!",
+    submittedDescription: "Thank you for your feedback.",
+    failed: "Failed to submit ratings",
+    tryAgain: "Please try again later.",
+  },
+
+  registrationForm: {
+    title: "Registration",
+    description: "Leave your details and we'll keep you posted on our products and events.",
+    fields: {
+      name: "Full Name",
+      companyName: "Company",
+      jobTitle: "Job Title",
+      email: "Email",
+      mobileNumber: "Mobile Number",
+      officePhone: "Office Phone",
+      website: "Website",
+      country: "Country",
+      industry: "Industry",
+      officeAddress: "Office Address",
+    },
+    sourceEvent: "Where did you meet us?",
+    sourceEventPlaceholder: "e.g. Addis Coffee Expo",
+    comment: "Comments (Optional)",
+    commentPlaceholder: "Anything you'd like us to know...",
+    followUp: "I'd like someone to contact me",
+    submit: "Register",
+    submitting: "Submitting...",
+
+    submitted: "Registration complete!",
+    submittedDescription: "Thank you for registering. We'll be in touch.",
+    failed: "Registration failed",
+    tryAgain: "Please try again later.",
+  },
+
+  attachments: {
+    label: "Photos or documents (Optional)",
+    hint: (maximum: number) =>
+      `Add up to ${maximum} photos, for example of a damaged delivery or a short quantity, or PDF files of up to 5 MB each.`,
+    add: "Add files",
+    uploading: "Uploading...",
+    remove: (fileName: string) => `Remove ${fileName}`,
+    tooMany: (maximum: number) => `You can attach up to ${maximum} files`,
+    tooLarge: (fileName: string) => `${fileName} is larger than 5 MB`,
+    failed: (fileName: string) => `${fileName} could not be attached`,
+    offline: "Files can only be attached while you're online",
+    restored: "Attached earlier",
+  },
+
+  offlineQueue: {
+    sent: (count: number) => `${count} saved ${count === 1 ? "submission" : "submissions"} sent`,
+    rejected: "A saved submission was not accepted; it is kept on this device to be corrected",
+    failed: (count: number) =>
+      `${count} saved ${count === 1 ? "submission was" : "submissions were"} not accepted`,
+    edit: "Edit and resend",
+    download: "Download",
+    editing: "Saved submission loaded. Correct it and submit again.",
+  },
+
+  kiosk: {
+    welcome: "Welcome to",
+    forms: {
+      registration: "Register",
+      "event-rating": "Rate the Event",
+    },
+    setupTitle: "Kiosk Setup",
+    setupDescription:
+      "Every submission collected on this device is tagged with the event below. Starting the kiosk signs you out on this device.",
+    staffOnly: "Only staff can set up a kiosk.",
+    signIn: "Sign in first",
+    event: "Event",
+    eventPlaceholder: "e.g. Addis Coffee Expo 2026",
+    formsToShow: "Forms to show",
+    pin: "Exit PIN",
+    pinPlaceholder: "4 to 8 digits",
+    pinHint: "Asked for when leaving kiosk mode.",
+    start: "Start Kiosk",
+    starting: "Starting...",
+    startFailed: "Could not start the kiosk",
+    tryAgain: "Please try again.",
+    exitKiosk: "Exit kiosk",
+    pinShort: "PIN",
+    exit: "Exit",
+    cancel: "Cancel",
+    pinCheckFailed: "Could not check the PIN",
+  },
+};
+
+export type Messages = typeof en;
+
+export default en;
@@ -0,0 +1,107 @@
+import { randomUUID } from 'crypto';
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import nodemailer, { type Transporter } from 'nodemailer';
+
+export interface MailMessage {
+  to: string[];
+  subject: string;
+  text: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean; // TLS from the start (port 465); otherwise upgraded with STARTTLS
+  user?: string;
+  password?: string;
+  from: string;
+}
+
+const SMTP_TIMEOUT_MS = 30 * 1000;
+
+export class SmtpTransport implements MailTransport {
+  private readonly transporter: Transporter;
+
+  constructor(private readonly options: SmtpOptions) {
+    const { host, port, secure, user, password } = options;
+    this.transporter = nodemailer.createTransport({
+      host,
+      port,
+      secure,
+      // Credentials are only ever sent over TLS: without it the send fails rather than falling back to plain text
+      requireTLS: !secure && !!user,
+      auth: user ? { user, pass: password ?? '' } : undefined,
+      connectionTimeout: SMTP_TIMEOUT_MS,
+      greetingTimeout: SMTP_TIMEOUT_MS,
+      socketTimeout: SMTP_TIMEOUT_MS,
+    });
+  }
+
+  async send(message: MailMessage) {
+    await this.transporter.sendMail({
+      from: this.options.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+    });
+  }
+}
+
+// Local test transport: writes each message to an .eml file instead of sending it. The message is
+// built by Nodemailer as well, so headers are encoded the same way as in mail sent over SMTP
+export class OutboxTransport implements MailTransport {
+  private readonly transporter: Transporter;
+
+  constructor(private readonly directory: string, private readonly from: string) {
+    this.transporter = nodemailer.createTransport({ streamTransport: true, buffer: true });
+  }
+
+  async send(message: MailMessage) {
+    const info = await this.transporter.sendMail({
+      from: this.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+    });
+
+    await mkdir(this.directory, { recursive: true });
+    const file = path.join(this.directory, `${new Date().toISOString().replace(/[:.]/g, '-')}-${randomUUID()}.eml`);
+    await writeFile(file, info.message);
+    console.log(`Email to ${message.to.join(', ')} written to ${file}`);
+  }
+}
+
+function transportFromEnv(): MailTransport {
+  const from = process.env.MAIL_FROM || 'feedback@localhost';
+
+  if (!process.env.SMTP_HOST) {
+    return new OutboxTransport(process.env.MAIL_OUTBOX_DIR || '.mail-outbox', from);
+  }
+
+  const port = Number(process.env.SMTP_PORT) || 587;
+  return new SmtpTransport({
+    host: process.env.SMTP_HOST,
+    port,
+    secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+    user: process.env.SMTP_USER,
+    password: process.env.SMTP_PASSWORD,
+    from,
+  });
+}
+
+let transport: MailTransport | null = null;
+
+// Swap the transport, e.g. for a provider's HTTP API or to capture mail in scripts
+export function setMailTransport(next: MailTransport) {
+  transport = next;
+}
+
+export function sendMail(message: MailMessage): Promise<void> {
+  transport ??= transportFromEnv();
+  return transport.send(message);
+}
@@ -0,0 +1,183 @@
+import type { EventFeedback, Prisma, Registration, ServiceFeedback, UIFeedback } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { withRetry } from '@/lib/retry';
+import type { FlagReason } from '@/lib/spam-signals';
+import type { Session } from '@/lib/auth';
+import { recordChange, type AuditRecordType } from '@/lib/audit-log';
+import { notifySubmission } from '@/lib/notifications';
+import { emitWebhookEvent } from '@/lib/webhooks';
+
+export const moderatedTypes = ['service', 'ui', 'event', 'registration'] as const;
+
+export type ModeratedType = (typeof moderatedTypes)[number];
+
+export interface FlaggedSubmission {
+  type: ModeratedType;
+  id: string;
+  title: string;
+  detail: string | null;
+  flagReasons: string[];
+  createdAt: Date;
+}
+
+// Per type; older flagged rows stay excluded from averages either way
+const FLAGGED_LIMIT = 200;
+
+const flaggedQuery = {
+  where: { flagged: true },
+  orderBy: { createdAt: 'desc' },
+  take: FLAGGED_LIMIT,
+} as const;
+
+// Newest first across every moderated table
+export async function listFlaggedSubmissions(): Promise<FlaggedSubmission[]> {
+  const [serviceFeedback, uiFeedback, eventFeedback, registrations] = await Promise.all([
+    withRetry(() => prisma.serviceFeedback.findMany(flaggedQuery)),
+    withRetry(() => prisma.uIFeedback.findMany(flaggedQuery)),
+    withRetry(() => prisma.eventFeedback.findMany(flaggedQuery)),
+    withRetry(() => prisma.registration.findMany(flaggedQuery)),
+  ]);
+
+  return [
+    ...serviceFeedback.map((item): FlaggedSubmission => ({
+      type: 'service',
+      id: item.id,
+      title: [item.customerName, item.companyName].filter(Boolean).join(', ') || 'Anonymous',
+      detail: `Overall satisfaction ${item.overallSatisfaction}/5${item.contactInfo ? ` • ${item.contactInfo}` : ''}`,
+      flagReasons: item.flagReasons,
+      createdAt: item.createdAt,
+    })),
+    ...uiFeedback.map((item): FlaggedSubmission => ({
+      type: 'ui',
+      id: item.id,
+      title: item.title,
+      detail: item.description || null,
+      flagReasons: item.flagReasons,
+      createdAt: item.createdAt,
+    })),
+    ...eventFeedback.map((item): FlaggedSubmission => ({
+      type: 'event',
+      id: item.id,
+      title: `Overall ${item.overallRating}/5`,
+      detail: item.additionalComments,
+      flagReasons: item.flagReasons,
+      createdAt: item.createdAt,
+    })),
+    ...registrations.map((item): FlaggedSubmission => ({
+      type: 'registration',
+      id: item.id,
+      title: [item.name, item.companyName].filter(Boolean).join(', ') || 'Unnamed',
+      detail: [item.email, item.mobileNumber].filter(Boolean).join(' • ') || null,
+      flagReasons: item.flagReasons,
+      createdAt: item.createdAt,
+    })),
+  ].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+}
+
+// Each moderated type's rows in the audit log
+const auditRecordTypeOf: Record<ModeratedType, AuditRecordType> = {
+  service: 'service_feedback',
+  ui: 'ui_feedback',
+  event: 'event_feedback',
+  registration: 'registration',
+};
+
+const flagSelect = { flagged: true, flagReasons: true } as const;
+
+function findFlag(tx: Prisma.TransactionClient, type: ModeratedType, id: string) {
+  const args = { where: { id }, select: flagSelect };
+  switch (type) {
+    case 'service':
+      return tx.serviceFeedback.findUnique(args);
+    case 'ui':
+      return tx.uIFeedback.findUnique(args);
+    case 'event':
+      return tx.eventFeedback.findUnique(args);
+    case 'registration':
+      return tx.registration.findUnique(args);
+  }
+}
+
+export type ModeratedSubmission =
+  | { type: 'service'; record: ServiceFeedback }
+  | { type: 'ui'; record: UIFeedback }
+  | { type: 'event'; record: EventFeedback }
+  | { type: 'registration'; record: Registration };
+
+export interface FlagUpdate {
+  submission: ModeratedSubmission;
+  // Flagged when it arrived, so its webhook and notifications were held back until now
+  released: boolean;
+}
+
+/**
+ * Flags or clears a submission and records who did it in the audit log.
+ * Clearing removes the recorded reasons, so a submission that was wrongly
+ * caught counts like any other. Flagging one that is already flagged keeps
+ * its reasons. Returns null when no submission has the id.
+ */
+export async function setFlagged(
+  type: ModeratedType,
+  id: string,
+  flagged: boolean,
+  actor: Session
+): Promise<FlagUpdate | null> {
+  return withRetry(() =>
+    prisma.$transaction(async (tx) => {
+      const before = await findFlag(tx, type, id);
+      if (!before) return null;
+
+      const reasons: string[] = !flagged ? [] : before.flagged ? before.flagReasons : ['manual' satisfies FlagReason];
+      const args = { where: { id }, data: { flagged, flagReasons: reasons } };
+
+      let submission: ModeratedSubmission;
+      switch (type) {
+        case 'service':
+          submission = { type, record: await tx.serviceFeedback.update(args) };
+          break;
+        case 'ui':
+          submission = { type, record: await tx.uIFeedback.update(args) };
+          break;
+        case 'event':
+          submission = { type, record: await tx.eventFeedback.update(args) };
+          break;
+        case 'registration':
+          submission = { type, record: await tx.registration.update(args) };
+          break;
+      }
+
+      await recordChange(tx, {
+        recordType: auditRecordTypeOf[type],
+        recordId: id,
+        action: flagged ? 'flag' : 'release',
+        actor,
+        before,
+        after: args.data,
+      });
+
+      // A manual flag only ever lands on a submission that was already announced
+      const released = before.flagged && !flagged && !before.flagReasons.includes('manual');
+      return { submission, released };
+    })
+  );
+}
+
+// Sends what a submission would have triggered had it not been flagged when it arrived
+export async function announceRelease(submission: ModeratedSubmission) {
+  switch (submission.type) {
+    case 'service':
+      await notifySubmission(submission);
+      await emitWebhookEvent('service_feedback.created', submission.record);
+      break;
+    case 'ui':
+      await notifySubmission(submission);
+      await emitWebhookEvent('ui_feedback.created', submission.record);
+      break;
+    case 'event':
+      await notifySubmission(submission);
+      break;
+    case 'registration':
+      await emitWebhookEvent('registration.created', submission.record);
+      break;
+  }
+}
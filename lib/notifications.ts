@@ -0,0 +1,153 @@
+import type { EventFeedback, NotificationRule, ServiceFeedback, UIFeedback } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { withRetry } from '@/lib/retry';
+import { sendMail } from '@/lib/mailer';
+import { ratingDimensions } from '@/lib/service-feedback-fields';
+import { eventRatingDimensions } from '@/lib/event-feedback-fields';
+import { z } from 'zod';
+
+export const notificationTriggers = ['LOW_RATING', 'FOLLOW_UP_REQUESTED', 'UI_FEEDBACK_SEVERITY'] as const;
+
+const severities = ['CRITICAL', 'HIGH', 'MEDIUM', 'LOW'] as const;
+
+export const notificationRuleSchema = z
+  .object({
+    name: z.string().trim().min(1).max(100),
+    trigger: z.enum(notificationTriggers),
+    maxRating: z.number().int().min(1).max(5).nullable().default(null),
+    severities: z.array(z.enum(severities)).default([]),
+    emailRecipients: z.array(z.email()).max(20).default([]),
+    notifyInApp: z.boolean().default(true),
+    isActive: z.boolean().default(true),
+  })
+  .refine(rule => rule.trigger !== 'LOW_RATING' || rule.maxRating !== null, {
+    message: 'Low rating rules need a maximum rating',
+    path: ['maxRating'],
+  })
+  .refine(rule => rule.trigger !== 'UI_FEEDBACK_SEVERITY' || rule.severities.length > 0, {
+    message: 'Pick at least one severity',
+    path: ['severities'],
+  })
+  .refine(rule => rule.notifyInApp || rule.emailRecipients.length > 0, {
+    message: 'Notify in the app, by email, or both',
+    path: ['emailRecipients'],
+  });
+
+export type NotificationRuleInput = z.infer<typeof notificationRuleSchema>;
+
+export type NotifiableSubmission =
+  | { type: 'service'; record: ServiceFeedback }
+  | { type: 'ui'; record: UIFeedback }
+  | { type: 'event'; record: EventFeedback };
+
+interface Alert {
+  title: string;
+  message: string;
+  link: string;
+}
+
+function serviceSubmitter(record: ServiceFeedback): string {
+  return [record.customerName, record.companyName].filter(Boolean).join(', ') || 'an anonymous customer';
+}
+
+function lowRatings<T>(record: T, dimensions: readonly { key: keyof T; label: string }[], maxRating: number) {
+  return dimensions
+    .filter(({ key }) => Number(record[key]) <= maxRating)
+    .map(({ key, label }) => `${label}: ${record[key]}/5`);
+}
+
+// What the rule has to say about the submission, or null when it doesn't match
+function alertFor(rule: NotificationRule, submission: NotifiableSubmission): Alert | null {
+  switch (rule.trigger) {
+    case 'LOW_RATING': {
+      const maxRating = rule.maxRating ?? 2;
+      if (submission.type === 'service') {
+        const ratings = lowRatings(submission.record, ratingDimensions, maxRating);
+        if (ratings.length === 0) return null;
+        return {
+          title: `Low service rating from ${serviceSubmitter(submission.record)}`,
+          message: ratings.join('\n'),
+          link: submission.record.customerId ? `/admin/customers/${submission.record.customerId}` : '/admin',
+        };
+      }
+      if (submission.type === 'event') {
+        const ratings = lowRatings(submission.record, eventRatingDimensions, maxRating);
+        if (ratings.length === 0) return null;
+        return {
+          title: `Low event rating${submission.record.sourceEvent ? ` at ${submission.record.sourceEvent}` : ''}`,
+          message: [...ratings, submission.record.additionalComments].filter(Boolean).join('\n'),
+          link: '/admin/events',
+        };
+      }
+      return null;
+    }
+
+    case 'FOLLOW_UP_REQUESTED':
+      if (submission.type !== 'service' || !submission.record.followUpRequested) return null;
+      return {
+        title: `Follow-up requested by ${serviceSubmitter(submission.record)}`,
+        message: [
+          submission.record.contactInfo && `Contact: ${submission.record.contactInfo}`,
+          submission.record.preferredContactMethod && `Preferred method: ${submission.record.preferredContactMethod}`,
+          submission.record.issuesExperienced,
+        ].filter(Boolean).join('\n'),
+        link: '/admin/follow-ups',
+      };
+
+    case 'UI_FEEDBACK_SEVERITY': {
+      if (submission.type !== 'ui') return null;
+      const { severity } = submission.record;
+      if (!severity || !rule.severities.includes(severity)) return null;
+      return {
+        title: `${severity} UI feedback: ${submission.record.title}`,
+        message: submission.record.description || 'No description given.',
+        link: '/admin/ui-feedback',
+      };
+    }
+  }
+}
+
+async function deliver(rule: NotificationRule, alert: Alert) {
+  if (rule.notifyInApp) {
+    await withRetry(() =>
+      prisma.notification.create({
+        data: { ruleId: rule.id, title: alert.title, message: alert.message, link: alert.link },
+      })
+    );
+  }
+
+  if (rule.emailRecipients.length > 0) {
+    const link = process.env.APP_URL ? new URL(alert.link, process.env.APP_URL).toString() : alert.link;
+    await sendMail({
+      to: rule.emailRecipients,
+      subject: alert.title,
+      text: `${alert.message}\n\nOpen: ${link}\n\nSent because of the notification rule "${rule.name}".`,
+    });
+  }
+}
+
+/**
+ * Runs a new submission through the active rules. Meant to run after the
+ * response (see `after` in the POST handlers), so it never fails a submission:
+ * delivery problems are logged per rule. Submissions held as spam are skipped.
+ */
+export async function notifySubmission(submission: NotifiableSubmission) {
+  if (submission.record.flagged) return;
+
+  try {
+    const rules = await withRetry(() => prisma.notificationRule.findMany({ where: { isActive: true } }));
+
+    for (const rule of rules) {
+      const alert = alertFor(rule, submission);
+      if (!alert) continue;
+
+      try {
+        await deliver(rule, alert);
+      } catch (error) {
+        console.error(`Notification rule "${rule.name}" failed:`, error);
+      }
+    }
+  } catch (error) {
+    console.error('Error running notification rules:', error);
+  }
+}
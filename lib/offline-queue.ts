@@ -0,0 +1,135 @@
+// Browser-side queue for service feedback filled in without a connection.
+// Entries live in localStorage until the server accepts them, or until the
+// technician deals with one the server refused. Each one keeps
+// its id as both the Idempotency-Key and the clientSubmissionId, so sending it
+// again after a lost response never stores it twice.
+
+const STORAGE_KEY = "service-feedback-queue";
+const CHANGE_EVENT = "service-feedback-queue-change";
+
+export interface QueuedSubmission {
+  id: string;
+  url: string;
+  body: string; // JSON, resent exactly as first attempted
+  headers: Record<string, string>;
+  queuedAt: string;
+  // Set when the server refused it; kept so it can be corrected or downloaded
+  failed?: { error: string; at: string };
+}
+
+export type SendOutcome =
+  | { status: "sent" }
+  | { status: "duplicate" } // stored by an earlier attempt
+  | { status: "rejected"; error: string; details?: { path: PropertyKey[]; message: string }[] }
+  | { status: "in_progress" } // an earlier attempt with the same key has not finished
+  | { status: "unavailable" }; // offline, server trouble or rate limited: try again later
+
+export async function sendSubmission(item: QueuedSubmission): Promise<SendOutcome> {
+  let response: Response;
+  try {
+    response = await fetch(item.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Idempotency-Key": item.id,
+        ...item.headers,
+      },
+      body: item.body,
+    });
+  } catch {
+    return { status: "unavailable" };
+  }
+
+  const result = await response.json().catch(() => null);
+
+  if (response.ok) return { status: "sent" };
+  if (response.status === 409 && result?.duplicateOfId) return { status: "duplicate" };
+
+  // A plain 409 means an earlier attempt with the same key is still running
+  if (response.status === 409) return { status: "in_progress" };
+  if (response.status === 429 || response.status >= 500) return { status: "unavailable" };
+
+  return { status: "rejected", error: result?.error || "Submission was rejected", details: result?.details };
+}
+
+export function readQueue(): QueuedSubmission[] {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || "[]");
+  } catch {
+    return [];
+  }
+}
+
+function writeQueue(items: QueuedSubmission[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(items));
+  window.dispatchEvent(new Event(CHANGE_EVENT));
+}
+
+export function enqueue(item: QueuedSubmission) {
+  writeQueue([...readQueue().filter((existing) => existing.id !== item.id), item]);
+}
+
+export function removeFromQueue(id: string) {
+  writeQueue(readQueue().filter((item) => item.id !== id));
+}
+
+function markFailed(id: string, error: string) {
+  const failed = { error, at: new Date().toISOString() };
+  writeQueue(readQueue().map((item) => (item.id === id ? { ...item, failed } : item)));
+}
+
+// Notifies on changes from this tab and from other tabs
+export function subscribeToQueue(listener: () => void) {
+  const onStorage = (event: StorageEvent) => {
+    if (event.key === STORAGE_KEY) listener();
+  };
+  window.addEventListener(CHANGE_EVENT, listener);
+  window.addEventListener("storage", onStorage);
+  return () => {
+    window.removeEventListener(CHANGE_EVENT, listener);
+    window.removeEventListener("storage", onStorage);
+  };
+}
+
+export interface SyncResult {
+  sent: number;
+  rejected: { item: QueuedSubmission; error: string }[];
+}
+
+let running: Promise<SyncResult> | null = null;
+
+/**
+ * Sends queued submissions oldest first, stopping at the first one the server
+ * can't take right now. Submissions the server rejects outright are marked
+ * failed and skipped from then on, since resending them unchanged would fail
+ * the same way.
+ */
+export function syncQueue(): Promise<SyncResult> {
+  running ??= (async () => {
+    const result: SyncResult = { sent: 0, rejected: [] };
+
+    for (const item of readQueue()) {
+      if (item.failed) continue;
+
+      const outcome = await sendSubmission(item);
+      if (outcome.status === "unavailable") break;
+      // Its key may belong to an attempt that never finished; the rest need not wait for it
+      if (outcome.status === "in_progress") continue;
+
+      if (outcome.status === "rejected") {
+        console.error("Queued submission rejected:", outcome.error, item);
+        markFailed(item.id, outcome.error);
+        result.rejected.push({ item, error: outcome.error });
+      } else {
+        removeFromQueue(item.id);
+        result.sent++;
+      }
+    }
+
+    return result;
+  })().finally(() => {
+    running = null;
+  });
+
+  return running;
+}
@@ -0,0 +1,6 @@
+import { Prisma } from '@prisma/client';
+
+// A unique index rejected the write, e.g. two requests creating the same row at once
+export function isUniqueConstraintError(error: unknown) {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+}
@@ -0,0 +1,49 @@
+import { NextRequest } from 'next/server';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { clientIp } from '@/lib/rate-limit';
+
+function requestFrom(forwardedFor?: string) {
+  return new NextRequest('http://localhost/api/feedback', {
+    headers: forwardedFor === undefined ? {} : { 'x-forwarded-for': forwardedFor },
+  });
+}
+
+describe('clientIp', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('takes the address the single trusted proxy appended by default', () => {
+    expect(clientIp(requestFrom('203.0.113.7'))).toBe('203.0.113.7');
+  });
+
+  it('ignores addresses the client put in front of the proxy entry', () => {
+    expect(clientIp(requestFrom('1.2.3.4, 203.0.113.7'))).toBe('203.0.113.7');
+  });
+
+  it('counts TRUST_PROXY_HOPS entries from the right', () => {
+    vi.stubEnv('TRUST_PROXY_HOPS', '2');
+
+    expect(clientIp(requestFrom('1.2.3.4, 203.0.113.7, 10.0.0.2'))).toBe('203.0.113.7');
+  });
+
+  it('trusts nothing when there are fewer entries than proxies', () => {
+    vi.stubEnv('TRUST_PROXY_HOPS', '2');
+
+    expect(clientIp(requestFrom('203.0.113.7'))).toBe('unknown');
+  });
+
+  it('falls back to one hop for an invalid TRUST_PROXY_HOPS', () => {
+    vi.stubEnv('TRUST_PROXY_HOPS', 'two');
+
+    expect(clientIp(requestFrom('1.2.3.4, 203.0.113.7'))).toBe('203.0.113.7');
+  });
+
+  it('skips blank entries and surrounding spaces', () => {
+    expect(clientIp(requestFrom(' 1.2.3.4 ,, 203.0.113.7 , '))).toBe('203.0.113.7');
+  });
+
+  it('returns unknown without the header', () => {
+    expect(clientIp(requestFrom())).toBe('unknown');
+  });
+});
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+export interface RateLimitRule {
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateLimitWindow {
+  count: number;
+  resetAt: number; // epoch milliseconds
+}
+
+/**
+ * Counts hits per key in fixed windows. The default store lives in process
+ * memory, so each server instance counts separately; deployments running
+ * several instances should plug in a shared store with `setRateLimitStore`.
+ */
+export interface RateLimitStore {
+  hit(key: string, windowMs: number): Promise<RateLimitWindow>;
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private windows = new Map<string, RateLimitWindow>();
+
+  constructor(private maxKeys = 10_000) {}
+
+  async hit(key: string, windowMs: number): Promise<RateLimitWindow> {
+    const now = Date.now();
+    const current = this.windows.get(key);
+
+    if (current && current.resetAt > now) {
+      current.count++;
+      return { ...current };
+    }
+
+    if (this.windows.size >= this.maxKeys) this.prune(now);
+
+    const window = { count: 1, resetAt: now + windowMs };
+    this.windows.set(key, window);
+    return { ...window };
+  }
+
+  private prune(now: number) {
+    for (const [key, window] of this.windows) {
+      if (window.resetAt <= now) this.windows.delete(key);
+    }
+    // Everything is still live: drop the oldest keys rather than grow without bound
+    for (const key of this.windows.keys()) {
+      if (this.windows.size < this.maxKeys) break;
+      this.windows.delete(key);
+    }
+  }
+}
+
+let store: RateLimitStore = new MemoryRateLimitStore();
+
+export function setRateLimitStore(next: RateLimitStore) {
+  store = next;
+}
+
+// Seconds until the key may try again, or null while it is within the limit
+export async function checkRateLimit(key: string, rule: RateLimitRule): Promise<number | null> {
+  const window = await store.hit(key, rule.windowMs);
+  if (window.count <= rule.limit) return null;
+  return Math.max(1, Math.ceil((window.resetAt - Date.now()) / 1000));
+}
+
+export function rateLimitedResponse(retryAfterSeconds: number) {
+  return NextResponse.json(
+    { error: 'Too many submissions, please try again later' },
+    { status: 429, headers: { 'Retry-After': String(retryAfterSeconds) } }
+  );
+}
+
+// Proxies in front of the app that append the address they saw to X-Forwarded-For
+function trustedProxyHops(): number {
+  const hops = Number(process.env.TRUST_PROXY_HOPS);
+  return Number.isInteger(hops) && hops > 0 ? hops : 1;
+}
+
+/**
+ * The client's address as seen by the outermost trusted proxy: the Nth entry
+ * from the right of X-Forwarded-For, for N trusted proxies. Entries further
+ * left were sent by the client and could be anything, so they are never used.
+ */
+export function clientIp(request: NextRequest): string {
+  const forwarded = (request.headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map(address => address.trim())
+    .filter(Boolean);
+  // Fewer entries than proxies: the request skipped one, so nothing in it can be trusted
+  return forwarded[forwarded.length - trustedProxyHops()] ?? 'unknown';
+}
@@ -0,0 +1,90 @@
+import { Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { nextDay, toDateOnly } from '@/lib/dates';
+
+export const registrationSortFields = [
+  'createdAt',
+  'name',
+  'companyName',
+  'country',
+  'followUpDate',
+] as const;
+
+const isoDate = z.iso.date({ error: 'Date must be in YYYY-MM-DD format' });
+
+export const registrationQuerySchema = z.object({
+  // Filters (mirror the registrations admin toolbar)
+  search: z.string().trim().max(100).optional(),
+  country: z.string().optional(),
+  industry: z.string().optional(),
+  sourceEvent: z.string().optional(),
+  followUp: z.enum(['true', 'false']).optional(),
+  followUpFrom: isoDate.optional(),
+  followUpTo: isoDate.optional(),
+
+  // Sorting
+  sortBy: z.enum(registrationSortFields).default('createdAt'),
+  sortOrder: z.enum(['asc', 'desc']).default('desc'),
+});
+
+export type RegistrationQuery = z.infer<typeof registrationQuerySchema>;
+
+// Parse URL search params, treating empty values as absent
+export function parseRegistrationQuery(searchParams: URLSearchParams): RegistrationQuery {
+  const params = Object.fromEntries(
+    [...searchParams.entries()].filter(([, value]) => value !== '')
+  );
+
+  return registrationQuerySchema.parse(params);
+}
+
+export function buildRegistrationWhere(query: RegistrationQuery): Prisma.RegistrationWhereInput {
+  const where: Prisma.RegistrationWhereInput = {};
+
+  // Search filter (name, company, job title, contact details)
+  if (query.search) {
+    where.OR = [
+      { name: { contains: query.search, mode: 'insensitive' } },
+      { companyName: { contains: query.search, mode: 'insensitive' } },
+      { jobTitle: { contains: query.search, mode: 'insensitive' } },
+      { email: { contains: query.search, mode: 'insensitive' } },
+      { mobileNumber: { contains: query.search } },
+      { officePhone: { contains: query.search } },
+    ];
+  }
+
+  if (query.country) {
+    where.country = query.country;
+  }
+
+  if (query.industry) {
+    where.industry = query.industry;
+  }
+
+  if (query.sourceEvent) {
+    where.sourceEvent = query.sourceEvent;
+  }
+
+  if (query.followUp) {
+    where.followUp = query.followUp === 'true';
+  }
+
+  // followUpTo is inclusive of the whole day
+  if (query.followUpFrom || query.followUpTo) {
+    where.followUpDate = {
+      ...(query.followUpFrom && { gte: toDateOnly(query.followUpFrom) }),
+      ...(query.followUpTo && { lt: nextDay(query.followUpTo) }),
+    };
+  }
+
+  return where;
+}
+
+export function buildRegistrationOrderBy(
+  query: RegistrationQuery
+): Prisma.RegistrationOrderByWithRelationInput[] {
+  return [
+    { [query.sortBy]: { sort: query.sortOrder, nulls: 'last' } },
+    { id: query.sortOrder },
+  ];
+}
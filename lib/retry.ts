@@ -0,0 +1,27 @@
+// Retry function for database operations
+export async function withRetry<T>(operation: () => Promise<T>, maxRetries = 3): Promise<T> {
+  let lastError: Error;
+  
+  for (let attempt = 1; attempt <= maxRetries; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      lastError = error as Error;
+      
+      // If it's a connection error and we have retries left, wait and retry
+      if (attempt < maxRetries && (
+        lastError.message.includes("Can't reach database server") ||
+        lastError.message.includes("Connection terminated") ||
+        lastError.message.includes("Connection refused")
+      )) {
+        console.log(`Database connection attempt ${attempt} failed, retrying...`);
+        await new Promise(resolve => setTimeout(resolve, 1000 * attempt)); // Exponential backoff
+        continue;
+      }
+      
+      throw lastError;
+    }
+  }
+  
+  throw lastError!;
+}
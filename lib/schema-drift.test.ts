@@ -0,0 +1,133 @@
+/**
+ * Checks that the shared zod schemas and the Prisma models describe the same
+ * fields, with the same types and the same optionality. Adding a column
+ * without a schema field (or the other way round), or changing a column's
+ * type or nullability on one side only, fails `pnpm test`.
+ */
+import { Prisma } from '@prisma/client';
+import { describe, expect, it } from 'vitest';
+import { z } from 'zod';
+import {
+  eventFeedbackSchema,
+  registrationSchema,
+  serviceFeedbackSchema,
+  uiFeedbackSchema,
+} from '@/lib/schemas';
+
+// Columns the database or the server fills in rather than the submitter
+const managedColumns = [
+  'id',
+  'createdAt',
+  'updatedAt',
+  'submissionDate',
+  'customerId',
+  'fingerprint',
+  'flagged',
+  'flagReasons',
+];
+
+// UI feedback workflow columns are only ever written by staff through the triage API
+const uiFeedbackWorkflowColumns = ['status', 'assignedTo', 'resolution', 'resolvedAt', 'duplicateOfId'];
+
+// Sent alongside the form fields: by clients that queue submissions while offline,
+// and the language the form was filled in (see lib/feedback-submissions.ts)
+const submissionContextColumns = ['clientSubmissionId', 'locale'];
+
+// Filled in from the uploads named in `attachmentIds`, see lib/attachments.ts
+const attachmentColumns = ['attachmentUrls'];
+
+interface DriftCase {
+  model: string;
+  schema: z.ZodObject;
+  ignoredColumns: string[];
+  // Optional in the schema but required in the table: createUIFeedback fills in a fallback
+  serverFallbacks?: string[];
+}
+
+const cases: DriftCase[] = [
+  {
+    model: 'ServiceFeedback',
+    schema: serviceFeedbackSchema,
+    ignoredColumns: [...managedColumns, ...submissionContextColumns],
+  },
+  {
+    model: 'UIFeedback',
+    schema: uiFeedbackSchema,
+    ignoredColumns: [...managedColumns, ...uiFeedbackWorkflowColumns, ...attachmentColumns],
+    serverFallbacks: ['feedbackType', 'title', 'description'],
+  },
+  { model: 'EventFeedback', schema: eventFeedbackSchema, ignoredColumns: managedColumns },
+  { model: 'Registration', schema: registrationSchema, ignoredColumns: managedColumns },
+];
+
+interface FieldShape {
+  type: string; // Prisma scalar name, or "enum:" followed by the sorted values
+  isList: boolean;
+  optional: boolean;
+}
+
+// The column a zod field is stored in, as far as its type and optionality go
+function zodFieldShape(schema: z.ZodType): FieldShape {
+  const def = schema._zod.def;
+
+  switch (def.type) {
+    case 'optional':
+    case 'default':
+      return { ...zodFieldShape((def as z.core.$ZodOptionalDef).innerType as z.ZodType), optional: true };
+    case 'union': {
+      // `.optional().or(z.literal(""))`: a blank string is stored as null
+      const options = (def as z.core.$ZodUnionDef).options as z.ZodType[];
+      const stored = options.filter(option => !(option instanceof z.ZodLiteral && option.value === ''));
+      if (stored.length !== 1) throw new Error('Unions other than `.or(z.literal(""))` are not supported');
+      return zodFieldShape(stored[0]);
+    }
+    case 'array':
+      return { ...zodFieldShape((schema as z.ZodArray<z.ZodType>).element), isList: true, optional: false };
+    case 'enum':
+      return { type: `enum:${[...(schema as z.ZodEnum).options].sort().join(',')}`, isList: false, optional: false };
+    case 'string':
+      return { type: (schema as z.ZodString).format === 'date' ? 'DateTime' : 'String', isList: false, optional: false };
+    case 'number':
+      return { type: (schema as z.ZodNumber).isInt ? 'Int' : 'Float', isList: false, optional: false };
+    case 'boolean':
+      return { type: 'Boolean', isList: false, optional: false };
+    default:
+      throw new Error(`Unsupported zod type: ${def.type}`);
+  }
+}
+
+function prismaFieldType(field: Prisma.DMMF.Field): string {
+  if (field.kind !== 'enum') return field.type;
+  const values = Prisma.dmmf.datamodel.enums.find(({ name }) => name === field.type)!.values;
+  return `enum:${values.map(({ name }) => name).sort().join(',')}`;
+}
+
+describe.each(cases)('$model schema', ({ model, schema, ignoredColumns, serverFallbacks = [] }) => {
+  const columns = Prisma.dmmf.datamodel.models
+    .find(({ name }) => name === model)!
+    .fields.filter(field => field.kind !== 'object' && !ignoredColumns.includes(field.name));
+  const shape = schema.shape as Record<string, z.ZodType>;
+
+  it('has a field for every column and a column for every field', () => {
+    expect(Object.keys(shape).sort()).toEqual(columns.map(({ name }) => name).sort());
+  });
+
+  it.each(columns.filter(({ name }) => name in shape))('matches the $name column', field => {
+    const zodField = zodFieldShape(shape[field.name]);
+
+    expect({ type: zodField.type, isList: zodField.isList }).toEqual({
+      type: prismaFieldType(field),
+      isList: field.isList,
+    });
+
+    // Lists are never null (a missing one is stored as []), and a column with
+    // a default takes it when the field is left out
+    if (field.isList || field.hasDefaultValue) return;
+
+    if (serverFallbacks.includes(field.name)) {
+      expect(field.isRequired, 'server fallback for a nullable column').toBe(true);
+      return;
+    }
+    expect(zodField.optional, 'optional in the schema exactly when nullable in the table').toBe(!field.isRequired);
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Validation schemas shared by the client forms, the API routes and the admin
+ * pages. This module only depends on zod so it is safe to import from client
+ * components; lib/schema-drift.test.ts checks it against the Prisma models.
+ */
+import { z } from 'zod';
+
+export const uiFeedbackSchema = z.object({
+  // User Information (optional)
+  userName: z.string().optional(),
+  userEmail: z.string().email("Please enter a valid email").optional().or(z.literal("")),
+  userRole: z.string().optional(),
+  
+  // Feedback Context
+  pageUrl: z.string().optional(),
+  componentName: z.string().optional(),
+  deviceType: z.enum(["DESKTOP", "MOBILE", "TABLET"]).optional(),
+  browserInfo: z.string().optional(),
+  screenResolution: z.string().optional(),
+  
+  // Feedback Content (optional)
+  feedbackType: z.enum([
+    "BUG", "FEATURE_REQUEST", "IMPROVEMENT", "COMPLIMENT", 
+    "QUESTION", "ACCESSIBILITY", "PERFORMANCE", "DESIGN", "USABILITY", "OTHER"
+  ]).optional(),
+  severity: z.enum(["CRITICAL", "HIGH", "MEDIUM", "LOW"]).optional(),
+  title: z.string().max(100, "Title must be at most 100 characters").optional(),
+  description: z.string().max(1000, "Description must be at most 1000 characters").optional(),
+  stepsToReproduce: z.string().optional(),
+  expectedBehavior: z.string().optional(),
+  actualBehavior: z.string().optional(),
+  
+  // Ratings (1-5 scale)
+  usabilityRating: z.number().int().min(1).max(5).optional(),
+  designRating: z.number().int().min(1).max(5).optional(),
+  performanceRating: z.number().int().min(1).max(5).optional(),
+  overallRating: z.number().int().min(1).max(5).optional(),
+  
+  // Additional Context
+  tags: z.array(z.string()).optional(),
+  priority: z.enum(["URGENT", "HIGH", "MEDIUM", "LOW"]).optional(),
+});
+
+export const serviceFeedbackSchema = z.object({
+  // Section 1: Customer Information
+  customerName: z.string().optional(),
+  companyName: z.string().optional(),
+  contactInfo: z.string().optional(),
+  // Messages come from the locale's error map, see validationErrorMap in lib/i18n.ts
+  serviceDate: z.iso.date(),
+  serviceType: z.array(z.string()).min(1),
+  serviceTypeOther: z.string().optional(),
+
+  // Section 2: Service Quality Ratings (1-5 scale)
+  easeOfOrdering: z.number().int().min(1).max(5),
+  orderProcessingAccuracy: z.number().int().min(1).max(5),
+  orderChannelKnowledge: z.number().int().min(1).max(5),
+  serviceTimeliness: z.number().int().min(1).max(5),
+  orderAccuracy: z.number().int().min(1).max(5),
+  productQuality: z.number().int().min(1).max(5),
+  quantityAccuracy: z.number().int().min(1).max(5),
+  staffProfessionalism: z.number().int().min(1).max(5),
+  responsiveness: z.number().int().min(1).max(5),
+  overallSatisfaction: z.number().int().min(1).max(5),
+  priceCompetitiveness: z.number().int().min(1).max(5),
+  stockAvailability: z.number().int().min(1).max(5),
+  technicalInstruction: z.number().int().min(1).max(5),
+
+  // Section 3: Open-Ended Questions
+  mostLiked: z.string().optional(),
+  overallExperience: z.string().optional(),
+  expectationsMet: z.string().optional(),
+  improvementAreas: z.string().optional(),
+  issuesExperienced: z.string().optional(),
+  wouldRecommend: z.string().optional(),
+  recommendScore: z.number().int().min(0).max(10).optional(),
+
+  // Section 4: Future Expectations
+  additionalServices: z.string().optional(),
+  futureExpectations: z.string().optional(),
+  serviceQualityRecommendations: z.string().optional(),
+
+  // Section 5: Follow-Up
+  followUpRequested: z.boolean().default(false),
+  preferredContactMethod: z.string().optional(),
+  preferredContactOther: z.string().optional(),
+});
+
+export const eventFeedbackSchema = z.object({
+  // Ratings (1-5 scale) - all required for feedback
+  overallRating: z.number().int().min(1).max(5),
+  contentQualityRating: z.number().int().min(1).max(5),
+  speakerRating: z.number().int().min(1).max(5),
+  venueRating: z.number().int().min(1).max(5),
+  organizationRating: z.number().int().min(1).max(5),
+  networkingRating: z.number().int().min(1).max(5),
+  coffeeQualityRating: z.number().int().min(1).max(5),
+  vendorRating: z.number().int().min(1).max(5),
+  workshopRating: z.number().int().min(1).max(5),
+
+  // Additional Comments (optional)
+  additionalComments: z.string().max(2000).optional(),
+  sourceEvent: z.string().max(100).optional(),
+});
+
+export const registrationSchema = z.object({
+  name: z.string().max(50).optional(),
+  companyName: z.string().max(100).optional(),
+  jobTitle: z.string().max(100).optional(),
+  mobileNumber: z.string().regex(/^[\+]?[1-9][\d\s\-\(\)]{3,15}$/).optional().or(z.literal("")),
+  officePhone: z.string().regex(/^[\+]?[1-9][\d\s\-\(\)]{3,15}$/).optional().or(z.literal("")),
+  email: z.string().email().optional().or(z.literal("")),
+  website: z.string().optional().or(z.literal("")),
+  officeAddress: z.string().max(200).optional(),
+  country: z.string().max(50).optional(),
+  industry: z.string().max(50).optional(),
+  sourceEvent: z.string().max(100).optional(),
+  followUpDate: z.iso.date({ error: "Follow-up date must be a valid date" }).optional().or(z.literal("")),
+  followUp: z.boolean(),
+  comment: z.string().max(500).optional(),
+});
+
+export type UIFeedbackInput = z.infer<typeof uiFeedbackSchema>;
+export type ServiceFeedbackInput = z.infer<typeof serviceFeedbackSchema>;
+export type ServiceFeedbackFormValues = z.input<typeof serviceFeedbackSchema>;
+export type EventFeedbackInput = z.infer<typeof eventFeedbackSchema>;
+export type RegistrationInput = z.infer<typeof registrationSchema>;
+
+// A stored row as the JSON APIs return it: blanks are null and dates (including
+// date-only columns like serviceDate) are ISO timestamp strings
+type StoredRecord<T> = { [K in keyof T]-?: undefined extends T[K] ? Exclude<T[K], undefined> | null : T[K] } & {
+  id: string;
+  flagged: boolean; // held for moderation as likely spam
+  flagReasons: string[];
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type ServiceFeedbackRecord = StoredRecord<ServiceFeedbackInput> & { submissionDate: string; locale: string };
+export type EventFeedbackRecord = StoredRecord<EventFeedbackInput> & { submissionDate: string };
+export type RegistrationRecord = StoredRecord<RegistrationInput>;
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { computeServiceFeedbackAnalytics, type RatingRow } from '@/lib/service-feedback-analytics';
+import { ratingDimensions } from '@/lib/service-feedback-fields';
+
+// Wednesday; its week starts on Monday 2026-03-02
+const now = new Date('2026-03-04T12:00:00Z');
+
+function row(createdAt: string, overallSatisfaction: number, recommendScore: number | null, serviceType = ['delivery']) {
+  const ratings = Object.fromEntries(ratingDimensions.map(({ key }) => [key, 3]));
+  return {
+    ...ratings,
+    serviceType,
+    serviceDate: new Date(createdAt),
+    createdAt: new Date(createdAt),
+    overallSatisfaction,
+    recommendScore,
+  } as RatingRow;
+}
+
+describe('computeServiceFeedbackAnalytics', () => {
+  it('scores NPS as promoters minus detractors, leaving out responses without a score', () => {
+    const { nps } = computeServiceFeedbackAnalytics(
+      [
+        row('2026-03-02T09:00:00Z', 5, 10),
+        row('2026-03-02T10:00:00Z', 5, 9),
+        row('2026-03-03T09:00:00Z', 4, 7),
+        row('2026-03-03T10:00:00Z', 2, 3),
+        row('2026-03-03T11:00:00Z', 3, null),
+      ],
+      4,
+      now
+    );
+
+    expect(nps.overall).toEqual({ responses: 4, promoters: 2, passives: 1, detractors: 1, score: 25 });
+  });
+
+  it('has no NPS score without scored responses', () => {
+    const { nps } = computeServiceFeedbackAnalytics([row('2026-03-02T09:00:00Z', 4, null)], 4, now);
+
+    expect(nps.overall.score).toBeNull();
+  });
+
+  it('buckets rows into Monday-based UTC weeks, including empty ones', () => {
+    const { dimensions, nps } = computeServiceFeedbackAnalytics(
+      [
+        row('2026-02-22T23:30:00Z', 1, 0), // Sunday: previous week
+        row('2026-02-23T00:00:00Z', 3, 10), // Monday
+        row('2026-03-04T08:00:00Z', 5, 10),
+      ],
+      3,
+      now
+    );
+    const overall = dimensions.find(dimension => dimension.key === 'overallSatisfaction')!;
+
+    expect(overall.trend).toEqual([
+      { weekStart: '2026-02-16', average: 1, count: 1 },
+      { weekStart: '2026-02-23', average: 3, count: 1 },
+      { weekStart: '2026-03-02', average: 5, count: 1 },
+    ]);
+    expect(nps.trend.map(week => [week.weekStart, week.score])).toEqual([
+      ['2026-02-16', -100],
+      ['2026-02-23', 100],
+      ['2026-03-02', 100],
+    ]);
+  });
+
+  it('compares the last two weeks, and only when both have responses', () => {
+    const rows = [row('2026-02-24T08:00:00Z', 3, null), row('2026-03-03T08:00:00Z', 4.5, null)];
+    const withBoth = computeServiceFeedbackAnalytics(rows, 2, now);
+    const withGap = computeServiceFeedbackAnalytics([rows[1]], 2, now);
+
+    expect(withBoth.dimensions.find(d => d.key === 'overallSatisfaction')!.weekOverWeekChange).toBe(1.5);
+    expect(withGap.dimensions.find(d => d.key === 'overallSatisfaction')!.weekOverWeekChange).toBeNull();
+  });
+
+  it('counts a response under each of its service types', () => {
+    const { nps } = computeServiceFeedbackAnalytics(
+      [row('2026-03-02T09:00:00Z', 5, 10, ['delivery', 'pickup']), row('2026-03-02T10:00:00Z', 2, 2, ['pickup'])],
+      1,
+      now
+    );
+
+    expect(nps.byServiceType).toEqual([
+      { segment: 'pickup', responses: 2, promoters: 1, passives: 0, detractors: 1, score: 0 },
+      { segment: 'delivery', responses: 1, promoters: 1, passives: 0, detractors: 0, score: 100 },
+    ]);
+  });
+});
@@ -0,0 +1,203 @@
+import { Prisma } from '@prisma/client';
+import { npsCategory, ratingDimensions, type RatingDimension } from '@/lib/service-feedback-fields';
+
+// Only the rating columns and grouping keys are loaded for analytics
+export const ratingRowSelect = {
+  serviceType: true,
+  serviceDate: true,
+  createdAt: true,
+  easeOfOrdering: true,
+  orderProcessingAccuracy: true,
+  orderChannelKnowledge: true,
+  serviceTimeliness: true,
+  orderAccuracy: true,
+  productQuality: true,
+  quantityAccuracy: true,
+  staffProfessionalism: true,
+  responsiveness: true,
+  overallSatisfaction: true,
+  priceCompetitiveness: true,
+  stockAvailability: true,
+  technicalInstruction: true,
+  recommendScore: true,
+} satisfies Prisma.ServiceFeedbackSelect;
+
+export type RatingRow = Prisma.ServiceFeedbackGetPayload<{ select: typeof ratingRowSelect }>;
+
+export interface WeeklyAverage {
+  weekStart: string; // YYYY-MM-DD, Monday (UTC)
+  average: number | null;
+  count: number;
+}
+
+export interface DimensionStats {
+  key: RatingDimension;
+  label: string;
+  average: number | null;
+  count: number;
+  distribution: Record<1 | 2 | 3 | 4 | 5, number>;
+  trend: WeeklyAverage[];
+  weekOverWeekChange: number | null;
+}
+
+export interface SegmentAverages {
+  segment: string;
+  responses: number;
+  averages: Record<RatingDimension, number | null>;
+}
+
+export interface NpsBreakdown {
+  responses: number;
+  promoters: number;
+  passives: number;
+  detractors: number;
+  score: number | null; // -100 to 100
+}
+
+export interface NpsStats {
+  overall: NpsBreakdown;
+  trend: (NpsBreakdown & { weekStart: string })[];
+  byServiceType: (NpsBreakdown & { segment: string })[];
+  byMonth: (NpsBreakdown & { segment: string })[];
+}
+
+export interface ServiceFeedbackAnalytics {
+  totalResponses: number;
+  dimensions: DimensionStats[];
+  byServiceType: SegmentAverages[];
+  byMonth: SegmentAverages[];
+  nps: NpsStats;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+function average(values: number[]): number | null {
+  if (values.length === 0) return null;
+  return round(values.reduce((sum, value) => sum + value, 0) / values.length);
+}
+
+function startOfWeek(date: Date): Date {
+  const day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  const offset = (day.getUTCDay() + 6) % 7; // Monday = 0
+  return new Date(day.getTime() - offset * DAY_MS);
+}
+
+function segmentAverages(segment: string, rows: RatingRow[]): SegmentAverages {
+  const averages = Object.fromEntries(
+    ratingDimensions.map(({ key }) => [key, average(rows.map(row => row[key]))])
+  ) as Record<RatingDimension, number | null>;
+
+  return { segment, responses: rows.length, averages };
+}
+
+// Responses submitted before the 0-10 question existed have no score and are skipped
+function npsBreakdown(rows: RatingRow[]): NpsBreakdown {
+  const breakdown = { responses: 0, promoters: 0, passives: 0, detractors: 0 };
+  for (const row of rows) {
+    if (row.recommendScore == null) continue;
+    breakdown.responses++;
+    const category = npsCategory(row.recommendScore);
+    if (category === 'promoter') breakdown.promoters++;
+    else if (category === 'passive') breakdown.passives++;
+    else breakdown.detractors++;
+  }
+
+  const score = breakdown.responses
+    ? Math.round(((breakdown.promoters - breakdown.detractors) / breakdown.responses) * 100)
+    : null;
+
+  return { ...breakdown, score };
+}
+
+function groupBy(rows: RatingRow[], keysOf: (row: RatingRow) => string[]): Map<string, RatingRow[]> {
+  const groups = new Map<string, RatingRow[]>();
+  for (const row of rows) {
+    for (const key of keysOf(row)) {
+      const group = groups.get(key);
+      if (group) {
+        group.push(row);
+      } else {
+        groups.set(key, [row]);
+      }
+    }
+  }
+  return groups;
+}
+
+// Aggregate rating rows into per-dimension averages, distributions and weekly trends
+export function computeServiceFeedbackAnalytics(
+  rows: RatingRow[],
+  weeks: number,
+  now = new Date()
+): ServiceFeedbackAnalytics {
+  const currentWeek = startOfWeek(now);
+  const weekStarts = Array.from({ length: weeks }, (_, index) =>
+    new Date(currentWeek.getTime() - (weeks - 1 - index) * 7 * DAY_MS)
+  );
+  const rowsByWeek = groupBy(rows, row => [startOfWeek(row.createdAt).toISOString().slice(0, 10)]);
+
+  const dimensions = ratingDimensions.map(({ key, label }): DimensionStats => {
+    const values = rows.map(row => row[key]);
+    const distribution = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+    values.forEach(value => {
+      if (value in distribution) distribution[value as keyof typeof distribution]++;
+    });
+
+    const trend = weekStarts.map((weekStart): WeeklyAverage => {
+      const id = weekStart.toISOString().slice(0, 10);
+      const weekValues = (rowsByWeek.get(id) ?? []).map(row => row[key]);
+      return { weekStart: id, average: average(weekValues), count: weekValues.length };
+    });
+
+    // Compare the two most recent weeks in the window
+    const [previous, latest] = trend.slice(-2);
+    const weekOverWeekChange =
+      latest?.average != null && previous?.average != null
+        ? round(latest.average - previous.average)
+        : null;
+
+    return {
+      key,
+      label,
+      average: average(values),
+      count: values.length,
+      distribution,
+      trend,
+      weekOverWeekChange,
+    };
+  });
+
+  const rowsByServiceType = groupBy(rows, row => row.serviceType);
+  const byServiceType = [...rowsByServiceType]
+    .map(([serviceType, group]) => segmentAverages(serviceType, group))
+    .sort((a, b) => b.responses - a.responses);
+
+  const rowsByMonth = groupBy(rows, row => [row.serviceDate.toISOString().slice(0, 7)]);
+  const byMonth = [...rowsByMonth]
+    .map(([month, group]) => segmentAverages(month, group))
+    .sort((a, b) => a.segment.localeCompare(b.segment));
+
+  const nps: NpsStats = {
+    overall: npsBreakdown(rows),
+    trend: weekStarts.map(weekStart => {
+      const id = weekStart.toISOString().slice(0, 10);
+      return { weekStart: id, ...npsBreakdown(rowsByWeek.get(id) ?? []) };
+    }),
+    byServiceType: [...rowsByServiceType]
+      .map(([segment, group]) => ({ segment, ...npsBreakdown(group) }))
+      .sort((a, b) => b.responses - a.responses),
+    byMonth: [...rowsByMonth]
+      .map(([segment, group]) => ({ segment, ...npsBreakdown(group) }))
+      .sort((a, b) => a.segment.localeCompare(b.segment)),
+  };
+
+  return {
+    totalResponses: rows.length,
+    dimensions,
+    byServiceType,
+    byMonth,
+    nps,
+  };
+}
@@ -0,0 +1,60 @@
+import type { ServiceFeedback } from '@prisma/client';
+import { describe, expect, it } from 'vitest';
+import { toCsvRows, toCsvStream } from '@/lib/service-feedback-export';
+
+function feedback(overrides: Partial<ServiceFeedback> = {}): ServiceFeedback {
+  return {
+    id: 'fb1',
+    createdAt: new Date('2026-03-04T12:00:00Z'),
+    serviceDate: new Date('2026-03-01T00:00:00Z'),
+    serviceType: [],
+    customerName: 'Abebe',
+    ...overrides,
+  } as ServiceFeedback;
+}
+
+// Columns of the single row toCsvRows writes, split the simple way (fine for values without commas)
+const cells = (item: ServiceFeedback) => toCsvRows([item]).replace(/\r\n$/, '').split(',');
+
+describe('toCsvRows', () => {
+  it.each(['=HYPERLINK("http://evil")', '+1+2', '-2+3', '@SUM(A1)', '\tcmd', '\rcmd'])(
+    'prefixes %j with an apostrophe so spreadsheets show it as text',
+    value => {
+      expect(toCsvRows([feedback({ customerName: value })])).toContain(`'${value.replace(/"/g, '""')}`);
+    }
+  );
+
+  it('leaves ordinary text and negative numbers alone', () => {
+    expect(cells(feedback({ customerName: 'Abebe' }))[3]).toBe('Abebe');
+    expect(cells(feedback({ customerName: 'Abebe', recommendScore: -1 }))).toContain('-1');
+  });
+
+  it('quotes values with separators, quotes or line breaks', () => {
+    expect(toCsvRows([feedback({ customerName: 'Abebe, "Abe"\nKebede' })])).toContain('"Abebe, ""Abe""\nKebede"');
+  });
+
+  it('writes booleans as Yes or No and missing values as empty', () => {
+    const row = cells(feedback({ flagged: true, companyName: null }));
+
+    expect(row.at(-1)).toBe('Yes');
+    expect(row[4]).toBe('');
+  });
+});
+
+describe('toCsvStream', () => {
+  it('writes a BOM and the header, then every batch', async () => {
+    async function* batches() {
+      yield [feedback({ id: 'a' })];
+      yield [];
+      yield [feedback({ id: 'b' })];
+    }
+
+    const bytes = new Uint8Array(await new Response(toCsvStream(batches())).arrayBuffer());
+    const text = new TextDecoder('utf-8', { ignoreBOM: true }).decode(bytes);
+    const lines = text.split('\r\n');
+
+    expect(text.startsWith('\uFEFFID,Submitted At,Language,')).toBe(true);
+    expect(lines.slice(1, 3).map(line => line.split(',')[0])).toEqual(['a', 'b']);
+    expect(lines.at(-1)).toBe('');
+  });
+});
@@ -0,0 +1,120 @@
+import ExcelJS from 'exceljs';
+import type { ServiceFeedback } from '@prisma/client';
+import { ratingDimensions, serviceTypeLabel } from '@/lib/service-feedback-fields';
+import { formatDateOnly } from '@/lib/dates';
+
+interface ExportColumn {
+  header: string;
+  value: (feedback: ServiceFeedback) => string | number | boolean | null;
+}
+
+const exportColumns: ExportColumn[] = [
+  { header: 'ID', value: f => f.id },
+  { header: 'Submitted At', value: f => f.createdAt.toISOString() },
+  { header: 'Language', value: f => f.locale },
+
+  // Section 1: Customer Information
+  { header: 'Customer Name', value: f => f.customerName },
+  { header: 'Company Name', value: f => f.companyName },
+  { header: 'Contact Info', value: f => f.contactInfo },
+  { header: 'Service Date', value: f => formatDateOnly(f.serviceDate) },
+  { header: 'Service Types', value: f => f.serviceType.map(serviceTypeLabel).join(', ') },
+  { header: 'Other Service', value: f => f.serviceTypeOther },
+
+  // Section 2: Service Quality Ratings
+  ...ratingDimensions.map(({ key, label }): ExportColumn => ({ header: label, value: f => f[key] })),
+
+  // Section 3: Open-Ended Questions
+  { header: 'Most Liked', value: f => f.mostLiked },
+  { header: 'Overall Experience', value: f => f.overallExperience },
+  { header: 'Expectations Met', value: f => f.expectationsMet },
+  { header: 'Improvement Areas', value: f => f.improvementAreas },
+  { header: 'Issues Experienced', value: f => f.issuesExperienced },
+  { header: 'Likelihood to Recommend (0-10)', value: f => f.recommendScore },
+  { header: 'Would Recommend', value: f => f.wouldRecommend },
+
+  // Section 4: Future Expectations
+  { header: 'Additional Services', value: f => f.additionalServices },
+  { header: 'Future Expectations', value: f => f.futureExpectations },
+  { header: 'Service Quality Recommendations', value: f => f.serviceQualityRecommendations },
+
+  // Section 5: Follow-Up
+  { header: 'Follow-up Requested', value: f => f.followUpRequested },
+  { header: 'Preferred Contact Method', value: f => f.preferredContactMethod },
+  { header: 'Other Contact Method', value: f => f.preferredContactOther },
+
+  // Moderation
+  { header: 'Flagged as Spam', value: f => f.flagged },
+];
+
+function escapeCsv(value: string | number | boolean | null): string {
+  if (value == null) return '';
+  let text = typeof value === 'boolean' ? (value ? 'Yes' : 'No') : String(value);
+
+  // Keep spreadsheet apps from evaluating customer text as a formula
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+
+  // Quote values containing separators, quotes or line breaks
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csvLine(values: (string | number | boolean | null)[]): string {
+  return values.map(escapeCsv).join(',') + '\r\n';
+}
+
+export function toCsvRows(feedbacks: ServiceFeedback[]): string {
+  return feedbacks.map(feedback => csvLine(exportColumns.map(column => column.value(feedback)))).join('');
+}
+
+// Streams the CSV one batch at a time, so the whole result set is never held in memory
+export function toCsvStream(batches: AsyncIterable<ServiceFeedback[]>): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const iterator = batches[Symbol.asyncIterator]();
+
+  return new ReadableStream({
+    start(controller) {
+      // Prefix a BOM so Excel opens UTF-8 (e.g. Amharic names) correctly
+      controller.enqueue(encoder.encode('\uFEFF' + csvLine(exportColumns.map(column => column.header))));
+    },
+    async pull(controller) {
+      // Skip empty batches: a pull that enqueues nothing would leave the reader waiting
+      for (;;) {
+        const { value, done } = await iterator.next();
+        if (done) {
+          controller.close();
+          return;
+        }
+        if (value.length > 0) {
+          controller.enqueue(encoder.encode(toCsvRows(value)));
+          return;
+        }
+      }
+    },
+    async cancel() {
+      await iterator.return?.();
+    },
+  });
+}
+
+export async function toXlsx(feedbacks: ServiceFeedback[]): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet('Service Feedback');
+
+  sheet.columns = exportColumns.map(column => ({
+    header: column.header,
+    width: Math.max(12, column.header.length + 2),
+  }));
+  sheet.getRow(1).font = { bold: true };
+  sheet.views = [{ state: 'frozen', ySplit: 1 }];
+
+  feedbacks.forEach(feedback => {
+    sheet.addRow(exportColumns.map(column => {
+      const value = column.value(feedback);
+      return typeof value === 'boolean' ? (value ? 'Yes' : 'No') : value;
+    }));
+  });
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
@@ -0,0 +1,45 @@
+// Shared metadata for the ServiceFeedback model's rating and service type fields
+
+export const ratingDimensions = [
+  { key: "easeOfOrdering", label: "Ease of Ordering" },
+  { key: "orderProcessingAccuracy", label: "Order Processing Accuracy" },
+  { key: "orderChannelKnowledge", label: "Order Channel Knowledge" },
+  { key: "serviceTimeliness", label: "Timeliness" },
+  { key: "orderAccuracy", label: "Order Fulfillment Accuracy" },
+  { key: "productQuality", label: "Product Quality" },
+  { key: "quantityAccuracy", label: "Quantity Accuracy" },
+  { key: "staffProfessionalism", label: "Staff Professionalism" },
+  { key: "responsiveness", label: "Responsiveness" },
+  { key: "overallSatisfaction", label: "Overall Satisfaction" },
+  { key: "priceCompetitiveness", label: "Price Competitiveness" },
+  { key: "stockAvailability", label: "Stock Availability" },
+  { key: "technicalInstruction", label: "Technical Instruction" },
+] as const;
+
+export type RatingDimension = (typeof ratingDimensions)[number]["key"];
+
+export const serviceTypeOptions = [
+  { value: "fuel-delivery", label: "Fuel Delivery" },
+  { value: "lubricant-supply", label: "Lubricant Supply" },
+  { value: "technical-support", label: "Technical Support" },
+  { value: "other", label: "Other" }
+];
+
+export function serviceTypeLabel(value: string): string {
+  return serviceTypeOptions.find(option => option.value === value)?.label || value;
+}
+
+// Standard NPS bands for the 0-10 likelihood-to-recommend question
+export type NpsCategory = "promoter" | "passive" | "detractor";
+
+export const npsCategoryLabels: Record<NpsCategory, string> = {
+  promoter: "Promoter",
+  passive: "Passive",
+  detractor: "Detractor",
+};
+
+export function npsCategory(score: number): NpsCategory {
+  if (score >= 9) return "promoter";
+  if (score >= 7) return "passive";
+  return "detractor";
+}
@@ -0,0 +1,93 @@
+import { Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { nextDay, toDateOnly } from '@/lib/dates';
+import { locales } from '@/lib/i18n';
+
+export const serviceFeedbackSortFields = [
+  'createdAt',
+  'serviceDate',
+  'overallSatisfaction',
+  'customerName',
+  'companyName',
+] as const;
+
+const isoDate = z.iso.date({ error: 'Date must be in YYYY-MM-DD format' });
+
+export const serviceFeedbackQuerySchema = z.object({
+  // Filters (mirror the admin sidebar)
+  search: z.string().trim().max(100).optional(),
+  serviceType: z.string().optional(),
+  followUp: z.enum(['true', 'false']).optional(),
+  overallSatisfaction: z.coerce.number().int().min(1).max(5).optional(),
+  locale: z.enum(locales).optional(),
+  dateFrom: isoDate.optional(),
+  dateTo: isoDate.optional(),
+
+  // Sorting
+  sortBy: z.enum(serviceFeedbackSortFields).default('createdAt'),
+  sortOrder: z.enum(['asc', 'desc']).default('desc'),
+
+  // Cursor pagination
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export type ServiceFeedbackQuery = z.infer<typeof serviceFeedbackQuerySchema>;
+
+// Parse URL search params, treating empty values as absent
+export function parseServiceFeedbackQuery(searchParams: URLSearchParams): ServiceFeedbackQuery {
+  const params = Object.fromEntries(
+    [...searchParams.entries()].filter(([, value]) => value !== '')
+  );
+
+  return serviceFeedbackQuerySchema.parse(params);
+}
+
+export function buildServiceFeedbackWhere(query: ServiceFeedbackQuery): Prisma.ServiceFeedbackWhereInput {
+  const where: Prisma.ServiceFeedbackWhereInput = {};
+
+  // Search filter (name, company, contact)
+  if (query.search) {
+    where.OR = [
+      { customerName: { contains: query.search, mode: 'insensitive' } },
+      { companyName: { contains: query.search, mode: 'insensitive' } },
+      { contactInfo: { contains: query.search, mode: 'insensitive' } },
+    ];
+  }
+
+  if (query.serviceType) {
+    where.serviceType = { has: query.serviceType };
+  }
+
+  if (query.followUp) {
+    where.followUpRequested = query.followUp === 'true';
+  }
+
+  if (query.overallSatisfaction) {
+    where.overallSatisfaction = query.overallSatisfaction;
+  }
+
+  if (query.locale) {
+    where.locale = query.locale;
+  }
+
+  // Date range filter on the service date, dateTo is inclusive
+  if (query.dateFrom || query.dateTo) {
+    where.serviceDate = {
+      ...(query.dateFrom && { gte: toDateOnly(query.dateFrom) }),
+      ...(query.dateTo && { lt: nextDay(query.dateTo) }),
+    };
+  }
+
+  return where;
+}
+
+export function buildServiceFeedbackOrderBy(
+  query: ServiceFeedbackQuery
+): Prisma.ServiceFeedbackOrderByWithRelationInput[] {
+  // The id tiebreaker keeps cursor pagination stable when sort values repeat
+  return [
+    { [query.sortBy]: query.sortOrder },
+    { id: query.sortOrder },
+  ];
+}
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkRateLimit, clientIp, rateLimitedResponse, type RateLimitRule } from '@/lib/rate-limit';
+import { detectSpamSignals, FILL_TIME_HEADER } from '@/lib/spam-signals';
+import { kioskFromRequest } from '@/lib/kiosk';
+
+// Far more than any public form sends; the service feedback form is a few kilobytes
+export const MAX_SUBMISSION_BYTES = 64 * 1024;
+
+// Generous, since a whole office or event can share one address
+const perIp: RateLimitRule = { limit: 30, windowMs: 10 * 60 * 1000 };
+// A staffed kiosk takes one visitor after another; about one submission every 5 seconds
+const perKiosk: RateLimitRule = { limit: 120, windowMs: 10 * 60 * 1000 };
+const perContact: RateLimitRule = { limit: 5, windowMs: 60 * 60 * 1000 };
+
+export class PayloadTooLargeError extends Error {}
+
+// Suspicious submissions are stored but held out of averages until a person reviews them
+export interface Moderation {
+  flagged: boolean;
+  flagReasons: string[];
+}
+
+export const notFlagged: Moderation = { flagged: false, flagReasons: [] };
+
+// Like request.text(), but stops reading as soon as the body passes
+// MAX_SUBMISSION_BYTES, so a chunked body without Content-Length is refused too
+export async function readBodyText(request: Request): Promise<string> {
+  if (Number(request.headers.get('content-length')) > MAX_SUBMISSION_BYTES) {
+    throw new PayloadTooLargeError();
+  }
+  if (!request.body) return '';
+
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > MAX_SUBMISSION_BYTES) {
+      // Not awaited: cancelling a clone's body only settles once the original is cancelled too
+      reader.cancel().catch(() => {});
+      throw new PayloadTooLargeError();
+    }
+    chunks.push(value);
+  }
+
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+// Like request.json(), but refuses bodies over MAX_SUBMISSION_BYTES
+export async function readJsonBody(request: NextRequest): ReturnType<NextRequest['json']> {
+  return JSON.parse(await readBodyText(request));
+}
+
+export function payloadTooLargeResponse() {
+  return NextResponse.json(
+    { error: `Request body must be at most ${MAX_SUBMISSION_BYTES / 1024} KB` },
+    { status: 413 }
+  );
+}
+
+// Who sent a request, for limits kept per client: the kiosk when there is one, else the IP
+export function clientKey(request: NextRequest): string {
+  const kiosk = kioskFromRequest(request);
+  return kiosk ? `kiosk:${kiosk.kioskId}` : `ip:${clientIp(request)}`;
+}
+
+// `scope` groups endpoints that share a limit, e.g. every feedback endpoint. Kiosks
+// started by staff are counted per device instead, so a busy stand isn't throttled.
+export async function limitByIp(request: NextRequest, scope: string) {
+  const kiosk = kioskFromRequest(request);
+  const retryAfter = kiosk
+    ? await checkRateLimit(`kiosk:${scope}:${kiosk.kioskId}`, perKiosk)
+    : await checkRateLimit(`ip:${scope}:${clientIp(request)}`, perIp);
+  return retryAfter === null ? null : rateLimitedResponse(retryAfter);
+}
+
+export async function limitByContact(scope: string, contacts: string[]) {
+  for (const contact of contacts) {
+    const retryAfter = await checkRateLimit(`contact:${scope}:${contact}`, perContact);
+    if (retryAfter !== null) return rateLimitedResponse(retryAfter);
+  }
+  return null;
+}
+
+export function moderationFor(request: NextRequest, body: unknown): Moderation {
+  const flagReasons = detectSpamSignals(body, request.headers.get(FILL_TIME_HEADER));
+  return { flagged: flagReasons.length > 0, flagReasons };
+}
@@ -0,0 +1,42 @@
+// Bot signals the public forms send along with a submission. Shared by the
+// forms and the API routes, so it must stay free of server-only imports.
+
+// Hidden from people by the forms; bots that fill in every input give themselves away.
+// Deliberately meaningless, so browsers have no saved detail to autofill into it.
+export const HONEYPOT_FIELD = "hp_k7q2";
+
+// Milliseconds between the form appearing and being submitted. Sent as a header
+// so it doesn't change the body, which idempotency keys are checked against.
+export const FILL_TIME_HEADER = "X-Form-Fill-Time";
+
+// Sent by forms on a kiosk started by staff, which is rate limited per device, see lib/kiosk.ts
+export const KIOSK_TOKEN_HEADER = "X-Kiosk-Token";
+
+// Nobody reads and answers one of our forms this quickly
+const MIN_FILL_TIME_MS = 3000;
+
+export type FlagReason = "honeypot" | "too-fast" | "manual";
+
+export const flagReasonLabels: Record<FlagReason, string> = {
+  honeypot: "Filled in a hidden field",
+  "too-fast": "Submitted too quickly",
+  manual: "Flagged by staff",
+};
+
+// Submissions that come without the signals (e.g. API clients) are not flagged
+export function detectSpamSignals(body: unknown, fillTime: string | null): FlagReason[] {
+  const reasons: FlagReason[] = [];
+
+  const honeypot =
+    typeof body === "object" && body !== null ? (body as Record<string, unknown>)[HONEYPOT_FIELD] : undefined;
+  if (typeof honeypot === "string" ? honeypot.trim() !== "" : honeypot != null) {
+    reasons.push("honeypot");
+  }
+
+  const milliseconds = fillTime === null ? NaN : Number(fillTime);
+  if (Number.isFinite(milliseconds) && milliseconds < MIN_FILL_TIME_MS) {
+    reasons.push("too-fast");
+  }
+
+  return reasons;
+}
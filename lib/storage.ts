@@ -0,0 +1,61 @@
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import path from 'path';
+
+/**
+ * Where uploaded files are kept. Keys are generated by the server (see
+ * lib/attachments.ts) and may contain "/" to group files into folders.
+ */
+export interface StorageAdapter {
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer | null>; // null when nothing is stored under the key
+  delete(key: string): Promise<void>;
+}
+
+// Default adapter: one file per key below a directory on the server's disk
+export class LocalDiskStorage implements StorageAdapter {
+  private readonly root: string;
+
+  constructor(directory: string) {
+    this.root = path.resolve(directory);
+  }
+
+  // Refuses keys that would resolve outside the storage directory
+  private pathFor(key: string): string {
+    const file = path.resolve(this.root, key);
+    if (!file.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return file;
+  }
+
+  async put(key: string, data: Buffer) {
+    const file = this.pathFor(key);
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, data);
+  }
+
+  async get(key: string) {
+    try {
+      return await readFile(this.pathFor(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string) {
+    await rm(this.pathFor(key), { force: true });
+  }
+}
+
+let adapter: StorageAdapter | null = null;
+
+// Swap the adapter, e.g. for S3 or another object store shared by several servers
+export function setStorageAdapter(next: StorageAdapter) {
+  adapter = next;
+}
+
+export function getStorage(): StorageAdapter {
+  adapter ??= new LocalDiskStorage(process.env.UPLOAD_DIR || '.uploads');
+  return adapter;
+}
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildSurveyAnswersSchema,
+  compactAnswers,
+  surveyDefinitionSchema,
+  type SurveyDefinition,
+} from '@/lib/survey-definition';
+
+const definition: SurveyDefinition = surveyDefinitionSchema.parse({
+  sections: [
+    {
+      id: 'visit',
+      title: 'Your visit',
+      questions: [
+        { id: 'rating', label: 'How was it?', type: 'RATING', required: true },
+        { id: 'comments', label: 'Anything else?', type: 'TEXT', maxLength: 10 },
+      ],
+    },
+    {
+      id: 'more',
+      title: 'More',
+      questions: [
+        {
+          id: 'channels',
+          label: 'How did you order?',
+          type: 'MULTI_SELECT',
+          required: true,
+          options: [
+            { value: 'phone', label: 'Phone' },
+            { value: 'web', label: 'Website' },
+          ],
+        },
+        { id: 'again', label: 'Would you come again?', type: 'YES_NO' },
+      ],
+    },
+  ],
+});
+
+const answersSchema = buildSurveyAnswersSchema(definition);
+
+describe('buildSurveyAnswersSchema', () => {
+  it('accepts a complete response', () => {
+    const answers = { rating: 4, comments: 'Great', channels: ['phone', 'web'], again: true };
+
+    expect(answersSchema.parse(answers)).toEqual(answers);
+  });
+
+  it('lets optional questions go unanswered', () => {
+    expect(answersSchema.safeParse({ rating: 5, channels: ['web'] }).success).toBe(true);
+  });
+
+  it('requires required questions', () => {
+    const result = answersSchema.safeParse({ channels: ['web'] });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0]).toMatchObject({ path: ['rating'], message: 'This question is required' });
+  });
+
+  it('needs at least one option on a required multi-select', () => {
+    expect(answersSchema.safeParse({ rating: 5, channels: [] }).success).toBe(false);
+  });
+
+  it('rejects ratings outside 1 to 5 and fractions', () => {
+    for (const rating of [0, 6, 3.5, '4']) {
+      expect(answersSchema.safeParse({ rating, channels: ['web'] }).success).toBe(false);
+    }
+  });
+
+  it('rejects options the question does not offer', () => {
+    expect(answersSchema.safeParse({ rating: 5, channels: ['fax'] }).success).toBe(false);
+  });
+
+  it('enforces the text length limit after trimming', () => {
+    expect(answersSchema.safeParse({ rating: 5, channels: ['web'], comments: '  0123456789  ' }).success).toBe(true);
+    expect(answersSchema.safeParse({ rating: 5, channels: ['web'], comments: '0123456789x' }).success).toBe(false);
+  });
+
+  it('rejects answers to questions the version does not have', () => {
+    expect(answersSchema.safeParse({ rating: 5, channels: ['web'], extra: 'x' }).success).toBe(false);
+  });
+});
+
+describe('surveyDefinitionSchema', () => {
+  it('rejects a question id used in two sections', () => {
+    const result = surveyDefinitionSchema.safeParse({
+      sections: [
+        { id: 'a', title: 'A', questions: [{ id: 'q', label: 'Q', type: 'YES_NO' }] },
+        { id: 'b', title: 'B', questions: [{ id: 'q', label: 'Q again', type: 'RATING' }] },
+      ],
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0].path).toEqual(['sections', 1, 'questions', 0, 'id']);
+  });
+});
+
+describe('compactAnswers', () => {
+  it('drops empty answers but keeps false and zero-like values', () => {
+    expect(compactAnswers({ a: '', b: [], c: undefined, d: false, e: 1, f: ['web'] })).toEqual({
+      d: false,
+      e: 1,
+      f: ['web'],
+    });
+  });
+});
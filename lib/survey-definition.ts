@@ -0,0 +1,147 @@
+/**
+ * Survey definitions: the sections and questions a survey version renders,
+ * and the answer validation derived from them. Only depends on zod so the
+ * form renderer and the admin builder can share it with the API routes.
+ */
+import { z } from 'zod';
+
+export const questionTypes = ['RATING', 'TEXT', 'MULTI_SELECT', 'YES_NO'] as const;
+export type QuestionType = (typeof questionTypes)[number];
+
+export const questionTypeLabels: Record<QuestionType, string> = {
+  RATING: 'Rating (1-5)',
+  TEXT: 'Text',
+  MULTI_SELECT: 'Multi-select',
+  YES_NO: 'Yes / No',
+};
+
+const identifier = z
+  .string()
+  .regex(/^[a-z][a-z0-9_-]*$/, 'Use lowercase letters, numbers, dashes or underscores');
+
+const questionBase = {
+  id: identifier,
+  label: z.string().trim().min(1, 'Every question needs a label').max(300),
+  description: z.string().max(500).optional(),
+  required: z.boolean().default(false),
+};
+
+export const surveyQuestionSchema = z.discriminatedUnion('type', [
+  z.object({ ...questionBase, type: z.literal('RATING') }),
+  z.object({
+    ...questionBase,
+    type: z.literal('TEXT'),
+    multiline: z.boolean().default(false),
+    maxLength: z.number().int().min(1).max(5000).default(1000),
+  }),
+  z.object({
+    ...questionBase,
+    type: z.literal('MULTI_SELECT'),
+    options: z
+      .array(z.object({ value: identifier, label: z.string().trim().min(1).max(200) }))
+      .min(1, 'Multi-select questions need at least one option'),
+  }),
+  z.object({ ...questionBase, type: z.literal('YES_NO') }),
+]);
+
+export const surveySectionSchema = z.object({
+  id: identifier,
+  title: z.string().trim().min(1, 'Every section needs a title').max(200),
+  description: z.string().max(500).optional(),
+  questions: z.array(surveyQuestionSchema).min(1, 'Every section needs at least one question'),
+});
+
+export const surveyDefinitionSchema = z
+  .object({
+    sections: z.array(surveySectionSchema).min(1, 'A survey needs at least one section'),
+  })
+  .superRefine((definition, ctx) => {
+    // Answers are keyed by question id, so ids must be unique across sections
+    const seen = new Set<string>();
+    definition.sections.forEach((section, sectionIndex) => {
+      section.questions.forEach((question, questionIndex) => {
+        if (seen.has(question.id)) {
+          ctx.addIssue({
+            code: 'custom',
+            path: ['sections', sectionIndex, 'questions', questionIndex, 'id'],
+            message: `Question id "${question.id}" is used more than once`,
+          });
+        }
+        seen.add(question.id);
+      });
+    });
+  });
+
+export type SurveyQuestion = z.infer<typeof surveyQuestionSchema>;
+export type SurveySection = z.infer<typeof surveySectionSchema>;
+export type SurveyDefinition = z.infer<typeof surveyDefinitionSchema>;
+export type SurveyAnswerValue = number | string | string[] | boolean;
+export type SurveyAnswers = Record<string, SurveyAnswerValue>;
+
+export const surveyCreateSchema = z.object({
+  slug: identifier.max(100),
+  title: z.string().trim().min(1, 'Title is required').max(200),
+  description: z.string().max(1000).optional(),
+  definition: surveyDefinitionSchema,
+});
+
+export const surveyUpdateSchema = z.object({
+  title: z.string().trim().min(1).max(200).optional(),
+  description: z.string().max(1000).nullable().optional(),
+  isActive: z.boolean().optional(),
+});
+
+export const surveyVersionCreateSchema = z.object({
+  definition: surveyDefinitionSchema,
+});
+
+const REQUIRED_MESSAGE = 'This question is required';
+
+function answerSchema(question: SurveyQuestion) {
+  switch (question.type) {
+    case 'RATING': {
+      const rating = z.number({ error: REQUIRED_MESSAGE }).int().min(1).max(5);
+      return question.required ? rating : rating.optional();
+    }
+    case 'TEXT': {
+      const text = z.string().trim().max(question.maxLength);
+      return question.required ? text.min(1, REQUIRED_MESSAGE) : text.optional();
+    }
+    case 'MULTI_SELECT': {
+      const values = z.array(z.enum(question.options.map(option => option.value) as [string, ...string[]]));
+      return question.required ? values.min(1, 'Select at least one option') : values.optional();
+    }
+    case 'YES_NO': {
+      const answer = z.boolean({ error: REQUIRED_MESSAGE });
+      return question.required ? answer : answer.optional();
+    }
+  }
+}
+
+/**
+ * Builds the validator for a response to one survey version. Unknown question
+ * ids are rejected so answers always line up with the version they were given to.
+ */
+export function buildSurveyAnswersSchema(definition: SurveyDefinition) {
+  const shape: Record<string, z.ZodType> = {};
+  for (const section of definition.sections) {
+    for (const question of section.questions) {
+      shape[question.id] = answerSchema(question);
+    }
+  }
+  return z.strictObject(shape);
+}
+
+export const surveyResponseSubmissionSchema = z.object({
+  surveyVersionId: z.string().min(1),
+  answers: z.record(z.string(), z.unknown()),
+});
+
+// Drops unanswered optional questions so stored responses only hold real answers
+export function compactAnswers(answers: Record<string, unknown>): SurveyAnswers {
+  return Object.fromEntries(
+    Object.entries(answers).filter(
+      ([, value]) => value !== undefined && value !== '' && !(Array.isArray(value) && value.length === 0)
+    )
+  ) as SurveyAnswers;
+}
@@ -0,0 +1,47 @@
+import { Prisma } from '@prisma/client';
+import { surveyDefinitionSchema } from '@/lib/survey-definition';
+
+// Latest version first: the form always renders the highest version number
+export const latestVersionInclude = {
+  versions: {
+    orderBy: { version: 'desc' },
+    take: 1,
+  },
+} satisfies Prisma.SurveyInclude;
+
+export const surveyListInclude = {
+  versions: {
+    orderBy: { version: 'desc' },
+    select: {
+      id: true,
+      version: true,
+      createdBy: true,
+      createdAt: true,
+      _count: { select: { responses: true } },
+    },
+  },
+} satisfies Prisma.SurveyInclude;
+
+type SurveyWithLatestVersion = Prisma.SurveyGetPayload<{ include: typeof latestVersionInclude }>;
+
+// Shape handed to the form renderer; the definition is re-parsed to apply defaults
+export function toPublishedSurvey(survey: SurveyWithLatestVersion) {
+  const [version] = survey.versions;
+  if (!version) return null;
+
+  return {
+    id: survey.id,
+    slug: survey.slug,
+    title: survey.title,
+    description: survey.description,
+    isActive: survey.isActive,
+    version: {
+      id: version.id,
+      version: version.version,
+      definition: surveyDefinitionSchema.parse(version.definition),
+      createdAt: version.createdAt,
+    },
+  };
+}
+
+export type PublishedSurvey = NonNullable<ReturnType<typeof toPublishedSurvey>>;
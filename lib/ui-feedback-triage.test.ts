@@ -0,0 +1,97 @@
+import type { Prisma, UIFeedback } from '@prisma/client';
+import { describe, expect, it } from 'vitest';
+import { buildTriageUpdate, TriageError } from '@/lib/ui-feedback-triage';
+
+function feedback(id: string, overrides: Partial<UIFeedback> = {}): UIFeedback {
+  return {
+    id,
+    status: 'OPEN',
+    duplicateOfId: null,
+    resolvedAt: null,
+    assignedTo: null,
+    resolution: null,
+    ...overrides,
+  } as UIFeedback;
+}
+
+// Just enough of a transaction client for following duplicate chains
+function txWith(...items: UIFeedback[]) {
+  const byId = new Map(items.map(item => [item.id, item]));
+  return {
+    uIFeedback: {
+      findUnique: async ({ where }: { where: { id: string } }) => byId.get(where.id) ?? null,
+    },
+  } as unknown as Prisma.TransactionClient;
+}
+
+describe('buildTriageUpdate', () => {
+  it('links a duplicate to the root of the chain it points into', async () => {
+    const tx = txWith(feedback('a'), feedback('b', { status: 'DUPLICATE', duplicateOfId: 'a' }));
+
+    const data = await buildTriageUpdate(tx, feedback('c'), { status: 'DUPLICATE', duplicateOfId: 'b' });
+
+    expect(data.duplicateOfId).toBe('a');
+  });
+
+  it('refuses to mark an item a duplicate of itself', async () => {
+    const item = feedback('a');
+
+    await expect(buildTriageUpdate(txWith(item), item, { status: 'DUPLICATE', duplicateOfId: 'a' })).rejects.toThrow(
+      TriageError
+    );
+  });
+
+  it('refuses a link that would close a cycle through other duplicates', async () => {
+    const item = feedback('a');
+    const tx = txWith(
+      item,
+      feedback('b', { status: 'DUPLICATE', duplicateOfId: 'c' }),
+      feedback('c', { status: 'DUPLICATE', duplicateOfId: 'a' })
+    );
+
+    await expect(buildTriageUpdate(tx, item, { status: 'DUPLICATE', duplicateOfId: 'b' })).rejects.toThrow(
+      'Feedback cannot be a duplicate of itself'
+    );
+  });
+
+  it('gives up on a chain that already loops instead of following it forever', async () => {
+    const tx = txWith(
+      feedback('b', { status: 'DUPLICATE', duplicateOfId: 'c' }),
+      feedback('c', { status: 'DUPLICATE', duplicateOfId: 'b' })
+    );
+
+    await expect(buildTriageUpdate(tx, feedback('a'), { status: 'DUPLICATE', duplicateOfId: 'b' })).rejects.toThrow(
+      TriageError
+    );
+  });
+
+  it('rejects an original that does not exist', async () => {
+    await expect(
+      buildTriageUpdate(txWith(), feedback('a'), { status: 'DUPLICATE', duplicateOfId: 'missing' })
+    ).rejects.toThrow('Original feedback not found');
+  });
+
+  it('clears the link when the item moves out of DUPLICATE', async () => {
+    const item = feedback('a', { status: 'DUPLICATE', duplicateOfId: 'b' });
+
+    const data = await buildTriageUpdate(txWith(), item, { status: 'IN_PROGRESS' });
+
+    expect(data.duplicateOfId).toBeNull();
+  });
+
+  it('stamps resolvedAt when resolving and keeps it when moving between done statuses', async () => {
+    const resolvedAt = new Date('2026-01-05T10:00:00Z');
+
+    const resolving = await buildTriageUpdate(txWith(), feedback('a'), { status: 'RESOLVED' });
+    const closing = await buildTriageUpdate(txWith(), feedback('a', { status: 'RESOLVED', resolvedAt }), {
+      status: 'CLOSED',
+    });
+    const reopening = await buildTriageUpdate(txWith(), feedback('a', { status: 'CLOSED', resolvedAt }), {
+      status: 'OPEN',
+    });
+
+    expect(resolving.resolvedAt).toBeInstanceOf(Date);
+    expect(closing.resolvedAt).toBe(resolvedAt);
+    expect(reopening.resolvedAt).toBeNull();
+  });
+});
@@ -0,0 +1,103 @@
+import { FeedbackStatus, Prisma, type UIFeedback } from '@prisma/client';
+import { attachmentSelect } from '@/lib/attachments';
+import { z } from 'zod';
+
+// Statuses that count as done and carry a resolvedAt timestamp
+const resolvedStatuses: FeedbackStatus[] = ['RESOLVED', 'CLOSED'];
+
+export const triageUpdateSchema = z.object({
+  status: z.enum(FeedbackStatus).optional(),
+  assignedTo: z.string().trim().max(100).nullable().optional(),
+  resolution: z.string().trim().max(2000).nullable().optional(),
+  duplicateOfId: z.string().nullable().optional(),
+}).refine(update => update.status !== 'DUPLICATE' || !!update.duplicateOfId, {
+  message: 'Select the original feedback this duplicates',
+  path: ['duplicateOfId'],
+});
+
+export type TriageUpdate = z.infer<typeof triageUpdateSchema>;
+
+export class TriageError extends Error {}
+
+// Board list payload: everything the triage cards show, without response bodies
+export const triageListSelect = {
+  id: true,
+  title: true,
+  description: true,
+  feedbackType: true,
+  severity: true,
+  priority: true,
+  status: true,
+  assignedTo: true,
+  resolution: true,
+  resolvedAt: true,
+  duplicateOfId: true,
+  userName: true,
+  userEmail: true,
+  pageUrl: true,
+  componentName: true,
+  createdAt: true,
+  updatedAt: true,
+  duplicateOf: { select: { id: true, title: true } },
+  attachments: { select: attachmentSelect },
+  _count: { select: { duplicates: true, responses: true, votes: true } },
+} satisfies Prisma.UIFeedbackSelect;
+
+/**
+ * Build the update for a triage change. Moving into RESOLVED or CLOSED stamps
+ * resolvedAt, moving back out clears it, and only DUPLICATE keeps a link to an
+ * original item (which must exist and is followed to the root of its chain).
+ */
+export async function buildTriageUpdate(
+  tx: Prisma.TransactionClient,
+  existing: UIFeedback,
+  update: TriageUpdate
+): Promise<Prisma.UIFeedbackUncheckedUpdateInput> {
+  const data: Prisma.UIFeedbackUncheckedUpdateInput = {};
+
+  if (update.assignedTo !== undefined) {
+    data.assignedTo = update.assignedTo || null;
+  }
+
+  if (update.resolution !== undefined) {
+    data.resolution = update.resolution || null;
+  }
+
+  const status = update.status ?? existing.status;
+  if (update.status) {
+    data.status = update.status;
+
+    if (resolvedStatuses.includes(status)) {
+      data.resolvedAt = resolvedStatuses.includes(existing.status) ? existing.resolvedAt : new Date();
+    } else {
+      data.resolvedAt = null;
+    }
+  }
+
+  if (status === 'DUPLICATE') {
+    const originalId = update.duplicateOfId ?? existing.duplicateOfId;
+    if (!originalId) {
+      throw new TriageError('Select the original feedback this duplicates');
+    }
+
+    let original = await tx.uIFeedback.findUnique({ where: { id: originalId } });
+    const seen = new Set([existing.id]);
+    while (original?.duplicateOfId && !seen.has(original.id)) {
+      seen.add(original.id);
+      original = await tx.uIFeedback.findUnique({ where: { id: original.duplicateOfId } });
+    }
+
+    if (!original) {
+      throw new TriageError('Original feedback not found');
+    }
+    if (seen.has(original.id)) {
+      throw new TriageError('Feedback cannot be a duplicate of itself');
+    }
+
+    data.duplicateOfId = original.id;
+  } else if (update.status) {
+    data.duplicateOfId = null;
+  }
+
+  return data;
+}
@@ -0,0 +1,26 @@
+import { createHmac } from 'crypto';
+import { describe, expect, it } from 'vitest';
+import { nextRetryAt, signWebhookPayload } from '@/lib/webhooks';
+
+const now = new Date('2026-03-04T12:00:00Z');
+const minutesLater = (retryAt: Date | null) => (retryAt ? (retryAt.getTime() - now.getTime()) / 60000 : null);
+
+describe('nextRetryAt', () => {
+  it('backs off after each failed attempt', () => {
+    expect([1, 2, 3, 4, 5].map(attempts => minutesLater(nextRetryAt(attempts, now)))).toEqual([1, 5, 30, 120, 720]);
+  });
+
+  it('gives up after the sixth failed attempt', () => {
+    expect(nextRetryAt(6, now)).toBeNull();
+    expect(nextRetryAt(7, now)).toBeNull();
+  });
+});
+
+describe('signWebhookPayload', () => {
+  it('signs the timestamp and body the way receivers recompute it', () => {
+    const body = '{"id":"d1"}';
+    const expected = createHmac('sha256', 'whsec_test').update(`1700000000.${body}`).digest('hex');
+
+    expect(signWebhookPayload('whsec_test', 1700000000, body)).toBe(`sha256=${expected}`);
+  });
+});
@@ -0,0 +1,200 @@
+import { createHmac, randomBytes } from 'crypto';
+import type { Prisma, WebhookDelivery, WebhookEndpoint } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { withRetry } from '@/lib/retry';
+import { z } from 'zod';
+
+export const webhookEventTypes = [
+  'service_feedback.created',
+  'ui_feedback.created',
+  'registration.created',
+  'ui_feedback.status_changed',
+  'follow_up.status_changed',
+] as const;
+
+export type WebhookEventType = (typeof webhookEventTypes)[number];
+
+export const webhookEndpointSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  url: z.url({ protocol: /^https?$/ }).max(2000),
+  eventTypes: z.array(z.enum(webhookEventTypes)).default([]),
+  isActive: z.boolean().default(true),
+});
+
+type DeliveryWithEndpoint = WebhookDelivery & { endpoint: WebhookEndpoint };
+
+// Minutes to wait after each failed attempt; one more failure after the last marks the delivery FAILED
+const RETRY_DELAYS_MINUTES = [1, 5, 30, 120, 720];
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+// How long a claimed delivery is hidden from other workers; longer than any attempt takes
+const CLAIM_MS = 2 * 60 * 1000;
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('base64url')}`;
+}
+
+// Receivers recompute this over the raw body to check the X-Webhook-Signature header
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+// When to try again after the given number of failed attempts, or null once they are used up
+export function nextRetryAt(failedAttempts: number, now: Date): Date | null {
+  if (failedAttempts > RETRY_DELAYS_MINUTES.length) return null;
+  return new Date(now.getTime() + RETRY_DELAYS_MINUTES[failedAttempts - 1] * 60 * 1000);
+}
+
+// Takes the delivery for this worker; false when another one got there first
+async function claim(delivery: WebhookDelivery): Promise<boolean> {
+  const { count } = await withRetry(() =>
+    prisma.webhookDelivery.updateMany({
+      where: { id: delivery.id, status: 'PENDING', nextAttemptAt: delivery.nextAttemptAt },
+      data: { nextAttemptAt: new Date(Date.now() + CLAIM_MS) },
+    })
+  );
+  return count === 1;
+}
+
+async function attempt(delivery: DeliveryWithEndpoint): Promise<WebhookDelivery> {
+  // The delivery id doubles as the event id, so receivers can drop repeats
+  const body = JSON.stringify({
+    id: delivery.id,
+    type: delivery.eventType,
+    createdAt: delivery.createdAt,
+    data: delivery.payload,
+  });
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  let statusCode: number | null = null;
+  let error: string | null = null;
+
+  try {
+    const response = await fetch(delivery.endpoint.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'feedback-webhooks/1',
+        'X-Webhook-Id': delivery.id,
+        'X-Webhook-Event': delivery.eventType,
+        'X-Webhook-Timestamp': String(timestamp),
+        'X-Webhook-Signature': signWebhookPayload(delivery.endpoint.secret, timestamp, body),
+      },
+      body,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    statusCode = response.status;
+    const text = await response.text();
+    if (!response.ok) {
+      error = `HTTP ${response.status}${text ? `: ${text.slice(0, 500)}` : ''}`;
+    }
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+  }
+
+  const attempts = delivery.attempts + 1;
+  const now = new Date();
+  const retryAt = error === null ? null : nextRetryAt(attempts, now);
+  const outcome: Prisma.WebhookDeliveryUpdateInput =
+    error === null
+      ? { status: 'SUCCEEDED', deliveredAt: now, nextAttemptAt: null }
+      : retryAt
+        ? { status: 'PENDING', nextAttemptAt: retryAt }
+        : { status: 'FAILED', nextAttemptAt: null };
+
+  return withRetry(() =>
+    prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: { ...outcome, attempts, lastAttemptAt: now, lastStatusCode: statusCode, lastError: error },
+    })
+  );
+}
+
+async function claimAndAttempt(delivery: DeliveryWithEndpoint) {
+  if (!(await claim(delivery))) return;
+  try {
+    await attempt(delivery);
+  } catch (error) {
+    console.error(`Webhook delivery ${delivery.id} failed:`, error);
+  }
+}
+
+/**
+ * Sends deliveries whose retry time has come. Runs after every new event and
+ * from POST /api/webhook-deliveries/retry, which a scheduler can call so
+ * retries also go out while no submissions arrive.
+ */
+export async function retryDueDeliveries(limit = 20): Promise<number> {
+  const due = await withRetry(() =>
+    prisma.webhookDelivery.findMany({
+      where: { status: 'PENDING', nextAttemptAt: { lte: new Date() }, endpoint: { isActive: true } },
+      include: { endpoint: true },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: limit,
+    })
+  );
+
+  for (const delivery of due) {
+    await claimAndAttempt(delivery);
+  }
+  return due.length;
+}
+
+/**
+ * Queues the event for every active endpoint subscribed to it and makes the
+ * first attempt straight away. Meant to run after the response (see `after`
+ * in the route handlers), so it never fails the request: problems are logged
+ * and the delivery log keeps what still has to go out. Submissions held as
+ * spam are not sent.
+ */
+export async function emitWebhookEvent(type: WebhookEventType, data: object) {
+  if (type.endsWith('.created') && (data as { flagged?: boolean }).flagged) return;
+
+  try {
+    const endpoints = await withRetry(() =>
+      prisma.webhookEndpoint.findMany({
+        where: {
+          isActive: true,
+          OR: [{ eventTypes: { isEmpty: true } }, { eventTypes: { has: type } }],
+        },
+      })
+    );
+
+    if (endpoints.length > 0) {
+      // Dates become ISO strings here, exactly as they will be sent
+      const payload = JSON.parse(JSON.stringify(data)) as Prisma.InputJsonValue;
+      const deliveries = await withRetry(() =>
+        prisma.$transaction(
+          endpoints.map(endpoint =>
+            prisma.webhookDelivery.create({
+              data: { endpointId: endpoint.id, eventType: type, payload },
+              include: { endpoint: true },
+            })
+          )
+        )
+      );
+      await Promise.all(deliveries.map(claimAndAttempt));
+    }
+
+    await retryDueDeliveries();
+  } catch (error) {
+    console.error(`Error sending ${type} webhooks:`, error);
+  }
+}
+
+// One more attempt for a delivery that ran out of retries, made right away.
+// Null when the delivery isn't FAILED, e.g. because a replay is already running.
+export async function replayDelivery(id: string): Promise<WebhookDelivery | null> {
+  const { count } = await withRetry(() =>
+    prisma.webhookDelivery.updateMany({
+      where: { id, status: 'FAILED' },
+      data: { status: 'PENDING', nextAttemptAt: new Date(Date.now() + CLAIM_MS) },
+    })
+  );
+  if (count === 0) return null;
+
+  const delivery = await withRetry(() =>
+    prisma.webhookDelivery.findUniqueOrThrow({ where: { id }, include: { endpoint: true } })
+  );
+  return attempt(delivery);
+}
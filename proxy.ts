@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SESSION_COOKIE, verifySessionToken } from '@/lib/auth';
+
+// Admin pages require a signed-in user; API routes check the account and role themselves
+export function proxy(request: NextRequest) {
+  if (verifySessionToken(request.cookies.get(SESSION_COOKIE)?.value)) {
+    return NextResponse.next();
+  }
+
+  const loginUrl = new URL('/login', request.url);
+  loginUrl.searchParams.set('from', request.nextUrl.pathname);
+  return NextResponse.redirect(loginUrl);
+}
+
+export const config = {
+  matcher: ['/admin/:path*'],
+};
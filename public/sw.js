@@ -0,0 +1,84 @@
+// Keeps the service feedback form loadable without a connection. Submissions
+// made offline are queued by the page itself (lib/offline-queue.ts), not here.
+
+const CACHE_NAME = "feedback-offline-v2";
+const OFFLINE_PAGES = ["/"];
+
+// Build assets named in a page: script and stylesheet tags, and the chunk list
+// in the inline router payload, which leaves off the "/_next/" prefix
+const ASSET_PATTERN = /(?:\/_next\/)?static\/(?:chunks|css|media)\/[^"'\s\\)]+/g;
+
+function assetsIn(html) {
+  const paths = (html.match(ASSET_PATTERN) || []).map((path) => (path.startsWith("/") ? path : `/_next/${path}`));
+  return [...new Set(paths)];
+}
+
+// Caches the form pages together with the assets they load. Without the
+// assets, an offline reload after a single visit would show a page that never
+// hydrates, and the offline queue would never run.
+async function precache() {
+  const cache = await caches.open(CACHE_NAME);
+
+  for (const page of OFFLINE_PAGES) {
+    const response = await fetch(page);
+    if (!response.ok) throw new Error(`Could not cache ${page}: ${response.status}`);
+    const html = await response.clone().text();
+    await cache.put(page, response);
+    // One missing asset shouldn't keep the worker from installing
+    await Promise.allSettled(assetsIn(html).map((asset) => cache.add(asset)));
+  }
+}
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(precache().then(() => self.skipWaiting()));
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((names) => Promise.all(names.filter((name) => name !== CACHE_NAME).map((name) => caches.delete(name))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  // The form page: always try the network so it stays current, fall back to the copy we have
+  if (request.mode === "navigate" && OFFLINE_PAGES.includes(url.pathname)) {
+    event.respondWith(
+      fetch(request)
+        .then((response) => {
+          if (response.ok) {
+            const copy = response.clone();
+            caches.open(CACHE_NAME).then((cache) => cache.put(request, copy));
+          }
+          return response;
+        })
+        .catch(() => caches.match(request).then((cached) => cached || caches.match("/")))
+    );
+    return;
+  }
+
+  // Build assets are content-hashed, so a cached copy never goes stale
+  if (url.pathname.startsWith("/_next/static/")) {
+    event.respondWith(
+      caches.match(request).then(
+        (cached) =>
+          cached ||
+          fetch(request).then((response) => {
+            if (response.ok) {
+              const copy = response.clone();
+              caches.open(CACHE_NAME).then((cache) => cache.put(request, copy));
+            }
+            return response;
+          })
+      )
+    );
+  }
+});
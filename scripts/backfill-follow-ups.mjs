@@ -0,0 +1,33 @@
+// Open a follow-up case for every existing submission that requested one.
+// Usage: node scripts/backfill-follow-ups.mjs
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+// Keep in sync with FOLLOW_UP_DUE_DAYS in lib/follow-ups.ts
+const FOLLOW_UP_DUE_DAYS = 2;
+
+async function main() {
+  try {
+    const pending = await prisma.serviceFeedback.findMany({
+      where: { followUpRequested: true, followUpCase: null },
+      select: { id: true, createdAt: true },
+    });
+
+    const { count } = await prisma.followUpCase.createMany({
+      data: pending.map((feedback) => ({
+        serviceFeedbackId: feedback.id,
+        dueDate: new Date(feedback.createdAt.getTime() + FOLLOW_UP_DUE_DAYS * 24 * 60 * 60 * 1000),
+      })),
+      skipDuplicates: true,
+    });
+
+    console.log(`✅ Created ${count} follow-up cases`);
+  } catch (error) {
+    console.error('❌ Database error:', error);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main();
@@ -0,0 +1,44 @@
+// Create or update a staff account in the local credentials store.
+// Usage: node scripts/create-user.mjs <email> <password> [ADMIN|ANALYST|VIEWER] [name]
+import { randomBytes, scryptSync } from 'crypto';
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+const roles = ['ADMIN', 'ANALYST', 'VIEWER'];
+
+// Same "scrypt:<salt>:<hash>" format as hashPassword in lib/auth.ts
+function hashPassword(password) {
+  const salt = randomBytes(16).toString('hex');
+  const hash = scryptSync(password, salt, 64).toString('hex');
+  return `scrypt:${salt}:${hash}`;
+}
+
+async function main() {
+  const [email, password, role = 'VIEWER', name] = process.argv.slice(2);
+
+  if (!email || !password || !roles.includes(role)) {
+    console.error('Usage: node scripts/create-user.mjs <email> <password> [ADMIN|ANALYST|VIEWER] [name]');
+    process.exit(1);
+  }
+
+  if (password.length < 8) {
+    console.error('❌ Password must be at least 8 characters');
+    process.exit(1);
+  }
+
+  try {
+    const user = await prisma.user.upsert({
+      where: { email: email.toLowerCase() },
+      update: { passwordHash: hashPassword(password), role, name, isActive: true },
+      create: { email: email.toLowerCase(), passwordHash: hashPassword(password), role, name },
+    });
+
+    console.log(`✅ ${user.role} account ready for ${user.email}`);
+  } catch (error) {
+    console.error('❌ Database error:', error);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main();
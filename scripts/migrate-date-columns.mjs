@@ -0,0 +1,139 @@
+// Convert Registration.followUpDate and ServiceFeedback.serviceDate from text to
+// date columns, parsing the existing values. Run this BEFORE `prisma db push`,
+// otherwise db push drops the text columns and their data.
+//
+// Usage:
+//   node scripts/migrate-date-columns.mjs           # dry run: report only
+//   node scripts/migrate-date-columns.mjs --apply   # convert the columns
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+const apply = process.argv.includes('--apply');
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+function toIsoDate(year, month, day) {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  // Reject dates that roll over, e.g. 2024-02-30
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+// Returns { date, note } where date is 'YYYY-MM-DD' or null when unparsable
+function parseDate(raw) {
+  const value = raw.trim();
+  let match;
+
+  // 2024-03-05, 2024/3/5 or a full ISO timestamp
+  if ((match = value.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:[T\s].*)?$/))) {
+    return { date: toIsoDate(+match[1], +match[2], +match[3]) };
+  }
+
+  // 05/03/2024: day first unless that is impossible
+  if ((match = value.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})$/))) {
+    const [first, second, year] = [+match[1], +match[2], +match[3]];
+    if (first > 12) return { date: toIsoDate(year, second, first) };
+    if (second > 12) return { date: toIsoDate(year, first, second), note: 'read as month/day/year' };
+    return { date: toIsoDate(year, second, first), note: first === second ? undefined : 'ambiguous, read as day/month/year' };
+  }
+
+  // 5 March 2024, March 5, 2024, Mar 5 2024
+  if ((match = value.match(/^(\d{1,2})\s+([a-z]+)\.?,?\s+(\d{4})$/i) ?? value.match(/^([a-z]+)\.?\s+(\d{1,2}),?\s+(\d{4})$/i))) {
+    const [day, name] = /^\d/.test(match[1]) ? [+match[1], match[2]] : [+match[2], match[1]];
+    const month = MONTHS.indexOf(name.slice(0, 3).toLowerCase()) + 1;
+    if (month > 0) return { date: toIsoDate(+match[3], month, day) };
+  }
+
+  return { date: null };
+}
+
+async function columnType(table, column) {
+  const [row] = await prisma.$queryRawUnsafe(
+    'SELECT data_type FROM information_schema.columns WHERE table_name = $1 AND column_name = $2',
+    table,
+    column
+  );
+  return row?.data_type;
+}
+
+// fallback: SQL expression used when a value can't be parsed, or null to clear it
+async function migrateColumn({ table, column, fallback }) {
+  const label = `${table}.${column}`;
+  const type = await columnType(table, column);
+
+  if (type === 'date') {
+    console.log(`✅ ${label} is already a date column`);
+    return;
+  }
+  if (!type) {
+    console.log(`❌ ${label} not found`);
+    return;
+  }
+
+  const rows = await prisma.$queryRawUnsafe(
+    `SELECT id, "${column}" AS value FROM "${table}" WHERE "${column}" IS NOT NULL AND trim("${column}") <> ''`
+  );
+
+  const parsed = [];
+  const unparsable = [];
+  const notes = [];
+  for (const row of rows) {
+    const { date, note } = parseDate(row.value);
+    if (date) {
+      parsed.push({ id: row.id, date });
+      if (note) notes.push({ ...row, date, note });
+    } else {
+      unparsable.push(row);
+    }
+  }
+
+  console.log(`\n${label}: ${rows.length} values, ${parsed.length} parsed, ${unparsable.length} unparsable`);
+  for (const row of notes) {
+    console.log(`   ⚠️  ${row.id}: "${row.value}" -> ${row.date} (${row.note})`);
+  }
+  for (const row of unparsable) {
+    console.log(`   ❌ ${row.id}: "${row.value}" -> ${fallback ? 'submission date' : 'cleared'}`);
+  }
+
+  if (!apply) return;
+
+  const temporary = `${column}_date`;
+  await prisma.$transaction([
+    prisma.$executeRawUnsafe(`ALTER TABLE "${table}" ADD COLUMN "${temporary}" date`),
+    prisma.$executeRawUnsafe(
+      `UPDATE "${table}" AS t SET "${temporary}" = v.date::date
+       FROM unnest($1::text[], $2::text[]) AS v(id, date) WHERE t.id = v.id`,
+      parsed.map((row) => row.id),
+      parsed.map((row) => row.date)
+    ),
+    ...(fallback
+      ? [prisma.$executeRawUnsafe(`UPDATE "${table}" SET "${temporary}" = ${fallback} WHERE "${temporary}" IS NULL`)]
+      : []),
+    prisma.$executeRawUnsafe(`ALTER TABLE "${table}" DROP COLUMN "${column}"`),
+    prisma.$executeRawUnsafe(`ALTER TABLE "${table}" RENAME COLUMN "${temporary}" TO "${column}"`),
+    ...(fallback ? [prisma.$executeRawUnsafe(`ALTER TABLE "${table}" ALTER COLUMN "${column}" SET NOT NULL`)] : []),
+  ]);
+
+  console.log(`✅ Converted ${label} to a date column`);
+}
+
+async function main() {
+  try {
+    await migrateColumn({ table: 'registrations', column: 'followUpDate', fallback: null });
+    // serviceDate is required, so unparsable values fall back to the day the feedback was submitted
+    await migrateColumn({ table: 'service_feedback', column: 'serviceDate', fallback: '"createdAt"::date' });
+
+    if (!apply) {
+      console.log('\nDry run only. Re-run with --apply to convert the columns, then run `npx prisma db push`.');
+    }
+  } catch (error) {
+    console.error('❌ Database error:', error);
+    process.exitCode = 1;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main();
@@ -0,0 +1,40 @@
+// Make the audit_log table append-only in the database itself: a trigger
+// rejects every UPDATE, DELETE and TRUNCATE, whoever connects. Run once after
+// `prisma db push` has created the table; running it again is harmless.
+// Usage: node scripts/protect-audit-log.mjs
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+async function main() {
+  try {
+    await prisma.$executeRawUnsafe(`
+      CREATE OR REPLACE FUNCTION audit_log_append_only() RETURNS trigger AS $$
+      BEGIN
+        RAISE EXCEPTION 'audit_log is append-only';
+      END;
+      $$ LANGUAGE plpgsql
+    `);
+    await prisma.$executeRawUnsafe('DROP TRIGGER IF EXISTS audit_log_no_changes ON audit_log');
+    await prisma.$executeRawUnsafe(`
+      CREATE TRIGGER audit_log_no_changes
+      BEFORE UPDATE OR DELETE ON audit_log
+      FOR EACH ROW EXECUTE FUNCTION audit_log_append_only()
+    `);
+    await prisma.$executeRawUnsafe('DROP TRIGGER IF EXISTS audit_log_no_truncate ON audit_log');
+    await prisma.$executeRawUnsafe(`
+      CREATE TRIGGER audit_log_no_truncate
+      BEFORE TRUNCATE ON audit_log
+      FOR EACH STATEMENT EXECUTE FUNCTION audit_log_append_only()
+    `);
+
+    console.log('✅ audit_log is now append-only');
+  } catch (error) {
+    console.error('❌ Database error:', error);
+    process.exitCode = 1;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main();